@@ -0,0 +1,142 @@
+import OpenAI from 'openai'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+
+const logger = createLogger('Embeddings')
+
+/**
+ * Turns texts into vectors for semantic search. `model` identifies the vector
+ * space: vectors from different models must never be compared.
+ */
+export interface EmbeddingProvider {
+    name: string
+    model: string
+    embed(texts: string[]): Promise<number[][]>
+}
+
+export function createOpenAIEmbeddingProvider(
+    apiKey: string | undefined,
+    model: string,
+    baseURL?: string
+): EmbeddingProvider {
+    const client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL })
+
+    return {
+        name: baseURL ? 'openai-compatible' : 'openai',
+        model,
+        async embed(texts) {
+            if (texts.length === 0) return []
+            const response = await client.embeddings.create({ model, input: texts })
+            return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding)
+        }
+    }
+}
+
+function hashToken(token: string): number {
+    // FNV-1a de 32 bits
+    let hash = 0x811c9dc5
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+/**
+ * Deterministic local embeddings for tests and offline development: hashed
+ * bag of words, plus the first four letters of longer words so that
+ * "receta" and "recetas" land close together
+ */
+export function createStubEmbeddingProvider(dimensions = 256): EmbeddingProvider {
+    function embedOne(text: string): number[] {
+        const vector = new Array<number>(dimensions).fill(0)
+        const tokens = text
+            .toLowerCase()
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .split(/[^a-z0-9ñ]+/)
+            .filter(token => token.length > 2)
+
+        for (const token of tokens) {
+            const features = token.length > 4 ? [token, `${token.slice(0, 4)}*`] : [token]
+            for (const feature of features) {
+                const hash = hashToken(feature)
+                vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1
+            }
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+        return norm > 0 ? vector.map(value => value / norm) : vector
+    }
+
+    return {
+        name: 'stub',
+        model: `stub-${dimensions}`,
+        async embed(texts) {
+            return texts.map(embedOne)
+        }
+    }
+}
+
+let currentProvider: EmbeddingProvider | null = null
+
+function createConfiguredProvider(): EmbeddingProvider {
+    const { provider, model, apiKey, baseUrl } = config.embeddings
+    switch (provider) {
+        case 'openai':
+            if (!apiKey) {
+                throw new Error(
+                    'OpenAI API key is missing. Set OPENAI_API_KEY to enable semantic search.'
+                )
+            }
+            return createOpenAIEmbeddingProvider(apiKey, model)
+        case 'openai-compatible':
+            if (!baseUrl) {
+                throw new Error(
+                    'EMBEDDINGS_BASE_URL is missing. Set it to the /v1 URL of your server.'
+                )
+            }
+            return createOpenAIEmbeddingProvider(apiKey, model, baseUrl)
+        case 'stub':
+            return createStubEmbeddingProvider()
+        default:
+            throw new Error(
+                `Unknown embeddings provider "${provider}". Use "openai", "openai-compatible", "stub" or "none".`
+            )
+    }
+}
+
+/**
+ * Whether notes should be embedded and searched semantically. It is opt-in:
+ * the first search embeds the whole notebook.
+ */
+export function isSemanticSearchEnabled(): boolean {
+    if (currentProvider) return true
+    switch (config.embeddings.provider) {
+        case 'none':
+            return false
+        case 'openai':
+            return Boolean(config.embeddings.apiKey)
+        default:
+            return true
+    }
+}
+
+/**
+ * Get the provider selected by `EMBEDDINGS_PROVIDER`, creating it on first use
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (!currentProvider) {
+        currentProvider = createConfiguredProvider()
+        logger.info('Embedding provider initialized', {
+            provider: currentProvider.name,
+            model: currentProvider.model
+        })
+    }
+    return currentProvider
+}
+
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+    currentProvider = provider
+}
@@ -0,0 +1,48 @@
+import { ChatMessage, LLMProvider, LLMRequest } from './llm.js'
+
+/**
+ * A canned answer, returned when the last user message contains `match`
+ * (or matches it, when `match` is a regular expression source wrapped in slashes)
+ */
+export interface LLMFixture {
+    match: string
+    response: string
+}
+
+function messageText(message: ChatMessage | undefined): string {
+    if (!message) return ''
+    if (typeof message.content === 'string') return message.content
+    return message.content.map(part => (part.type === 'text' ? part.text : '')).join('\n')
+}
+
+function matches(pattern: string, text: string): boolean {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+    if (regex) {
+        return new RegExp(regex[1], regex[2]).test(text)
+    }
+    return text.includes(pattern)
+}
+
+/**
+ * Deterministic provider for tests and offline development. Fixtures are
+ * checked in order; unmatched requests get `fallback`. Every request is
+ * recorded in `requests` so tests can assert on prompts and task settings.
+ */
+export function createFixtureProvider(
+    fixtures: LLMFixture[],
+    fallback = ''
+): LLMProvider & { requests: LLMRequest[] } {
+    const requests: LLMRequest[] = []
+
+    return {
+        name: 'fixture',
+        requests,
+        async complete(request) {
+            requests.push(request)
+            const userMessages = request.messages.filter(message => message.role === 'user')
+            const text = messageText(userMessages[userMessages.length - 1])
+            const fixture = fixtures.find(candidate => matches(candidate.match, text))
+            return fixture ? fixture.response : fallback
+        }
+    }
+}
@@ -0,0 +1,165 @@
+import { readFileSync } from 'fs'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { createFixtureProvider, LLMFixture } from './fixtureProvider.js'
+import { createOpenAIProvider } from './openai.js'
+
+const logger = createLogger('LLM')
+
+export type LLMTask = 'classification' | 'conversation' | 'answer' | 'vision'
+
+export type ChatContentPart =
+    { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant'
+    content: string | ChatContentPart[]
+}
+
+/**
+ * JSON schema the response must follow. Providers that support structured
+ * output enforce it; the caller still validates the result.
+ */
+export interface LLMJsonSchema {
+    name: string
+    schema: Record<string, unknown>
+}
+
+export interface LLMRequest {
+    messages: ChatMessage[]
+    model: string
+    temperature?: number
+    maxTokens?: number
+    timeoutMs?: number
+    jsonSchema?: LLMJsonSchema
+}
+
+/**
+ * A chat-completion backend. Adapters return the trimmed text of the first choice.
+ */
+export interface LLMProvider {
+    name: string
+    complete(request: LLMRequest): Promise<string>
+}
+
+export interface LLMTaskSettings {
+    model: string
+    temperature?: number
+    maxTokens?: number
+    timeoutMs?: number
+}
+
+let currentProvider: LLMProvider | null = null
+
+function createConfiguredProvider(): LLMProvider {
+    const { provider, apiKey, baseUrl, fixturesPath } = config.llm
+    switch (provider) {
+        case 'openai':
+            if (!apiKey) {
+                throw new Error(
+                    'OpenAI API key is missing. Set OPENAI_API_KEY to enable AI responses.'
+                )
+            }
+            return createOpenAIProvider({ apiKey })
+        case 'openai-compatible':
+            if (!baseUrl) {
+                throw new Error('LLM_BASE_URL is missing. Set it to the /v1 URL of your server.')
+            }
+            return createOpenAIProvider({ apiKey, baseURL: baseUrl, name: 'openai-compatible' })
+        case 'fixture': {
+            const fixtures: LLMFixture[] = fixturesPath
+                ? JSON.parse(readFileSync(fixturesPath, 'utf8'))
+                : []
+            return createFixtureProvider(fixtures)
+        }
+        default:
+            throw new Error(
+                `Unknown LLM provider "${provider}". Use "openai", "openai-compatible" or "fixture".`
+            )
+    }
+}
+
+/**
+ * Whether the configured provider has what it needs to answer
+ */
+export function isLLMConfigured(): boolean {
+    if (currentProvider) return true
+    switch (config.llm.provider) {
+        case 'openai':
+            return Boolean(config.llm.apiKey)
+        case 'openai-compatible':
+            return Boolean(config.llm.baseUrl)
+        case 'fixture':
+            return true
+        default:
+            return false
+    }
+}
+
+/**
+ * Get the provider selected by `LLM_PROVIDER`, creating it on first use
+ */
+export function getLLMProvider(): LLMProvider {
+    if (!currentProvider) {
+        currentProvider = createConfiguredProvider()
+        logger.info('LLM provider initialized', { provider: currentProvider.name })
+    }
+    return currentProvider
+}
+
+export function setLLMProvider(provider: LLMProvider | null): void {
+    currentProvider = provider
+}
+
+export function getTaskSettings(task: LLMTask): LLMTaskSettings {
+    return config.llm.tasks[task]
+}
+
+/**
+ * Run a chat completion with the model, temperature, timeout and token limit of a task
+ */
+export async function completeTask(
+    task: LLMTask,
+    messages: ChatMessage[],
+    jsonSchema?: LLMJsonSchema
+): Promise<string> {
+    return getLLMProvider().complete({ ...getTaskSettings(task), messages, jsonSchema })
+}
+
+/**
+ * A single user prompt, preceded by the configured system prompt
+ */
+export function promptMessages(prompt: string): ChatMessage[] {
+    const messages: ChatMessage[] = []
+    if (config.ai.systemPrompt) {
+        messages.push({ role: 'system', content: config.ai.systemPrompt })
+    }
+    messages.push({ role: 'user', content: prompt })
+    return messages
+}
+
+export async function generateResponse(
+    prompt: string,
+    task: LLMTask = 'conversation'
+): Promise<string> {
+    return completeTask(task, promptMessages(prompt))
+}
+
+export async function describeImage(data: Buffer, mimetype: string): Promise<string> {
+    return completeTask('vision', [
+        {
+            role: 'user',
+            content: [
+                {
+                    type: 'text',
+                    text: 'Describe brevemente esta imagen en español para guardarla como nota. Si contiene texto (una receta, un ticket, una captura), transcríbelo.'
+                },
+                {
+                    type: 'image_url',
+                    image_url: { url: `data:${mimetype};base64,${data.toString('base64')}` }
+                }
+            ]
+        }
+    ])
+}
@@ -1,27 +1,63 @@
 import OpenAI from 'openai'
-import { config } from '../config/index.js'
 
-let client: OpenAI | null = null
+import { LLMJsonSchema, LLMProvider } from './llm.js'
 
-if (config.ai.apiKey) {
-    client = new OpenAI({ apiKey: config.ai.apiKey })
+export interface OpenAIProviderOptions {
+    apiKey?: string
+    /**
+     * Any OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+     * or http://localhost:8080/v1 for llama.cpp
+     */
+    baseURL?: string
+    name?: string
 }
 
-export async function generateResponse(prompt: string): Promise<string> {
-    if (!client) {
-        throw new Error('OpenAI API key is missing. Set OPENAI_API_KEY to enable AI responses.')
-    }
+/**
+ * OpenAI models older than gpt-4o reject `json_schema`. gpt-3.5-turbo and
+ * gpt-4-turbo still take `json_object`; the first gpt-4 snapshots take
+ * neither and answer plain text, which the caller validates and repairs.
+ * Other names (gpt-4o, gpt-4.1, o-series, local models) get the schema.
+ */
+const LEGACY_MODEL = /^gpt-(3\.5|4)(-|$)/
+const JSON_MODE_MODEL = /^gpt-(3\.5-turbo|4-turbo|4-\d{4}-preview)(?!.*-(0301|0613|instruct))/
 
-    const messages: { role: 'system' | 'user'; content: string }[] = []
-    if (config.ai.systemPrompt) {
-        messages.push({ role: 'system', content: config.ai.systemPrompt })
+export function responseFormatFor(
+    model: string,
+    jsonSchema?: LLMJsonSchema
+): OpenAI.Chat.ChatCompletionCreateParams['response_format'] | undefined {
+    if (!jsonSchema) return undefined
+    if (!LEGACY_MODEL.test(model)) {
+        return {
+            type: 'json_schema',
+            json_schema: { name: jsonSchema.name, schema: jsonSchema.schema }
+        }
     }
-    messages.push({ role: 'user', content: prompt })
+    return JSON_MODE_MODEL.test(model) ? { type: 'json_object' } : undefined
+}
 
-    const chat = await client.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+    const client = new OpenAI({
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: options.apiKey || 'not-needed',
+        baseURL: options.baseURL
     })
 
-    return chat.choices[0]?.message?.content?.trim() || ''
+    return {
+        name: options.name || 'openai',
+        async complete(request) {
+            const responseFormat = responseFormatFor(request.model, request.jsonSchema)
+            const chat = await client.chat.completions.create(
+                {
+                    model: request.model,
+                    messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                    ...(responseFormat && { response_format: responseFormat })
+                },
+                { timeout: request.timeoutMs }
+            )
+
+            return chat.choices[0]?.message?.content?.trim() || ''
+        }
+    }
 }
@@ -0,0 +1,86 @@
+import OpenAI, { toFile } from 'openai'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+
+const logger = createLogger('Transcription')
+
+/**
+ * Speech-to-text provider used for WhatsApp voice notes
+ */
+export interface Transcriber {
+    name: string
+    transcribe(audio: Buffer, mimetype: string): Promise<string>
+}
+
+export function createOpenAITranscriber(
+    apiKey: string,
+    model: string,
+    language?: string
+): Transcriber {
+    const client = new OpenAI({ apiKey })
+
+    return {
+        name: 'openai',
+        async transcribe(audio, mimetype) {
+            const extension = mimetype.includes('mpeg') ? 'mp3' : 'ogg'
+            const transcription = await client.audio.transcriptions.create({
+                file: await toFile(audio, `voice-note.${extension}`, { type: mimetype }),
+                model,
+                language
+            })
+            return transcription.text.trim()
+        }
+    }
+}
+
+/**
+ * Deterministic transcriber for tests and local development: returns the
+ * given transcripts in order, repeating the last one
+ */
+export function createStubTranscriber(...transcripts: string[]): Transcriber {
+    let calls = 0
+
+    return {
+        name: 'stub',
+        async transcribe() {
+            const transcript = transcripts[Math.min(calls, transcripts.length - 1)] || ''
+            calls++
+            return transcript
+        }
+    }
+}
+
+let currentTranscriber: Transcriber | null = null
+
+function createConfiguredTranscriber(): Transcriber {
+    const { provider, model, language, stubText } = config.transcription
+    switch (provider) {
+        case 'openai':
+            if (!config.ai.apiKey) {
+                throw new Error(
+                    'OpenAI API key is missing. Set OPENAI_API_KEY to enable voice note transcription.'
+                )
+            }
+            return createOpenAITranscriber(config.ai.apiKey, model, language)
+        case 'stub':
+            return createStubTranscriber(stubText)
+        default:
+            throw new Error(`Unknown transcription provider "${provider}". Use "openai" or "stub".`)
+    }
+}
+
+/**
+ * Get the transcriber selected by `TRANSCRIPTION_PROVIDER`, creating it on first use
+ */
+export function getTranscriber(): Transcriber {
+    if (!currentTranscriber) {
+        currentTranscriber = createConfiguredTranscriber()
+        logger.info('Transcriber initialized', { provider: currentTranscriber.name })
+    }
+    return currentTranscriber
+}
+
+export function setTranscriber(transcriber: Transcriber | null): void {
+    currentTranscriber = transcriber
+}
@@ -2,6 +2,16 @@ import dotenv from 'dotenv'
 
 dotenv.config()
 
+function taskSettings(name: string, defaults: { model: string; temperature: number; maxTokens: number }) {
+    const env = (key: string) => process.env[`LLM_${name}_${key}`]
+    return {
+        model: env('MODEL') || defaults.model,
+        temperature: env('TEMPERATURE') ? parseFloat(env('TEMPERATURE')!) : defaults.temperature,
+        maxTokens: env('MAX_TOKENS') ? parseInt(env('MAX_TOKENS')!, 10) : defaults.maxTokens,
+        timeoutMs: parseInt(env('TIMEOUT_MS') || process.env.LLM_TIMEOUT_MS || '30000', 10)
+    }
+}
+
 export const config = {
     server: {
         port: process.env.PORT || 3000
@@ -25,9 +35,152 @@ export const config = {
         apiKey: process.env.OPENAI_API_KEY,
         systemPrompt: process.env.AI_SYSTEM_PROMPT || 'Eres Ikigai, un asistente inteligente para gestión de notas.'
     },
+    llm: {
+        // openai | openai-compatible (LLM_BASE_URL, e.g. Ollama or llama.cpp) | fixture
+        provider: process.env.LLM_PROVIDER || 'openai',
+        apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+        baseUrl: process.env.LLM_BASE_URL,
+        fixturesPath: process.env.LLM_FIXTURES_PATH,
+        tasks: {
+            classification: taskSettings('CLASSIFICATION', {
+                model: 'gpt-4o-mini',
+                temperature: 0,
+                maxTokens: 1000
+            }),
+            conversation: taskSettings('CONVERSATION', {
+                model: 'gpt-3.5-turbo',
+                temperature: 0.7,
+                maxTokens: 600
+            }),
+            answer: taskSettings('ANSWER', {
+                model: 'gpt-3.5-turbo',
+                temperature: 0.2,
+                maxTokens: 800
+            }),
+            vision: taskSettings('VISION', {
+                model: process.env.AI_VISION_MODEL || 'gpt-4o-mini',
+                temperature: 0.2,
+                maxTokens: 600
+            })
+        }
+    },
+    embeddings: {
+        // none | openai | openai-compatible (EMBEDDINGS_BASE_URL) | stub; off unless chosen
+        provider: process.env.EMBEDDINGS_PROVIDER || 'none',
+        model: process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small',
+        apiKey:
+            process.env.EMBEDDINGS_API_KEY || process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+        baseUrl: process.env.EMBEDDINGS_BASE_URL || process.env.LLM_BASE_URL,
+        indexDir: process.env.VECTOR_INDEX_DIR || 'ikigai_data/vectors',
+        semanticWeight: parseFloat(process.env.SEMANTIC_WEIGHT || '0.5'),
+        minSimilarity: parseFloat(process.env.SEMANTIC_MIN_SIMILARITY || '0.3')
+    },
+    access: {
+        mode: process.env.ACCESS_MODE || 'open',
+        // Seed values for the rules file; the dashboard edits the file afterwards
+        allowlist: (process.env.ACCESS_ALLOWLIST || '')
+            .split(',')
+            .map(jid => jid.trim())
+            .filter(Boolean),
+        blocklist: (process.env.ACCESS_BLOCKLIST || '')
+            .split(',')
+            .map(jid => jid.trim())
+            .filter(Boolean),
+        rulesPath: process.env.ACCESS_RULES_PATH || 'ikigai_data/access.json',
+        rejectionMessage:
+            process.env.ACCESS_REJECTION_MESSAGE ||
+            'Hola 👋 Gracias por escribir. Este asistente es privado por ahora. Si tienes un código de invitación, envíamelo para empezar.'
+    },
+    users: {
+        // These senders keep using the default notebook (NOTION_DATABASE_ID or LOCAL_NOTES_PATH)
+        ownerJids: (process.env.OWNER_JIDS || '')
+            .split(',')
+            .map(jid => jid.trim())
+            .filter(Boolean),
+        registryPath: process.env.USER_REGISTRY_PATH || 'ikigai_data/users.json',
+        notionParentPageId: process.env.NOTION_PARENT_PAGE_ID
+    },
+    groups: {
+        prefix: process.env.GROUP_PREFIX || '!ikigai',
+        // Entries are "groupJid=notionDatabaseId", or just "groupJid" with the local store
+        allowlist: (process.env.GROUP_ALLOWLIST || '')
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(Boolean)
+    },
+    transcription: {
+        provider: process.env.TRANSCRIPTION_PROVIDER || 'openai',
+        model: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+        language: process.env.TRANSCRIPTION_LANGUAGE || 'es',
+        stubText: process.env.TRANSCRIPTION_STUB_TEXT || ''
+    },
+    storage: {
+        backend: process.env.NOTE_STORE || 'notion',
+        localPath: process.env.LOCAL_NOTES_PATH || 'ikigai_data/notes.json'
+    },
+    conversation: {
+        persistence: process.env.CONVERSATION_STORE || 'file',
+        filePath: process.env.CONVERSATION_STORE_PATH,
+        ttlMinutes: parseInt(process.env.CONVERSATION_TTL_MINUTES || '60', 10)
+    },
+    reminders: {
+        path: process.env.REMINDERS_PATH || 'ikigai_data/reminders.json',
+        // Minutes before the event; "1440,60" reminds the day before and one hour before
+        offsetsMinutes: (process.env.REMINDER_OFFSETS_MINUTES || '1440,60')
+            .split(',')
+            .map(value => parseInt(value.trim(), 10))
+            .filter(value => !Number.isNaN(value) && value >= 0),
+        // All-day events are treated as starting at this hour
+        allDayHour: parseInt(process.env.REMINDER_ALL_DAY_HOUR || '9', 10),
+        snoozeMinutes: parseInt(process.env.REMINDER_SNOOZE_MINUTES || '10', 10),
+        checkIntervalSeconds: parseInt(process.env.REMINDER_CHECK_SECONDS || '30', 10)
+    },
+    imports: {
+        progressPath: process.env.IMPORT_PROGRESS_PATH || 'ikigai_data/import-progress.json',
+        // Entries classified at the same time
+        batchSize: parseInt(process.env.IMPORT_BATCH_SIZE || '5', 10)
+    },
+    jobs: {
+        path: process.env.JOBS_PATH || 'ikigai_data/jobs.json',
+        checkIntervalSeconds: parseInt(process.env.JOB_CHECK_SECONDS || '60', 10)
+    },
+    digest: {
+        // Used when the user opts in without saying when
+        defaultTime: process.env.DIGEST_DEFAULT_TIME || '08:00',
+        // Day of weekly digests: 0 is Sunday, 1 is Monday
+        weekday: parseInt(process.env.DIGEST_WEEKDAY || '1', 10)
+    },
+    duplicates: {
+        // Look for an existing note before saving a new one
+        enabled: process.env.DUPLICATE_CHECK !== 'false',
+        // Word overlap (0-1) from which two notes count as the same
+        similarity: parseFloat(process.env.DUPLICATE_SIMILARITY || '0.8')
+    },
+    links: {
+        // Fetch titles and descriptions of links before classifying a message
+        enabled: process.env.LINK_PREVIEWS !== 'false',
+        timeoutMs: parseInt(process.env.LINK_FETCH_TIMEOUT_MS || '5000', 10),
+        maxBytes: parseInt(process.env.LINK_FETCH_MAX_KB || '512', 10) * 1024,
+        maxLinks: parseInt(process.env.LINK_PREVIEW_MAX_LINKS || '3', 10)
+    },
+    media: {
+        maxBytes: parseInt(process.env.MEDIA_MAX_MB || '20', 10) * 1024 * 1024
+    },
     notion: {
         apiKey: process.env.NOTION_API_KEY,
-        databaseId: process.env.NOTION_DATABASE_ID
+        databaseId: process.env.NOTION_DATABASE_ID,
+        maxQueryResults: parseInt(process.env.NOTION_MAX_RESULTS || '1000', 10),
+        // Column names of the notes database
+        properties: {
+            title: process.env.NOTION_TITLE_PROPERTY || 'Title',
+            content: process.env.NOTION_CONTENT_PROPERTY || 'Content',
+            tags: process.env.NOTION_TAGS_PROPERTY || 'Tags',
+            createdDate: process.env.NOTION_CREATED_DATE_PROPERTY || 'Created Date',
+            // Needed by group notebooks, which record who sent each note
+            author: process.env.NOTION_AUTHOR_PROPERTY || 'Author',
+            // Optional date property for event notes; leave empty if the database does not have one
+            eventDate: process.env.NOTION_EVENT_DATE_PROPERTY || ''
+        }
     },
     logger: {
         level: process.env.LOG_LEVEL || 'info'
@@ -1,16 +1,110 @@
 import { BaileysEventMap, WASocket, WAMessage } from 'baileys'
 import { config } from '../config/index.js'
-import { classifyIntent, formatQueryResponse, parseTagCorrection } from '../services/intentClassifier.js'
-import { createNotionNote, queryNotionNotes, getNotesCount, updateNoteTags } from '../services/notion.js'
+import {
+    classifyIntent,
+    formatNoteList,
+    formatQueryResponse,
+    DigestIntent,
+    ReminderIntent,
+    RESULTS_PAGE_SIZE,
+    TagsIntent
+} from '../services/intentClassifier.js'
+import { getNoteStore, Notebook, NoteAttachment, NoteData, NoteQueryResult, NoteStore } from '../services/noteStore.js'
+import { getGroupCommand, getGroupSettings, isGroupJid } from '../services/groups.js'
+import { resolveUserNotebook } from '../services/onboarding.js'
+import { checkAccess } from '../services/accessControl.js'
+import { parseConfirmation, resolveTargetNote } from '../services/noteActions.js'
+import { formatNoteDetail, parseResultSelection, ResultSelection } from '../services/noteDetails.js'
+import { buildNoteQuery } from '../services/noteQuery.js'
+import { answerFromNotes, findNotesForQuestion, formatAnswer, formatNoAnswer } from '../services/noteAnswers.js'
+import { enrichLinks } from '../services/linkPreview.js'
+import {
+    applyTagChange,
+    formatTagChange,
+    formatTagChangeConfirmation,
+    formatTagUsage,
+    getTagUsage,
+    planTagChange,
+    planTagMerge
+} from '../services/tags.js'
+import {
+    applyTagCorrection,
+    formatTagChangeQuestion,
+    parseTagCorrection,
+    resolveTagNames,
+    TagCorrection
+} from '../services/tagCorrection.js'
+import {
+    DuplicateChoice,
+    findDuplicateNote,
+    formatDuplicateQuestion,
+    mergeNotes,
+    parseDuplicateChoice
+} from '../services/duplicates.js'
+import {
+    cancelNoteReminders,
+    findReminderEvent,
+    formatEventDate,
+    formatReminderList,
+    formatReminderTime,
+    groupReminderEvents,
+    parseSnoozeDuration,
+    scheduleEventReminders
+} from '../services/reminders.js'
+import {
+    describeMediaKind,
+    downloadIncomingMedia,
+    getIncomingMedia,
+    IncomingMedia,
+    isMediaTooLarge
+} from '../services/media.js'
+import { describeImage, isLLMConfigured } from '../ai/llm.js'
+import { getTranscriber } from '../ai/transcription.js'
+import {
+    getConversationStore,
+    ConversationState,
+    LastNoteContext,
+    PendingDuplicateContext
+} from '../store/conversationStore.js'
+import { getReminderStore, Reminder } from '../store/reminderStore.js'
+import { getJobStore } from '../store/jobStore.js'
+import { digestJobId, parseDigestTime, subscribeDigest } from '../services/digest.js'
 import { createLogger } from '../logger/index.js'
 
 const logger = createLogger('MessageHandler')
 
-const conversationContext = new Map<string, {
-    lastNote?: any,
-    awaitingTagCorrection?: boolean,
-    lastQuery?: string
-}>()
+// Notas de la última búsqueda que se pueden abrir por número o paginar con "ver más"
+const MAX_REMEMBERED_RESULTS = 50
+
+/**
+ * Where a message came from, where its replies go and which notebook it uses
+ */
+interface ChatContext {
+    remoteJid: string
+    sender: string
+    isGroup: boolean
+    /**
+     * Key of the conversation state; per participant inside groups
+     */
+    stateKey: string
+    notebook: Notebook
+    store: NoteStore
+    quoted?: WAMessage
+}
+
+async function reply(sock: WASocket, chat: ChatContext, text: string) {
+    await sock.sendMessage(chat.remoteJid, { text }, chat.quoted ? { quoted: chat.quoted } : undefined)
+}
+
+function getMentionedJids(message: WAMessage): string[] {
+    const content = message.message
+    const contextInfo =
+        content?.extendedTextMessage?.contextInfo ||
+        content?.imageMessage?.contextInfo ||
+        content?.videoMessage?.contextInfo ||
+        content?.documentMessage?.contextInfo
+    return contextInfo?.mentionedJid || []
+}
 
 export function setupMessageHandler(sock: WASocket) {
     
@@ -38,50 +132,97 @@ async function handleMessage(sock: WASocket, message: WAMessage) {
         const remoteJid = message.key.remoteJid
         if (!remoteJid) return
 
-        
-        if (remoteJid.endsWith('@g.us')) {
-            logger.info('Ignoring group message', { groupId: remoteJid })
-            return
-        }
-
-        
-        const textContent =
+        const media = getIncomingMedia(message)
+        let textContent =
             message.message?.conversation || 
             message.message?.extendedTextMessage?.text || 
-            message.message?.imageMessage?.caption ||
-            message.message?.videoMessage?.caption ||
-            message.message?.documentMessage?.caption ||
+            media?.caption ||
             ''
 
-        if (!textContent) {
-            
-            const mediaType = message.message?.imageMessage ? 'imagen' :
-                             message.message?.videoMessage ? 'video' :
-                             message.message?.documentMessage ? 'documento' :
-                             'archivo'
-            
-            await sock.sendMessage(remoteJid, { 
-                text: `📎 Recibí un ${mediaType}. Para poder guardarlo como nota, ¿puedes enviarlo con una descripción o caption? Por ejemplo: "Esta es mi receta favorita" junto con la imagen.`
-            })
+        const isGroup = isGroupJid(remoteJid)
+        const sender = isGroup ? message.key.participant || remoteJid : remoteJid
+
+        const access = await checkAccess(sender, textContent, isGroup)
+        if (access.status === 'blocked') {
+            logger.info('Ignoring message from blocked sender', { from: sender })
+            return
+        }
+        if (access.status !== 'allowed') {
+            if (!isGroup) {
+                await sock.sendMessage(remoteJid, { text: access.reply })
+            }
+            return
+        }
+
+        let chat: ChatContext
+        if (isGroup) {
+            const group = getGroupSettings(remoteJid)
+            if (!group) {
+                logger.info('Ignoring message from group not in allowlist', { groupId: remoteJid })
+                return
+            }
+
+            const botJids = [sock.user?.id, sock.user?.lid].filter((jid): jid is string => Boolean(jid))
+            const command = getGroupCommand(textContent, getMentionedJids(message), botJids)
+            if (command === null) return
+
+            textContent = command
+            chat = {
+                remoteJid,
+                sender,
+                isGroup: true,
+                stateKey: `${remoteJid}/${sender}`,
+                notebook: group.notebook,
+                store: getNoteStore(group.notebook),
+                quoted: message
+            }
+        } else {
+            const resolution = await resolveUserNotebook(remoteJid, textContent, message.pushName || undefined)
+            if (resolution.status === 'reply') {
+                await sock.sendMessage(remoteJid, { text: resolution.text })
+                return
+            }
+            if (resolution.welcome) {
+                await sock.sendMessage(remoteJid, { text: resolution.welcome })
+            }
+
+            chat = {
+                remoteJid,
+                sender: remoteJid,
+                isGroup: false,
+                stateKey: remoteJid,
+                notebook: resolution.notebook,
+                store: getNoteStore(resolution.notebook)
+            }
+        }
+
+        if (!textContent && !media) {
+            await reply(sock, chat, '📎 Recibí un archivo que todavía no sé guardar. Puedes enviarme texto, imágenes, documentos o audios.')
             return
         }
 
         logger.info('Processing message', { 
-            from: remoteJid, 
-            content: textContent.substring(0, 100) + '...' 
+            from: chat.sender, 
+            chat: remoteJid,
+            content: textContent.substring(0, 100) + '...',
+            media: media?.kind
         })
 
         
-        const context = conversationContext.get(remoteJid) || {}
+        const context = await getConversationStore().get(chat.stateKey)
 
         
-        if (config.bot.aiEnabled && config.ai.apiKey) {
-            await handleIntelligentMessage(sock, remoteJid, textContent, context)
+        if (config.bot.aiEnabled && isLLMConfigured()) {
+            if (media?.voiceNote) {
+                await handleVoiceNote(sock, message, chat, media, context)
+            } else if (media) {
+                await handleMediaMessage(sock, message, chat, media, textContent, context)
+            } else {
+                await handleIntelligentMessage(sock, chat, textContent, context)
+            }
         } else {
             
-            await sock.sendMessage(remoteJid, { 
-                text: 'Hola! Soy Ikigai. La funcionalidad de IA no está habilitada. Por favor, configura OPENAI_API_KEY y AI_ENABLED=true.' 
-            })
+            await reply(sock, chat, 'Hola! Soy Ikigai. La funcionalidad de IA no está habilitada. Por favor, configura AI_ENABLED=true y un proveedor de IA (LLM_PROVIDER / OPENAI_API_KEY).')
         }
 
     } catch (error) {
@@ -96,87 +237,226 @@ async function handleMessage(sock: WASocket, message: WAMessage) {
     }
 }
 
-async function handleIntelligentMessage(sock: WASocket, remoteJid: string, textContent: string, context: any) {
+async function handleVoiceNote(
+    sock: WASocket,
+    message: WAMessage,
+    chat: ChatContext,
+    media: IncomingMedia,
+    context: ConversationState
+) {
+    if (isMediaTooLarge(media)) {
+        await reply(sock, chat, '🎙️ La nota de voz es demasiado larga para transcribirla. ¿Puedes enviarla en partes más cortas?')
+        return
+    }
+
+    const audio = await downloadIncomingMedia(sock, message, media)
+    const transcript = await getTranscriber().transcribe(audio.data, audio.mimetype)
+
+    if (!transcript) {
+        await reply(sock, chat, '🎙️ No pude entender la nota de voz. ¿Puedes repetirla o escribirme el mensaje?')
+        return
+    }
+
+    logger.info('Voice note transcribed', { from: chat.sender, length: transcript.length })
+    await reply(sock, chat, `🎙️ _${transcript}_`)
+
+    // La transcripción sigue el mismo camino que un mensaje de texto
+    await handleIntelligentMessage(sock, chat, transcript, context)
+}
+
+async function handleMediaMessage(
+    sock: WASocket,
+    message: WAMessage,
+    chat: ChatContext,
+    media: IncomingMedia,
+    caption: string,
+    context: ConversationState
+) {
+    const label = describeMediaKind(media.kind)
+
+    if (isMediaTooLarge(media)) {
+        await reply(sock, chat, `📎 El ${label} es demasiado grande para guardarlo (máximo ${Math.round(config.media.maxBytes / (1024 * 1024))} MB).`)
+        return
+    }
+
+    const attachment = await downloadIncomingMedia(sock, message, media)
+
+    // Sin caption, la descripción generada por la IA (o el nombre del archivo) hace de texto de la nota
+    let textContent = caption
+    if (!textContent) {
+        const description = media.kind === 'image'
+            ? await describeImage(attachment.data, attachment.mimetype)
+            : ''
+        textContent = description
+            ? `${description}\n\nArchivo: ${media.nombreArchivo}`
+            : `${label.charAt(0).toUpperCase() + label.slice(1)}: ${media.nombreArchivo}`
+    }
+
+    await handleIntelligentMessage(sock, chat, textContent, context, attachment)
+}
+
+async function handleIntelligentMessage(
+    sock: WASocket,
+    chat: ChatContext,
+    textContent: string,
+    context: ConversationState,
+    attachment?: NoteAttachment
+) {
     try {
-        
-        if (context.awaitingTagCorrection && context.lastNote) {
-            const tagCorrection = parseTagCorrection(textContent, context.lastNote.titulo)
-            if (tagCorrection) {
-                const success = await updateNoteTags(context.lastNote.id, tagCorrection.newTags)
-                
-                if (success) {
-                    const response = `✅ ¡Perfecto! Actualicé las etiquetas de "${context.lastNote.titulo}" a: ${tagCorrection.newTags.join(', ')}`
-                    await sock.sendMessage(remoteJid, { text: response })
-                    
-                    
-                    context.awaitingTagCorrection = false
-                    context.lastNote = undefined
-                } else {
-                    await sock.sendMessage(remoteJid, { 
-                        text: 'Hubo un problema al actualizar las etiquetas. ¿Puedes intentar de nuevo?' 
-                    })
+        const store = chat.store
+
+        if (context.pendingDelete && !attachment) {
+            const answer = parseConfirmation(textContent)
+            const pending = context.pendingDelete
+            context.pendingDelete = undefined
+
+            if (answer) {
+                let response = `👍 De acuerdo, no eliminé "${pending.titulo}".`
+                if (answer === 'yes') {
+                    const success = await store.deleteNote(pending.id)
+                    response = success
+                        ? `🗑️ Eliminé la nota "${pending.titulo}".`
+                        : 'Hubo un problema al eliminar la nota. ¿Puedes intentar de nuevo?'
+                    if (success) {
+                        await cancelNoteReminders(getReminderStore(), pending.id)
+                    }
+                    if (success && context.lastNote?.id === pending.id) {
+                        context.lastNote = undefined
+                        context.awaitingTagCorrection = false
+                    }
                 }
-                
-                conversationContext.set(remoteJid, context)
+
+                await getConversationStore().save(chat.stateKey, context)
+                await reply(sock, chat, response)
+                return
+            }
+            // Cualquier otra respuesta cancela el borrado y se trata como un mensaje nuevo
+        }
+
+        if (context.pendingDuplicate && !attachment) {
+            const choice = parseDuplicateChoice(textContent)
+            const pending = context.pendingDuplicate
+            context.pendingDuplicate = undefined
+
+            if (choice) {
+                const response = await resolveDuplicate(chat, context, pending, choice)
+                await getConversationStore().save(chat.stateKey, context)
+                await reply(sock, chat, response)
+                return
+            }
+            // Cualquier otra respuesta descarta la nota retenida y se trata como un mensaje nuevo
+        }
+
+        if (context.pendingTagChange && !attachment) {
+            const answer = parseConfirmation(textContent)
+            const pending = context.pendingTagChange
+            context.pendingTagChange = undefined
+
+            if (answer) {
+                const response = answer === 'yes'
+                    ? await writeNoteTags(store, context, pending)
+                    : `👍 De acuerdo, dejé las etiquetas de "${pending.titulo}" como estaban.`
+                await getConversationStore().save(chat.stateKey, context)
+                await reply(sock, chat, response)
+                return
+            }
+            // Cualquier otra respuesta cancela el cambio y se trata como un mensaje nuevo
+        }
+
+        if (context.pendingTagsUpdate && !attachment) {
+            const answer = parseConfirmation(textContent)
+            const pending = context.pendingTagsUpdate
+            context.pendingTagsUpdate = undefined
+
+            if (answer) {
+                let response = '👍 De acuerdo, no cambié las etiquetas.'
+                if (answer === 'yes') {
+                    const change = await applyTagChange(store, pending)
+                    response = change
+                        ? formatTagChange(change)
+                        : 'Hubo un problema al actualizar las etiquetas. ¿Puedes intentar de nuevo?'
+                }
+                await getConversationStore().save(chat.stateKey, context)
+                await reply(sock, chat, response)
+                return
+            }
+            // Cualquier otra respuesta cancela el cambio y se trata como un mensaje nuevo
+        }
+
+        if (context.lastResults && !attachment) {
+            const selection = parseResultSelection(textContent)
+            if (selection) {
+                const response = await selectFromResults(store, context, selection)
+                await getConversationStore().save(chat.stateKey, context)
+                await reply(sock, chat, response)
+                return
+            }
+        }
+        
+        if (context.awaitingTagCorrection && context.lastNote && !attachment) {
+            const available = await store.getAvailableTags()
+            const correction = parseTagCorrection(textContent, {
+                available,
+                current: context.lastNote.etiquetas,
+                suggested: context.suggestedTags
+            })
+            if (correction) {
+                const response = await proposeTagChange(store, context, correction, available)
+                await getConversationStore().save(chat.stateKey, context)
+                await reply(sock, chat, response)
                 return
             }
         }
 
         
-        const intent = await classifyIntent(textContent)
+        // Título y descripción de los enlaces, para clasificar y guardar con algo más que la URL
+        const links = config.links.enabled ? await enrichLinks(textContent) : []
+        let intent = await classifyIntent(textContent, store, links)
+
+        // Un archivo siempre se guarda, aunque el texto que lo acompaña no parezca una nota
+        if (attachment && intent.type !== 'save_note') {
+            intent = {
+                type: 'save_note',
+                titulo: attachment.nombreArchivo,
+                contenido: textContent,
+                etiquetas: ['Otros'],
+                confidence: 0.5
+            }
+        }
         
         let response = ''
 
         switch (intent.type) {
             case 'save_note': {
-                
-                logger.info('Saving note', { 
-                    titulo: intent.titulo, 
-                    etiquetas: intent.etiquetas 
-                })
-                
-                const pageId = await createNotionNote({
+                const note: NoteData = {
                     titulo: intent.titulo,
                     contenido: intent.contenido,
-                    etiquetas: intent.etiquetas
-                })
+                    etiquetas: intent.etiquetas,
+                    adjuntos: attachment ? [attachment] : undefined,
+                    autor: chat.isGroup ? chat.sender : undefined,
+                    fechaEvento: intent.fechaEvento,
+                    enlaces: links.length > 0 ? links : undefined
+                }
 
-                if (pageId) {
-                    response = `✅ ¡Perfecto! Guardé tu nota "${intent.titulo}"`
-                    
-                    if (intent.etiquetas.length > 1) {
-                        response += ` con las etiquetas: ${intent.etiquetas.join(', ')}`
-                    } else {
-                        response += ` en la categoría "${intent.etiquetas[0]}"`
-                    }
-                    
-                    
-                    if (intent.suggested_tags && intent.suggested_tags.length > 0) {
-                        const uniqueSuggested = intent.suggested_tags.filter(tag => !intent.etiquetas.includes(tag))
-                        if (uniqueSuggested.length > 0) {
-                            response += `\n\n💡 También podrías etiquetarla como: ${uniqueSuggested.join(', ')}`
-                            response += `\n¿Quieres agregar alguna de estas etiquetas?`
-                            
-                           
-                            context.awaitingTagCorrection = true
-                            context.lastNote = {
-                                id: pageId, 
-                                titulo: intent.titulo,
-                                etiquetas: intent.etiquetas
+                // Los archivos no se guardan en el estado de la conversación: con adjunto se guarda directamente
+                if (config.duplicates.enabled && !attachment) {
+                    const duplicate = await findDuplicateNote(store, note)
+                    if (duplicate) {
+                        context.pendingDuplicate = {
+                            note,
+                            suggestedTags: intent.suggested_tags,
+                            existing: {
+                                id: duplicate.note.id,
+                                titulo: duplicate.note.titulo,
+                                etiquetas: duplicate.note.etiquetas
                             }
                         }
-                    } else {
-                        response += `\n\n¿Las etiquetas están bien o quieres cambiar algo?`
-                        context.awaitingTagCorrection = true
-                        context.lastNote = {
-                            id: pageId, // Usar el ID real de la página creada
-                            titulo: intent.titulo,
-                            etiquetas: intent.etiquetas
-                        }
+                        response = formatDuplicateQuestion(duplicate, intent.titulo)
+                        break
                     }
-                } else {
-                    response = 'Lo siento, hubo un problema guardando tu nota. ¿Puedes intentar de nuevo?'
                 }
+
+                response = await saveNote(chat, context, note, intent.suggested_tags)
                 break
             }
 
@@ -184,54 +464,46 @@ async function handleIntelligentMessage(sock: WASocket, remoteJid: string, textC
                 
                 logger.info('Processing intelligent query', { 
                     queryType: intent.queryType, 
-                    parameter: intent.parameter 
+                    parameter: intent.parameter,
+                    filtros: intent.filtros
                 })
-                let notes: any[] = []
-                
-                switch (intent.queryType) {
-                    case 'by_tag': {
-                        if (intent.parameter) {
-                            notes = await queryNotionNotes(undefined, intent.parameter)
-                        }
-                        break
-                    }
-                    
-                    case 'by_keyword': {
-                        if (intent.parameter) {
-                            notes = await queryNotionNotes(intent.parameter)
-                            
-                            
-                            context.lastQuery = intent.parameter
-                        }
-                        break
-                    }
+
+                if (intent.queryType === 'count') {
+                    const stats = await store.getNotesCount()
+                    response = `📊 Tienes **${stats.total}** notas en total:\n\n`
                     
-                    case 'recent': {
-                        notes = await queryNotionNotes()
-                        notes = notes.slice(0, 10) 
-                        break
-                    }
+                    Object.entries(stats.porEtiqueta).forEach(([etiqueta, cantidad]) => {
+                        response += `🏷️ ${etiqueta}: ${cantidad}\n`
+                    })
                     
-                    case 'count': {
-                        const stats = await getNotesCount()
-                        response = `📊 Tienes **${stats.total}** notas en total:\n\n`
-                        
-                        Object.entries(stats.porEtiqueta).forEach(([etiqueta, cantidad]) => {
-                            response += `🏷️ ${etiqueta}: ${cantidad}\n`
-                        })
-                        
-                        response += `\n¿Quieres ver alguna categoría específica?`
-                        break
-                    }
+                    response += `\n¿Quieres ver alguna categoría específica?`
+                    context.lastResults = undefined
+                    break
                 }
 
-                if (intent.queryType !== 'count') {
-                    response = formatQueryResponse(notes, intent.queryType, intent.parameter)
-                    
-                    
-                    if (notes.length > 0 && intent.queryType === 'by_keyword') {
-                        response += `\n\n¿Quieres refinar la búsqueda o ver detalles de alguna nota específica?`
+                const built = buildNoteQuery(intent, textContent)
+                if (!built) {
+                    response = '📅 No entendí de qué fechas hablas. Prueba con "hoy", "esta semana", "en marzo" o "los últimos 7 días".'
+                    break
+                }
+
+                const notes = await store.searchNotes(built.query)
+                if (built.query.palabrasClave) {
+                    context.lastQuery = built.query.palabrasClave
+                }
+
+                context.lastResults = notes.length > 0
+                    ? {
+                        ids: notes.slice(0, MAX_REMEMBERED_RESULTS).map(note => note.id),
+                        shown: Math.min(notes.length, RESULTS_PAGE_SIZE)
                     }
+                    : undefined
+
+                response = formatQueryResponse(notes, built.queryType, built.descripcion)
+                
+                
+                if (notes.length > 0 && built.queryType === 'by_keyword') {
+                    response += `\n\n¿O prefieres refinar la búsqueda?`
                 }
                 break
             }
@@ -245,6 +517,7 @@ async function handleIntelligentMessage(sock: WASocket, remoteJid: string, textC
                     context.awaitingTagCorrection = false
                     context.lastNote = undefined
                     context.lastQuery = undefined
+                    context.lastResults = undefined
                 }
                 break
             }
@@ -256,22 +529,92 @@ async function handleIntelligentMessage(sock: WASocket, remoteJid: string, textC
             }
 
             case 'tag_correction': {
-                
                 if (context.lastNote && context.lastNote.id) {
-                    
-                    const success = await updateNoteTags(context.lastNote.id, intent.newTags)
-                    
-                    if (success) {
-                        response = `✅ ¡Listo! Cambié las etiquetas de "${context.lastNote.titulo}" a: ${intent.newTags.join(', ')}`
-                        context.awaitingTagCorrection = false
-                        context.lastNote = undefined
-                    } else {
-                        response = 'Hubo un problema al actualizar las etiquetas. ¿Puedes intentar de nuevo?'
-                    }
+                    const available = await store.getAvailableTags()
+                    const reemplazar = resolveTagNames(intent.newTags, [...context.lastNote.etiquetas, ...available])
+                    response = reemplazar
+                        ? await proposeTagChange(store, context, { reemplazar, agregar: [], quitar: [] }, available)
+                        : 'No entendí qué etiquetas quieres ponerle. ¿Puedes decírmelas separadas por comas?'
                 } else {
                     response = 'No tengo contexto de qué nota quieres modificar. ¿Puedes especificar cuál?'
                 }
-                break;
+                break
+            }
+
+            case 'edit_note':
+            case 'append_note': {
+                const note = await resolveTargetNote(store, intent.target, context.lastNote)
+                if (!note) {
+                    response = intent.target
+                        ? `No encontré una nota que coincida con "${intent.target}". ¿Puedes darme más detalles del título?`
+                        : 'No tengo contexto de qué nota quieres modificar. ¿Puedes decirme su título?'
+                    break
+                }
+
+                const changes = intent.type === 'edit_note'
+                    ? { titulo: intent.titulo, contenido: intent.contenido }
+                    : { contenido: note.contenido ? `${note.contenido}\n\n${intent.contenido}` : intent.contenido }
+                logger.info('Updating note', { noteId: note.id, type: intent.type })
+
+                const success = await store.updateNote(note.id, changes)
+                if (success) {
+                    const titulo = changes.titulo || note.titulo
+                    response = intent.type === 'edit_note'
+                        ? `✏️ Actualicé la nota "${titulo}".`
+                        : `➕ Agregué el texto a la nota "${titulo}".`
+                    context.lastNote = { id: note.id, titulo, etiquetas: note.etiquetas }
+                    context.awaitingTagCorrection = false
+                } else {
+                    response = 'Hubo un problema al actualizar la nota. ¿Puedes intentar de nuevo?'
+                }
+                break
+            }
+
+            case 'delete_note': {
+                const note = await resolveTargetNote(store, intent.target, context.lastNote)
+                if (!note) {
+                    response = intent.target
+                        ? `No encontré una nota que coincida con "${intent.target}". ¿Puedes darme más detalles del título?`
+                        : 'No tengo contexto de qué nota quieres eliminar. ¿Puedes decirme su título?'
+                    break
+                }
+
+                context.pendingDelete = { id: note.id, titulo: note.titulo, etiquetas: note.etiquetas }
+                response = `🗑️ ¿Seguro que quieres eliminar la nota "${note.titulo}"? Responde "sí" para confirmar o "no" para cancelar.`
+                break
+            }
+
+            case 'ask': {
+                logger.info('Answering question from notes', { parameter: intent.parameter })
+
+                const notes = await findNotesForQuestion(store, intent.question, intent.parameter)
+                const answer = await answerFromNotes(intent.question, notes)
+                if (answer) {
+                    response = formatAnswer(answer)
+                    context.lastResults = {
+                        ids: answer.sources.map(note => note.id),
+                        shown: answer.sources.length
+                    }
+                } else {
+                    response = formatNoAnswer(intent.question, notes.length > 0)
+                    context.lastResults = undefined
+                }
+                break
+            }
+
+            case 'reminder': {
+                response = await manageReminders(chat.remoteJid, context, intent)
+                break
+            }
+
+            case 'digest': {
+                response = await manageDigest(chat, intent)
+                break
+            }
+
+            case 'tags': {
+                response = await manageTags(store, context, intent)
+                break
             }
 
             default: {
@@ -280,10 +623,10 @@ async function handleIntelligentMessage(sock: WASocket, remoteJid: string, textC
         }
 
         
-        conversationContext.set(remoteJid, context)
+        await getConversationStore().save(chat.stateKey, context)
 
         
-        await sock.sendMessage(remoteJid, { text: response })
+        await reply(sock, chat, response)
         
         logger.info('Response sent successfully', { 
             type: intent.type, 
@@ -296,6 +639,365 @@ async function handleIntelligentMessage(sock: WASocket, remoteJid: string, textC
         
         
         const fallbackResponse = 'Disculpa, tuve un problema procesando tu mensaje. ¿Puedes intentar de nuevo?'
-        await sock.sendMessage(remoteJid, { text: fallbackResponse })
+        await reply(sock, chat, fallbackResponse)
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Save a new note and build its confirmation: the tags it got, the reminders
+ * of an event, and the tag suggestions the user can still accept
+ */
+async function saveNote(
+    chat: ChatContext,
+    context: ConversationState,
+    note: NoteData,
+    suggestedTags?: string[]
+): Promise<string> {
+    logger.info('Saving note', {
+        titulo: note.titulo,
+        etiquetas: note.etiquetas
+    })
+
+    const pageId = await chat.store.createNote(note)
+    if (!pageId) {
+        return 'Lo siento, hubo un problema guardando tu nota. ¿Puedes intentar de nuevo?'
+    }
+
+    let response = `✅ ¡Perfecto! Guardé tu nota "${note.titulo}"`
+    if (note.adjuntos && note.adjuntos.length > 0) {
+        response += ` con el archivo adjunto`
+    }
+
+    if (note.etiquetas.length > 1) {
+        response += ` con las etiquetas: ${note.etiquetas.join(', ')}`
+    } else {
+        response += ` en la categoría "${note.etiquetas[0]}"`
+    }
+
+    if (note.fechaEvento) {
+        const reminders = await scheduleEventReminders(getReminderStore(), {
+            chatId: chat.remoteJid,
+            noteId: pageId,
+            titulo: note.titulo,
+            fechaEvento: note.fechaEvento
+        })
+        if (reminders.length > 0) {
+            const times = reminders.map(reminder => formatReminderTime(reminder.remindAt))
+            response += `\n\n⏰ Te lo recordaré: ${times.join(' y ')}`
+        }
+    }
+
+    if (suggestedTags && suggestedTags.length > 0) {
+        const uniqueSuggested = suggestedTags.filter(tag => !note.etiquetas.includes(tag))
+        if (uniqueSuggested.length > 0) {
+            response += `\n\n💡 También podrías etiquetarla como: ${uniqueSuggested.join(', ')}`
+            response += `\n¿Quieres agregar alguna de estas etiquetas?`
+
+            context.awaitingTagCorrection = true
+            context.suggestedTags = uniqueSuggested
+            context.lastNote = {
+                id: pageId,
+                titulo: note.titulo,
+                etiquetas: note.etiquetas
+            }
+        }
+    } else {
+        response += `\n\n¿Las etiquetas están bien o quieres cambiar algo?`
+        context.awaitingTagCorrection = true
+        context.suggestedTags = undefined
+        context.lastNote = {
+            id: pageId, // Usar el ID real de la página creada
+            titulo: note.titulo,
+            etiquetas: note.etiquetas
+        }
+    }
+    return response
+}
+
+/**
+ * Carry out the user's answer about a note that repeats an existing one
+ */
+async function resolveDuplicate(
+    chat: ChatContext,
+    context: ConversationState,
+    pending: PendingDuplicateContext,
+    choice: DuplicateChoice
+): Promise<string> {
+    const { note, existing } = pending
+    if (choice === 'cancel') {
+        return `👍 De acuerdo, no guardé "${note.titulo}".`
+    }
+
+    const current = choice === 'new' ? null : await chat.store.getNote(existing.id)
+    if (!current) {
+        // Guardar de todos modos, o la nota existente ya no está
+        return saveNote(chat, context, note, pending.suggestedTags)
+    }
+
+    const changes = choice === 'merge'
+        ? { titulo: current.titulo, ...mergeNotes(current, note) }
+        : { titulo: note.titulo, contenido: note.contenido, etiquetas: note.etiquetas }
+    logger.info('Resolving duplicate note', { noteId: current.id, choice })
+
+    const sameTags = changes.etiquetas.length === current.etiquetas.length
+        && changes.etiquetas.every(tag => current.etiquetas.includes(tag))
+    const success = await chat.store.updateNote(current.id, { titulo: changes.titulo, contenido: changes.contenido })
+        && (sameTags || await chat.store.updateNoteTags(current.id, changes.etiquetas))
+    if (!success) {
+        return 'Hubo un problema al actualizar la nota. ¿Puedes intentar de nuevo?'
+    }
+
+    let response = choice === 'merge'
+        ? `🔗 Agregué lo nuevo a la nota "${changes.titulo}".`
+        : `✏️ Actualicé la nota "${changes.titulo}" con la nueva versión.`
+    if (!sameTags) {
+        response += ` Etiquetas: ${changes.etiquetas.join(', ')}`
+    }
+
+    if (note.fechaEvento) {
+        const reminderStore = getReminderStore()
+        await cancelNoteReminders(reminderStore, current.id)
+        const reminders = await scheduleEventReminders(reminderStore, {
+            chatId: chat.remoteJid,
+            noteId: current.id,
+            titulo: changes.titulo,
+            fechaEvento: note.fechaEvento
+        })
+        if (reminders.length > 0) {
+            const times = reminders.map(reminder => formatReminderTime(reminder.remindAt))
+            response += `\n\n⏰ Te lo recordaré: ${times.join(' y ')}`
+        }
+    }
+
+    context.lastNote = { id: current.id, titulo: changes.titulo, etiquetas: changes.etiquetas }
+    context.awaitingTagCorrection = false
+    return response
+}
+
+/**
+ * Answer a follow-up to the last result list: the full note for "2" or "la
+ * segunda", or the next page of the list for "ver más"
+ */
+async function selectFromResults(
+    store: NoteStore,
+    context: ConversationState,
+    selection: ResultSelection
+): Promise<string> {
+    const results = context.lastResults!
+
+    if (selection.type === 'item') {
+        const id = results.ids[selection.number - 1]
+        if (!id) {
+            return `La última lista tiene ${results.ids.length} nota${results.ids.length > 1 ? 's' : ''}. Elige un número del 1 al ${results.ids.length}.`
+        }
+
+        const note = await store.getNote(id)
+        if (!note) {
+            return 'No pude abrir esa nota, puede que se haya eliminado.'
+        }
+
+        context.lastNote = { id: note.id, titulo: note.titulo, etiquetas: note.etiquetas }
+        context.awaitingTagCorrection = false
+        return formatNoteDetail(note)
+    }
+
+    if (results.shown >= results.ids.length) {
+        return 'No hay más notas en esta lista. Responde con el número de una nota para verla completa.'
+    }
+
+    const start = results.shown
+    const pageIds = results.ids.slice(start, start + RESULTS_PAGE_SIZE)
+    const notes = await Promise.all(pageIds.map(async id => {
+        const note = await store.getNote(id)
+        return note || ({ id, titulo: '(nota eliminada)', contenido: '', etiquetas: [] } as Partial<NoteQueryResult>)
+    }))
+    results.shown = start + pageIds.length
+
+    let response = `📋 Notas ${start + 1}-${results.shown} de ${results.ids.length}:\n\n`
+    response += formatNoteList(notes, start).trimEnd()
+    response += `\n\n👉 Responde con el número de una nota para verla completa`
+    if (results.shown < results.ids.length) {
+        response += ` o "ver más" para ver las siguientes`
+    }
+    return response
+}
+
+/**
+ * List, snooze or cancel the reminders of a chat. Without a target, snooze and
+ * cancel apply to the reminder that was just sent.
+ */
+async function manageReminders(
+    chatId: string,
+    context: ConversationState,
+    intent: ReminderIntent
+): Promise<string> {
+    const reminderStore = getReminderStore()
+    const reminders = await reminderStore.list(chatId)
+    const events = groupReminderEvents(reminders)
+
+    if (intent.action === 'list') {
+        context.lastReminders = events.map(event => event.noteId)
+        return formatReminderList(events)
+    }
+
+    let noteId: string | undefined
+    let lastSent: Reminder | undefined
+    if (intent.target) {
+        noteId = findReminderEvent(events, intent.target, context.lastReminders)?.noteId
+    } else {
+        lastSent = reminders
+            .filter(reminder => reminder.status === 'sent' && reminder.sentAt)
+            .sort((a, b) => b.sentAt!.localeCompare(a.sentAt!))[0]
+        noteId = lastSent?.noteId || (events.length === 1 ? events[0].noteId : undefined)
+    }
+
+    if (!noteId) {
+        return intent.target
+            ? `No encontré un recordatorio que coincida con "${intent.target}". Escribe "mis recordatorios" para ver la lista.`
+            : '¿Qué recordatorio? Escribe "mis recordatorios" para ver la lista y dime su número.'
+    }
+
+    const pending = reminders.filter(reminder => reminder.noteId === noteId && reminder.status === 'pending')
+    const titulo = (pending[0] || lastSent || reminders.find(reminder => reminder.noteId === noteId))!.titulo
+
+    if (intent.action === 'cancel') {
+        if (pending.length === 0) {
+            return `No quedan recordatorios pendientes de "${titulo}".`
+        }
+        await cancelNoteReminders(reminderStore, noteId)
+        logger.info('Reminders cancelled', { noteId, cancelled: pending.length })
+        return `🔕 Cancelé ${pending.length > 1 ? `los ${pending.length} recordatorios` : 'el recordatorio'} de "${titulo}".`
+    }
+
+    const minutes = parseSnoozeDuration(intent.duracion || '') ?? config.reminders.snoozeMinutes
+    // Lo recién enviado vuelve a sonar desde ahora; un aviso pendiente se retrasa
+    const reminder = lastSent && lastSent.noteId === noteId ? lastSent : pending[0]
+    if (!reminder) {
+        return `No quedan recordatorios pendientes de "${titulo}".`
+    }
+
+    const from = reminder.status === 'sent' ? Date.now() : new Date(reminder.remindAt).getTime()
+    const remindAt = new Date(from + minutes * 60 * 1000).toISOString()
+    await reminderStore.update(reminder.id, { status: 'pending', remindAt })
+    logger.info('Reminder snoozed', { noteId, minutes })
+    return `⏰ Listo, te recuerdo "${titulo}" el ${formatReminderTime(remindAt)}.`
+}
+
+/**
+ * Opt the chat in to the digest, change its schedule, stop it or report it
+ */
+async function manageDigest(chat: ChatContext, intent: DigestIntent): Promise<string> {
+    const jobStore = getJobStore()
+    const existing = await jobStore.get(digestJobId(chat.remoteJid))
+
+    if (intent.action === 'unsubscribe') {
+        if (!existing) return 'No tenías el resumen activado.'
+        await jobStore.remove(existing.id)
+        logger.info('Digest cancelled', { chatId: chat.remoteJid })
+        return '🔕 Listo, ya no te enviaré el resumen.'
+    }
+
+    if (intent.action === 'status') {
+        if (!existing) {
+            return 'No tienes el resumen activado. Dime "mándame un resumen diario a las 8" para activarlo.'
+        }
+        const frequency = existing.schedule.frequency === 'weekly' ? 'semanal' : 'diario'
+        return `📰 Tienes el resumen ${frequency} activado, a las ${existing.schedule.time}. El próximo llega el ${formatEventDate(existing.nextRunAt)}.`
+    }
+
+    const time = intent.hora ? parseDigestTime(intent.hora) : existing?.schedule.time
+    if (intent.hora && !time) {
+        return `No entendí la hora "${intent.hora}". Prueba con algo como "a las 8:30" o "a las 7 de la tarde".`
+    }
+
+    const frequency = intent.frecuencia || existing?.schedule.frequency || 'daily'
+    const job = await subscribeDigest(jobStore, chat.remoteJid, chat.notebook, frequency, time || undefined)
+    return `📰 ¡Hecho! Te enviaré un resumen ${frequency === 'weekly' ? 'semanal' : 'diario'} a las ${job.schedule.time} con tus notas nuevas, los próximos eventos y las notas sin clasificar. El primero llega el ${formatEventDate(job.nextRunAt)}.`
+}
+
+/**
+ * List the chat's tags, or plan renaming, merging or retiring them on every
+ * note. The change is only written once the user confirms it.
+ */
+async function manageTags(
+    store: NoteStore,
+    context: ConversationState,
+    intent: TagsIntent
+): Promise<string> {
+    const etiquetas = intent.etiquetas || []
+    logger.info('Managing tags', { action: intent.action, etiquetas, destino: intent.destino })
+
+    let change
+    switch (intent.action) {
+        case 'list':
+            return formatTagUsage(await getTagUsage(store))
+        case 'rename':
+            change = await planTagChange(store, etiquetas.slice(0, 1), intent.destino!)
+            break
+        case 'merge':
+            change = await planTagMerge(store, etiquetas, intent.destino)
+            break
+        case 'delete':
+            change = await planTagChange(store, etiquetas, null)
+            break
+    }
+
+    if (change.etiquetas.length === 0) {
+        return formatTagChange(change)
+    }
+    context.pendingTagsUpdate = change
+    return formatTagChangeConfirmation(change)
+}
+
+/**
+ * Work out the note's new tags and ask before writing them. Adding the tags
+ * the bot itself suggested needs no confirmation: "sí" already was one.
+ */
+async function proposeTagChange(
+    store: NoteStore,
+    context: ConversationState,
+    correction: TagCorrection,
+    available: string[]
+): Promise<string> {
+    const note = context.lastNote!
+    const etiquetas = applyTagCorrection(note.etiquetas, correction)
+    const suggested = context.suggestedTags || []
+    context.awaitingTagCorrection = false
+    context.suggestedTags = undefined
+
+    const unchanged = etiquetas.length === note.etiquetas.length
+        && etiquetas.every(tag => note.etiquetas.includes(tag))
+    if (unchanged) {
+        return `👍 Perfecto, "${note.titulo}" se queda con: ${note.etiquetas.join(', ')}`
+    }
+    if (etiquetas.length === 0) {
+        context.awaitingTagCorrection = true
+        return `La nota "${note.titulo}" necesita al menos una etiqueta. ¿Cuál le pongo?`
+    }
+
+    const pending = { ...note, etiquetas }
+    const onlySuggested = !correction.reemplazar
+        && correction.quitar.length === 0
+        && correction.agregar.every(tag => suggested.includes(tag))
+    if (onlySuggested) {
+        return writeNoteTags(store, context, pending)
+    }
+
+    context.pendingTagChange = pending
+    return formatTagChangeQuestion(note.titulo, etiquetas, available)
+}
+
+async function writeNoteTags(
+    store: NoteStore,
+    context: ConversationState,
+    note: LastNoteContext
+): Promise<string> {
+    const success = await store.updateNoteTags(note.id, note.etiquetas)
+    if (!success) {
+        return 'Hubo un problema al actualizar las etiquetas. ¿Puedes intentar de nuevo?'
+    }
+
+    logger.info('Note tags updated', { noteId: note.id, etiquetas: note.etiquetas })
+    context.lastNote = note
+    return `✅ ¡Perfecto! Actualicé las etiquetas de "${note.titulo}" a: ${note.etiquetas.join(', ')}`
+}
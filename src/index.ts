@@ -6,11 +6,17 @@ import qrcode from 'qrcode-terminal'
 
 import { config } from './config/index.js'
 import { createAuthenticatedSocket } from './socket/index.js'
-import { setSocket } from './socket/manager.js'
+import { sendTextMessage, setSocket } from './socket/manager.js'
 import { setupMessageHandler } from './handlers/messageHandler.js'
 import { startServer } from './server/index.js'
 import { setStatus } from './store/connectionStore.js'
 import { setCurrentQR } from './store/qrStore.js'
+import { startConversationSweeper } from './store/conversationStore.js'
+import { startReminderScheduler } from './services/reminderScheduler.js'
+import { startJobRunner } from './services/jobRunner.js'
+import { createDigestHandler, DIGEST_JOB } from './services/digest.js'
+import { checkNotionSchema } from './services/notion.js'
+import { checkGroupAllowlist } from './services/groups.js'
 import { createLogger } from './logger/index.js'
 
 const logger = createLogger('HackTheChat')
@@ -81,7 +87,23 @@ async function connectToWhatsApp() {
     })
 }
 
+async function checkNotesDatabase() {
+    if (config.storage.backend !== 'notion' || !config.notion.databaseId) return
+
+    const problems = await checkNotionSchema(config.notion.databaseId)
+    if (problems?.some(problem => problem.requerida)) {
+        logger.error(
+            'The Notion database does not match the configured schema; notes cannot be saved until it does. Run "npm run notion:schema -- --create" to add the missing properties.'
+        )
+    }
+}
+
 startServer()
+checkNotesDatabase()
+checkGroupAllowlist()
+startConversationSweeper()
+startReminderScheduler(sendTextMessage)
+startJobRunner({ [DIGEST_JOB]: createDigestHandler(sendTextMessage) })
 connectToWhatsApp().catch(err => {
     logger.fatal('Failed to start bot', err)
 })
@@ -0,0 +1,76 @@
+import { Router } from 'express'
+
+import {
+    allowJid,
+    blockJid,
+    createInviteCode,
+    forgetJid,
+    normalizeJid,
+    revokeInviteCode,
+    setAccessMode
+} from '../services/accessControl.js'
+import { getAccessStore } from '../store/accessStore.js'
+
+const router = Router()
+
+const MODES = [
+    { value: 'open', label: 'Open (everyone except blocked)' },
+    { value: 'allowlist', label: 'Allowlist only' }
+]
+
+router.use('/access', (req, res, next) => {
+    if (!req.session?.authenticated) {
+        return res.redirect('/login')
+    }
+    next()
+})
+
+router.get('/access', async (_req, res) => {
+    const rules = await getAccessStore().getRules()
+    res.render('access', {
+        rules,
+        modes: MODES.map(mode => ({
+            ...mode,
+            selectedAttr: mode.value === rules.mode ? 'selected' : ''
+        })),
+        openInvites: rules.invites.filter(invite => !invite.usedBy),
+        usedInvites: rules.invites.filter(invite => invite.usedBy)
+    })
+})
+
+router.post('/access/mode', async (req, res) => {
+    const { mode } = req.body as Record<string, string>
+    await setAccessMode(mode === 'allowlist' ? 'allowlist' : 'open')
+    res.redirect('/access')
+})
+
+router.post('/access/allow', async (req, res) => {
+    const { jid } = req.body as Record<string, string>
+    if (jid) await allowJid(normalizeJid(jid))
+    res.redirect('/access')
+})
+
+router.post('/access/block', async (req, res) => {
+    const { jid } = req.body as Record<string, string>
+    if (jid) await blockJid(normalizeJid(jid))
+    res.redirect('/access')
+})
+
+router.post('/access/remove', async (req, res) => {
+    const { jid } = req.body as Record<string, string>
+    if (jid) await forgetJid(jid)
+    res.redirect('/access')
+})
+
+router.post('/access/invites', async (_req, res) => {
+    await createInviteCode()
+    res.redirect('/access')
+})
+
+router.post('/access/invites/revoke', async (req, res) => {
+    const { code } = req.body as Record<string, string>
+    if (code) await revokeInviteCode(code)
+    res.redirect('/access')
+})
+
+export default router
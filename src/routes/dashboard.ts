@@ -1,19 +1,25 @@
 import { Router } from 'express'
 import { getInfo } from '../store/connectionStore.js'
+import { getConversationStore } from '../store/conversationStore.js'
 import { disconnectSocket } from '../socket/manager.js'
 
 const router = Router()
 
-router.get('/dashboard', (req, res) => {
+router.get('/dashboard', async (req, res) => {
     if (!req.session?.authenticated) {
         return res.redirect('/login')
     }
     const info = getInfo()
+    const conversations = await getConversationStore().list()
     res.render('dashboard', {
         info,
         timeSinceConnected: info.connectedAt
             ? Math.floor((Date.now() - info.connectedAt.getTime()) / 1000)
-            : null
+            : null,
+        conversations: conversations.map(entry => ({
+            ...entry,
+            state: JSON.stringify(entry.state, null, 2)
+        }))
     })
 })
 
@@ -22,4 +28,15 @@ router.post('/dashboard/disconnect', async (_req, res) => {
     res.redirect('/dashboard')
 })
 
+router.post('/dashboard/conversations/clear', async (req, res) => {
+    if (!req.session?.authenticated) {
+        return res.redirect('/login')
+    }
+    const { chatId } = req.body as Record<string, string>
+    if (chatId) {
+        await getConversationStore().clear(chatId)
+    }
+    res.redirect('/dashboard')
+})
+
 export default router
@@ -1,13 +1,17 @@
 import { Router } from 'express'
 
+import accessRouter from './access.js'
 import authRouter from './auth.js'
 import dashboardRouter from './dashboard.js'
 import qrRouter from './qr.js'
+import tagsRouter from './tags.js'
 
 const router = Router()
 
 router.use(authRouter)
 router.use(dashboardRouter)
 router.use(qrRouter)
+router.use(accessRouter)
+router.use(tagsRouter)
 
 export default router
@@ -0,0 +1,88 @@
+import { Router } from 'express'
+
+import { config } from '../config/index.js'
+import { getGroupSettings } from '../services/groups.js'
+import { DEFAULT_NOTEBOOK, getNoteStore, Notebook } from '../services/noteStore.js'
+import { getTagUsage, mergeTags, replaceTags } from '../services/tags.js'
+import { getUserRegistry } from '../store/userRegistry.js'
+
+const router = Router()
+
+/**
+ * The default notebook, the notebooks of onboarded users and those of allowlisted groups
+ */
+async function listNotebooks(): Promise<{ notebook: Notebook; label: string }[]> {
+    const users = await getUserRegistry().list()
+    const groups = config.groups.allowlist
+        .map(entry => getGroupSettings(entry.split('=')[0].trim()))
+        .filter(Boolean)
+
+    return [
+        { notebook: DEFAULT_NOTEBOOK, label: 'Default' },
+        ...users
+            .filter(user => user.notebook && user.notebook.id !== DEFAULT_NOTEBOOK.id)
+            .map(user => ({ notebook: user.notebook!, label: user.name || user.jid })),
+        ...groups.map(group => ({ notebook: group!.notebook, label: group!.jid }))
+    ]
+}
+
+async function findNotebook(id: string | undefined): Promise<Notebook> {
+    const notebooks = await listNotebooks()
+    return notebooks.find(entry => entry.notebook.id === id)?.notebook || DEFAULT_NOTEBOOK
+}
+
+function tagsUrl(notebook: Notebook): string {
+    return `/tags?notebook=${encodeURIComponent(notebook.id)}`
+}
+
+router.use('/tags', (req, res, next) => {
+    if (!req.session?.authenticated) {
+        return res.redirect('/login')
+    }
+    next()
+})
+
+router.get('/tags', async (req, res) => {
+    const notebooks = await listNotebooks()
+    const notebook = await findNotebook(req.query.notebook as string | undefined)
+    const usage = await getTagUsage(getNoteStore(notebook))
+
+    res.render('tags', {
+        notebook,
+        notebooks: notebooks.map(entry => ({
+            id: entry.notebook.id,
+            label: entry.label,
+            selectedAttr: entry.notebook.id === notebook.id ? 'selected' : ''
+        })),
+        usage,
+        totalNotes: usage.reduce((total, entry) => total + entry.notas, 0),
+        unused: usage.filter(entry => entry.notas === 0).length
+    })
+})
+
+router.post('/tags/rename', async (req, res) => {
+    const { notebook: notebookId, from, to } = req.body as Record<string, string>
+    const notebook = await findNotebook(notebookId)
+    if (from && to) await replaceTags(getNoteStore(notebook), [from], to)
+    res.redirect(tagsUrl(notebook))
+})
+
+router.post('/tags/merge', async (req, res) => {
+    const { notebook: notebookId, tags, to } = req.body as Record<string, string>
+    const notebook = await findNotebook(notebookId)
+    const sources = (tags || '')
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(Boolean)
+    if (sources.length > 0) await mergeTags(getNoteStore(notebook), sources, to || undefined)
+    res.redirect(tagsUrl(notebook))
+})
+
+router.post('/tags/delete', async (req, res) => {
+    const { notebook: notebookId, tag } = req.body as Record<string, string>
+    const notebook = await findNotebook(notebookId)
+    if (tag) await replaceTags(getNoteStore(notebook), [tag], null)
+    res.redirect(tagsUrl(notebook))
+})
+
+export default router
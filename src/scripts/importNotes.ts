@@ -0,0 +1,99 @@
+import 'dotenv/config'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { getUserRegistry } from '../store/userRegistry.js'
+import { importNotes, ImportResult, readImportEntries } from '../services/noteImport.js'
+import { getNoteStore } from '../services/noteStore.js'
+
+const logger = createLogger('ImportNotes')
+
+const USAGE = `Usage: npm run import:notes -- <chat.txt | note.md | folder> [options]
+
+  --dry-run           Show what would be imported without writing anything
+  --author <name>     Only import this sender's messages from a WhatsApp export
+  --user <jid>        Import into this user's notebook instead of the default one
+  --batch <n>         Entries classified at the same time (IMPORT_BATCH_SIZE)
+  --progress <file>   Progress file used to resume (IMPORT_PROGRESS_PATH, one per notebook)`
+
+function parseArgs(args: string[]): Record<string, string | boolean> {
+    const options: Record<string, string | boolean> = {}
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index]
+        if (arg === '--dry-run' || arg === '--help') {
+            options[arg.slice(2)] = true
+        } else if (arg.startsWith('--')) {
+            options[arg.slice(2)] = args[++index] ?? ''
+        } else {
+            options.source = arg
+        }
+    }
+    return options
+}
+
+function describe(result: ImportResult, dryRun: boolean): string {
+    const { entry, note } = result
+    switch (result.status) {
+        case 'created':
+            return `${dryRun ? '➕' : '✅'} ${entry.origen} → "${note!.titulo}" [${note!.etiquetas.join(', ')}]`
+        case 'duplicate':
+            return `↩️  ${entry.origen} → repeats ${result.duplicada ? `"${result.duplicada}"` : 'an earlier entry'}`
+        case 'imported':
+            return `⏭️  ${entry.origen} → already imported`
+        case 'failed':
+            return `❌ ${entry.origen} → failed, it will be retried on the next run`
+    }
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2))
+    const source = options.source as string | undefined
+    if (options.help || !source) {
+        console.log(USAGE)
+        process.exitCode = source || options.help ? 0 : 1
+        return
+    }
+
+    let notebook
+    if (typeof options.user === 'string') {
+        notebook = (await getUserRegistry().get(options.user))?.notebook
+        if (!notebook) {
+            logger.error('That user has no notebook yet', { jid: options.user })
+            process.exitCode = 1
+            return
+        }
+    }
+
+    const entries = await readImportEntries(
+        source,
+        typeof options.author === 'string' ? options.author : undefined
+    )
+    const dryRun = options['dry-run'] === true
+    logger.info(`Importing ${entries.length} entries`, {
+        source,
+        dryRun,
+        backend: config.storage.backend
+    })
+
+    const summary = await importNotes(entries, {
+        store: getNoteStore(notebook),
+        dryRun,
+        batchSize: typeof options.batch === 'string' ? parseInt(options.batch, 10) : undefined,
+        notebook,
+        progressPath: typeof options.progress === 'string' ? options.progress : undefined,
+        onResult: result => console.log(describe(result, dryRun))
+    })
+
+    console.log(
+        `\n${dryRun ? 'Would create' : 'Created'} ${summary.creadas} of ${summary.total} notes: ` +
+            `${summary.duplicadas} duplicates, ${summary.yaImportadas} already imported, ${summary.fallidas} failed.`
+    )
+    if (summary.fallidas > 0) {
+        process.exitCode = 1
+    }
+}
+
+main().catch(error => {
+    logger.error('Import failed', error)
+    process.exitCode = 1
+})
@@ -0,0 +1,56 @@
+import 'dotenv/config'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { checkNotionSchema, createNotionSchemaProperties } from '../services/notion.js'
+import { formatSchemaProblem } from '../services/notionSchema.js'
+
+const logger = createLogger('NotionSchema')
+
+/**
+ * Check a Notion notes database against the configured schema:
+ *
+ *     npm run notion:schema [-- <databaseId>] [-- --create]
+ *
+ * Without an id it checks NOTION_DATABASE_ID. `--create` adds the missing
+ * properties; properties with the wrong type are only reported.
+ */
+async function main() {
+    const args = process.argv.slice(2)
+    const create = args.includes('--create')
+    const databaseId = args.find(arg => !arg.startsWith('--')) || config.notion.databaseId
+
+    if (!config.notion.apiKey || !databaseId) {
+        logger.error(
+            'NOTION_API_KEY and a database id (NOTION_DATABASE_ID or an argument) are required'
+        )
+        process.exitCode = 1
+        return
+    }
+
+    const problems = create
+        ? await createNotionSchemaProperties(databaseId)
+        : await checkNotionSchema(databaseId)
+    if (!problems) {
+        process.exitCode = 1
+        return
+    }
+
+    if (problems.length === 0) {
+        logger.info('The Notion database matches the configured schema', { databaseId })
+        return
+    }
+    // Sin --create, checkNotionSchema ya registró cada problema
+    if (create) {
+        for (const problem of problems) {
+            console.log(`${problem.requerida ? '❌' : '⚠️ '} ${formatSchemaProblem(problem)}`)
+        }
+    } else if (problems.some(problem => !problem.encontrado)) {
+        console.log('\nRun "npm run notion:schema -- --create" to add the missing properties.')
+    }
+    if (problems.some(problem => problem.requerida)) {
+        process.exitCode = 1
+    }
+}
+
+main()
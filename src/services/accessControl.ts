@@ -0,0 +1,126 @@
+import { randomBytes } from 'crypto'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { AccessMode, AccessStore, getAccessStore, InviteCode } from '../store/accessStore.js'
+
+const logger = createLogger('AccessControl')
+
+export type AccessDecision =
+    | { status: 'allowed' }
+    | { status: 'blocked' }
+    | { status: 'rejected'; reply: string }
+    | { status: 'redeemed'; reply: string }
+
+/**
+ * Accept a phone number or a JID from the dashboard and return a user JID
+ */
+export function normalizeJid(input: string): string {
+    const value = input.trim()
+    if (value.includes('@')) return value
+    return `${value.replace(/\D/g, '')}@s.whatsapp.net`
+}
+
+/**
+ * Decide whether a sender may use the bot. Runs before any AI or storage call.
+ * Blocked senders are ignored silently everywhere; in allowlist mode, unknown
+ * private senders get the rejection message unless they send a valid invite code.
+ */
+export async function checkAccess(
+    jid: string,
+    text: string,
+    isGroup: boolean,
+    store: AccessStore = getAccessStore()
+): Promise<AccessDecision> {
+    const rules = await store.getRules()
+
+    if (rules.blocked.includes(jid)) {
+        return { status: 'blocked' }
+    }
+
+    // Los grupos ya están limitados por GROUP_ALLOWLIST
+    if (
+        isGroup ||
+        rules.mode === 'open' ||
+        rules.allowed.includes(jid) ||
+        config.users.ownerJids.includes(jid)
+    ) {
+        return { status: 'allowed' }
+    }
+
+    const code = text.trim().toUpperCase()
+    const invite = rules.invites.find(candidate => candidate.code === code && !candidate.usedBy)
+    if (invite) {
+        await store.update(current => {
+            const stored = current.invites.find(candidate => candidate.code === invite.code)
+            if (stored) {
+                stored.usedBy = jid
+                stored.usedAt = new Date().toISOString()
+            }
+            if (!current.allowed.includes(jid)) {
+                current.allowed.push(jid)
+            }
+        })
+        logger.info('Invite code redeemed', { jid, code: invite.code })
+        return {
+            status: 'redeemed',
+            reply: '🎉 ¡Código aceptado! Ya puedes usar Ikigai. Envíame cualquier cosa que quieras guardar.'
+        }
+    }
+
+    logger.info('Rejected message from sender not in allowlist', { jid })
+    return { status: 'rejected', reply: config.access.rejectionMessage }
+}
+
+export async function setAccessMode(
+    mode: AccessMode,
+    store: AccessStore = getAccessStore()
+): Promise<void> {
+    await store.update(rules => {
+        rules.mode = mode
+    })
+}
+
+export async function allowJid(jid: string, store: AccessStore = getAccessStore()): Promise<void> {
+    await store.update(rules => {
+        if (!rules.allowed.includes(jid)) rules.allowed.push(jid)
+        rules.blocked = rules.blocked.filter(blocked => blocked !== jid)
+    })
+}
+
+export async function blockJid(jid: string, store: AccessStore = getAccessStore()): Promise<void> {
+    await store.update(rules => {
+        if (!rules.blocked.includes(jid)) rules.blocked.push(jid)
+        rules.allowed = rules.allowed.filter(allowed => allowed !== jid)
+    })
+}
+
+/**
+ * Remove a JID from both lists
+ */
+export async function forgetJid(jid: string, store: AccessStore = getAccessStore()): Promise<void> {
+    await store.update(rules => {
+        rules.allowed = rules.allowed.filter(allowed => allowed !== jid)
+        rules.blocked = rules.blocked.filter(blocked => blocked !== jid)
+    })
+}
+
+export async function createInviteCode(store: AccessStore = getAccessStore()): Promise<InviteCode> {
+    const invite: InviteCode = {
+        code: randomBytes(4).toString('hex').toUpperCase(),
+        createdAt: new Date().toISOString()
+    }
+    await store.update(rules => {
+        rules.invites.push(invite)
+    })
+    return invite
+}
+
+export async function revokeInviteCode(
+    code: string,
+    store: AccessStore = getAccessStore()
+): Promise<void> {
+    await store.update(rules => {
+        rules.invites = rules.invites.filter(invite => invite.code !== code)
+    })
+}
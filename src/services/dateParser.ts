@@ -0,0 +1,347 @@
+/**
+ * A period of time to filter notes by creation date. `start` is inclusive and
+ * `end` exclusive; either side may be open ("desde marzo", "antes de 2024").
+ */
+export interface DateRange {
+    start?: string
+    end?: string
+    /**
+     * How to name the period in a reply, e.g. "esta semana" or "marzo de 2025"
+     */
+    label: string
+}
+
+const MONTHS = [
+    'enero',
+    'febrero',
+    'marzo',
+    'abril',
+    'mayo',
+    'junio',
+    'julio',
+    'agosto',
+    'septiembre',
+    'octubre',
+    'noviembre',
+    'diciembre'
+]
+
+// getDay(): 0 es domingo
+const WEEKDAYS = ['domingo', 'lunes', 'martes', 'miercoles', 'jueves', 'viernes', 'sabado']
+
+const NUMBER_WORDS: Record<string, number> = {
+    un: 1,
+    una: 1,
+    uno: 1,
+    dos: 2,
+    tres: 3,
+    cuatro: 4,
+    cinco: 5,
+    seis: 6,
+    siete: 7,
+    ocho: 8,
+    nueve: 9,
+    diez: 10,
+    quince: 15,
+    veinte: 20,
+    treinta: 30
+}
+
+const MONTH = `(${MONTHS.join('|')}|setiembre)`
+const NUMBER = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})`
+const UNIT = '(dias?|semanas?|mes(?:es)?|anos?)'
+
+type Unit = 'day' | 'week' | 'month' | 'year'
+
+interface Period {
+    start: Date
+    end: Date
+    label: string
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+function startOfWeek(date: Date): Date {
+    // Semanas de lunes a domingo
+    const day = startOfDay(date)
+    return addDays(day, -((day.getDay() + 6) % 7))
+}
+
+function addUnits(date: Date, unit: Unit, amount: number): Date {
+    switch (unit) {
+        case 'day':
+            return addDays(date, amount)
+        case 'week':
+            return addDays(date, amount * 7)
+        case 'month':
+            return new Date(date.getFullYear(), date.getMonth() + amount, date.getDate())
+        case 'year':
+            return new Date(date.getFullYear() + amount, date.getMonth(), date.getDate())
+    }
+}
+
+function toUnit(word: string): Unit {
+    if (word.startsWith('dia')) return 'day'
+    if (word.startsWith('semana')) return 'week'
+    if (word.startsWith('mes')) return 'month'
+    return 'year'
+}
+
+function unitLabel(word: string): string {
+    return word.replace('dia', 'día').replace('ano', 'año')
+}
+
+function toNumber(word: string): number {
+    return NUMBER_WORDS[word] ?? parseInt(word, 10)
+}
+
+function monthIndex(name: string): number {
+    return name === 'setiembre' ? 8 : MONTHS.indexOf(name)
+}
+
+function dayPeriod(date: Date, label?: string): Period {
+    const start = startOfDay(date)
+    return {
+        start,
+        end: addDays(start, 1),
+        label:
+            label ||
+            `el ${start.getDate()} de ${MONTHS[start.getMonth()]} de ${start.getFullYear()}`
+    }
+}
+
+function monthPeriod(year: number, month: number, label?: string): Period {
+    return {
+        start: new Date(year, month, 1),
+        end: new Date(year, month + 1, 1),
+        label: label || `${MONTHS[month]} de ${year}`
+    }
+}
+
+function yearPeriod(year: number, label?: string): Period {
+    return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1), label: label || `${year}` }
+}
+
+/**
+ * A month named without a year is the most recent one: in January, "en marzo"
+ * means last March
+ */
+function yearForMonth(month: number, year: string | undefined, now: Date): number {
+    if (year) return parseInt(year, 10)
+    return month > now.getMonth() ? now.getFullYear() - 1 : now.getFullYear()
+}
+
+function yearForDay(month: number, day: number, year: string | undefined, now: Date): number {
+    if (year) return expandYear(year)
+    const candidate = new Date(now.getFullYear(), month, day)
+    return candidate > now ? now.getFullYear() - 1 : now.getFullYear()
+}
+
+function expandYear(year: string): number {
+    const value = parseInt(year, 10)
+    return year.length <= 2 ? 2000 + value : value
+}
+
+interface Rule {
+    pattern: RegExp
+    resolve(match: RegExpMatchArray, now: Date): Period | null
+}
+
+// Ordenadas de más a menos específica: "anteayer" antes que "ayer", fechas con día antes que meses
+const RULES: Rule[] = [
+    {
+        pattern: new RegExp(
+            `(?:del|entre el) (\\d{1,2}) (?:al|y el) (\\d{1,2}) de ${MONTH}(?: de (\\d{4}))?`
+        ),
+        resolve(match, now) {
+            const month = monthIndex(match[3])
+            const year = yearForDay(month, parseInt(match[1], 10), match[4], now)
+            const start = new Date(year, month, parseInt(match[1], 10))
+            const last = new Date(year, month, parseInt(match[2], 10))
+            if (last < start) return null
+            return {
+                start,
+                end: addDays(last, 1),
+                label: `del ${match[1]} al ${match[2]} de ${MONTHS[month]} de ${year}`
+            }
+        }
+    },
+    {
+        pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/,
+        resolve(match, now) {
+            const day = parseInt(match[1], 10)
+            const month = parseInt(match[2], 10) - 1
+            if (month < 0 || month > 11 || day < 1 || day > 31) return null
+            return dayPeriod(new Date(yearForDay(month, day, match[3], now), month, day))
+        }
+    },
+    {
+        pattern: new RegExp(`\\b(\\d{1,2}) de ${MONTH}(?: de (\\d{4}))?`),
+        resolve(match, now) {
+            const day = parseInt(match[1], 10)
+            const month = monthIndex(match[2])
+            return dayPeriod(new Date(yearForDay(month, day, match[3], now), month, day))
+        }
+    },
+    {
+        pattern: new RegExp(`\\b${MONTH}(?: (?:de|del) (\\d{4}))?\\b`),
+        resolve(match, now) {
+            const month = monthIndex(match[1])
+            return monthPeriod(yearForMonth(month, match[2], now), month)
+        }
+    },
+    {
+        pattern: /\b((?:19|20)\d{2})\b/,
+        resolve: match => yearPeriod(parseInt(match[1], 10))
+    },
+    {
+        pattern: /\bhoy\b/,
+        resolve: (_, now) => dayPeriod(now, 'hoy')
+    },
+    {
+        pattern: /\b(?:anteayer|antier|antes de ayer)\b/,
+        resolve: (_, now) => dayPeriod(addDays(now, -2), 'anteayer')
+    },
+    {
+        pattern: /\bayer\b/,
+        resolve: (_, now) => dayPeriod(addDays(now, -1), 'ayer')
+    },
+    {
+        pattern: /\besta semana\b/,
+        resolve: (_, now) => ({
+            start: startOfWeek(now),
+            end: addDays(startOfWeek(now), 7),
+            label: 'esta semana'
+        })
+    },
+    {
+        pattern: /\bsemana (?:pasada|anterior)\b/,
+        resolve: (_, now) => ({
+            start: addDays(startOfWeek(now), -7),
+            end: startOfWeek(now),
+            label: 'la semana pasada'
+        })
+    },
+    {
+        pattern: /\beste mes\b/,
+        resolve: (_, now) => monthPeriod(now.getFullYear(), now.getMonth(), 'este mes')
+    },
+    {
+        pattern: /\bmes (?:pasado|anterior)\b/,
+        resolve: (_, now) => monthPeriod(now.getFullYear(), now.getMonth() - 1, 'el mes pasado')
+    },
+    {
+        pattern: /\beste ano\b/,
+        resolve: (_, now) => yearPeriod(now.getFullYear(), 'este año')
+    },
+    {
+        pattern: /\bano (?:pasado|anterior)\b/,
+        resolve: (_, now) => yearPeriod(now.getFullYear() - 1, 'el año pasado')
+    },
+    {
+        pattern: new RegExp(`\\bultim[oa]s? (?:${NUMBER} )?${UNIT}\\b`),
+        resolve(match, now) {
+            const amount = match[1] ? toNumber(match[1]) : 1
+            const unit = toUnit(match[2])
+            const end = addDays(startOfDay(now), 1)
+            return {
+                start: addUnits(end, unit, -amount),
+                end,
+                label: `${amount === 1 ? 'el último' : `los últimos ${amount}`} ${unitLabel(match[2])}`
+            }
+        }
+    },
+    {
+        pattern: new RegExp(`\\bhace ${NUMBER} ${UNIT}\\b`),
+        resolve(match, now) {
+            const unit = toUnit(match[2])
+            const date = addUnits(now, unit, -toNumber(match[1]))
+            const label = `hace ${match[1]} ${unitLabel(match[2])}`
+            switch (unit) {
+                case 'day':
+                    return dayPeriod(date, label)
+                case 'week':
+                    return { start: startOfWeek(date), end: addDays(startOfWeek(date), 7), label }
+                case 'month':
+                    return monthPeriod(date.getFullYear(), date.getMonth(), label)
+                case 'year':
+                    return yearPeriod(date.getFullYear(), label)
+            }
+        }
+    },
+    {
+        pattern: new RegExp(`\\b(${WEEKDAYS.join('|')})( pasado)?\\b`),
+        resolve(match, now) {
+            const today = startOfDay(now)
+            let back = (today.getDay() - WEEKDAYS.indexOf(match[1]) + 7) % 7
+            if (match[2] && back === 0) back = 7
+            const name = match[1].replace('miercoles', 'miércoles').replace('sabado', 'sábado')
+            return dayPeriod(addDays(today, -back), `el ${name}`)
+        }
+    }
+]
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[¡!¿?.,;:]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+function findPeriod(text: string, now: Date): Period | null {
+    for (const rule of RULES) {
+        const match = text.match(rule.pattern)
+        if (match) {
+            const period = rule.resolve(match, now)
+            if (period) return period
+        }
+    }
+    return null
+}
+
+/**
+ * Parse a Spanish date expression such as "ayer", "esta semana", "en marzo",
+ * "los últimos 3 días", "el 5 de mayo" or "desde el 1/02". The text may be a
+ * whole message; the first expression found wins. Returns null when there is none.
+ */
+export function parseDateRange(text: string, now: Date = new Date()): DateRange | null {
+    const normalized = normalize(text)
+
+    const since = normalized.match(/\b(?:desde|a partir de)\b(.*)$/)
+    if (since) {
+        const period = findPeriod(since[1], now)
+        return period ? { start: period.start.toISOString(), label: `desde ${period.label}` } : null
+    }
+
+    const before = normalized.match(/\bantes de\b(?! ayer)(.*)$/)
+    if (before) {
+        const period = findPeriod(before[1], now)
+        return period
+            ? { end: period.start.toISOString(), label: `antes de ${period.label}` }
+            : null
+    }
+
+    const period = findPeriod(normalized, now)
+    if (!period) return null
+
+    return { start: period.start.toISOString(), end: period.end.toISOString(), label: period.label }
+}
+
+/**
+ * Whether an ISO timestamp falls inside a range
+ */
+export function isInDateRange(iso: string, range: DateRange): boolean {
+    const time = new Date(iso).getTime()
+    if (range.start && time < new Date(range.start).getTime()) return false
+    if (range.end && time >= new Date(range.end).getTime()) return false
+    return true
+}
@@ -0,0 +1,209 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { Job, JobSchedule, JobStore } from '../store/jobStore.js'
+import { getReminderStore, Reminder, ReminderStore } from '../store/reminderStore.js'
+import { JobHandler, nextRunTime } from './jobRunner.js'
+import { getNoteStore, Notebook, NoteQueryResult, NoteStore } from './noteStore.js'
+import { MessageSender } from './reminderScheduler.js'
+import { formatEventDate, parseEventDate } from './reminders.js'
+
+const logger = createLogger('Digest')
+
+export const DIGEST_JOB = 'digest'
+
+// Cuántas notas se nombran por sección antes de resumir el resto
+const MAX_LISTED_NOTES = 5
+// Etiqueta que el clasificador usa cuando no sabe clasificar
+const UNCLASSIFIED_TAG = 'Otros'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export type DigestFrequency = JobSchedule['frequency']
+
+export function digestJobId(chatId: string): string {
+    return `${DIGEST_JOB}:${chatId}`
+}
+
+/**
+ * Read a time of day: "8", "8:30", "20:00", "8 pm", "a las 7 de la tarde".
+ * Returns "HH:MM" or null.
+ */
+export function parseDigestTime(text: string): string | null {
+    const normalized = text.toLowerCase()
+    const match = normalized.match(/\b(\d{1,2})(?:[:.h](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/)
+    if (!match) return null
+
+    let hours = parseInt(match[1], 10)
+    const minutes = match[2] ? parseInt(match[2], 10) : 0
+    const afternoon = /\b(de la tarde|de la noche)\b/.test(normalized) || match[3]?.startsWith('p')
+    if (afternoon && hours < 12) hours += 12
+    if (match[3]?.startsWith('a') && hours === 12) hours = 0
+    if (hours > 23 || minutes > 59) return null
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+}
+
+/**
+ * Opt a chat in to the digest, or change its schedule. The notebook is kept
+ * with the job so the digest reads the same notes the chat writes to.
+ */
+export async function subscribeDigest(
+    store: JobStore,
+    chatId: string,
+    notebook: Notebook,
+    frequency: DigestFrequency,
+    time: string = config.digest.defaultTime,
+    now: Date = new Date()
+): Promise<Job> {
+    const id = digestJobId(chatId)
+    const existing = await store.get(id)
+    const schedule: JobSchedule = {
+        frequency,
+        time,
+        ...(frequency === 'weekly' ? { weekday: config.digest.weekday } : {})
+    }
+
+    const job: Job = {
+        id,
+        type: DIGEST_JOB,
+        chatId,
+        schedule,
+        payload: { notebook },
+        nextRunAt: nextRunTime(schedule, now).toISOString(),
+        lastRunAt: existing?.lastRunAt,
+        createdAt: existing?.createdAt || now.toISOString()
+    }
+    await store.save(job)
+    logger.info('Digest scheduled', { chatId, frequency, time })
+    return job
+}
+
+function listTitles(notes: NoteQueryResult[]): string {
+    const lines = notes.slice(0, MAX_LISTED_NOTES).map(note => `   • ${note.titulo}`)
+    if (notes.length > MAX_LISTED_NOTES) {
+        lines.push(`   … y ${notes.length - MAX_LISTED_NOTES} más`)
+    }
+    return lines.join('\n')
+}
+
+/**
+ * Upcoming events of a chat, from the event dates its reminders were scheduled for
+ */
+function upcomingEvents(reminders: Reminder[], now: Date, until: Date): Reminder[] {
+    const events = new Map<string, Reminder>()
+    for (const reminder of reminders) {
+        if (reminder.status === 'cancelled' || events.has(reminder.noteId)) continue
+        const event = parseEventDate(reminder.fechaEvento)
+        if (event && event.date >= now && event.date < until) {
+            events.set(reminder.noteId, reminder)
+        }
+    }
+    return [...events.values()].sort(
+        (a, b) =>
+            parseEventDate(a.fechaEvento)!.date.getTime() -
+            parseEventDate(b.fechaEvento)!.date.getTime()
+    )
+}
+
+/**
+ * The digest text: notes saved since `since` by tag, events coming up before
+ * the next digest, and the ones of those still waiting for a proper tag.
+ * Null when there is nothing to tell.
+ */
+export async function buildDigest(
+    store: NoteStore,
+    reminders: Reminder[],
+    frequency: DigestFrequency,
+    since: Date,
+    now: Date = new Date()
+): Promise<string | null> {
+    const fechas = {
+        start: since.toISOString(),
+        end: now.toISOString(),
+        label: 'desde el último resumen'
+    }
+    const [nuevas, sinClasificar, stats] = await Promise.all([
+        store.queryNotes(undefined, undefined, fechas),
+        store.queryNotes(undefined, UNCLASSIFIED_TAG, fechas),
+        store.getNotesCount()
+    ])
+    const sinEtiquetas = [
+        ...nuevas.filter(note => note.etiquetas.length === 0),
+        ...sinClasificar.filter(note => note.etiquetas.every(tag => tag === UNCLASSIFIED_TAG))
+    ]
+    const eventos = upcomingEvents(
+        reminders,
+        now,
+        new Date(now.getTime() + (frequency === 'weekly' ? 7 : 2) * DAY)
+    )
+
+    if (nuevas.length === 0 && eventos.length === 0 && sinEtiquetas.length === 0) {
+        return null
+    }
+
+    const sections: string[] = [`📰 Tu resumen ${frequency === 'weekly' ? 'semanal' : 'diario'}`]
+
+    if (nuevas.length > 0) {
+        const byTag = new Map<string, NoteQueryResult[]>()
+        for (const note of nuevas) {
+            for (const tag of note.etiquetas.length > 0 ? note.etiquetas : ['Sin etiqueta']) {
+                byTag.set(tag, [...(byTag.get(tag) || []), note])
+            }
+        }
+        const groups = [...byTag.entries()]
+            .sort((a, b) => b[1].length - a[1].length)
+            .map(([tag, notes]) => `🏷️ ${tag} (${notes.length})\n${listTitles(notes)}`)
+        sections.push(
+            `📝 ${nuevas.length} nota${nuevas.length > 1 ? 's' : ''} nueva${nuevas.length > 1 ? 's' : ''}:\n\n${groups.join('\n')}`
+        )
+    }
+
+    if (eventos.length > 0) {
+        const lines = eventos.map(
+            event => `   • ${event.titulo} — ${formatEventDate(event.fechaEvento)}`
+        )
+        sections.push(`🗓️ Próximos eventos:\n${lines.join('\n')}`)
+    }
+
+    if (sinEtiquetas.length > 0) {
+        sections.push(
+            `🔖 Notas sin clasificar (${sinEtiquetas.length}):\n${listTitles(sinEtiquetas)}\n   Búscalas y dime qué etiqueta ponerles.`
+        )
+    }
+
+    sections.push(`📊 Tienes ${stats.total} nota${stats.total === 1 ? '' : 's'} en total.`)
+    return sections.join('\n\n')
+}
+
+/**
+ * The job handler that sends a chat its digest. The first digest covers the
+ * time since the chat opted in (at least one period); later ones everything
+ * since the previous run.
+ */
+export function createDigestHandler(
+    send: MessageSender,
+    reminderStore: ReminderStore = getReminderStore(),
+    getStore: (notebook?: Notebook) => NoteStore = getNoteStore
+): JobHandler {
+    return async (job, now) => {
+        const frequency = job.schedule.frequency
+        const period = (frequency === 'weekly' ? 7 : 1) * DAY
+        const since = job.lastRunAt
+            ? new Date(job.lastRunAt)
+            : new Date(Math.min(new Date(job.createdAt).getTime(), now.getTime() - period))
+
+        const notebook = job.payload?.notebook as Notebook | undefined
+        const digest = await buildDigest(
+            getStore(notebook),
+            await reminderStore.list(job.chatId),
+            frequency,
+            since,
+            now
+        )
+        if (!digest) {
+            logger.debug('Nothing new for the digest', { chatId: job.chatId })
+            return true
+        }
+        return send(job.chatId, digest)
+    }
+}
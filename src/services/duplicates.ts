@@ -0,0 +1,252 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { extractUrls } from './linkPreview.js'
+import { findSimilarNotes, NoteData, NoteQueryResult, NoteStore } from './noteStore.js'
+
+const logger = createLogger('Duplicates')
+
+export type DuplicateReason = 'url' | 'content'
+
+export interface DuplicateMatch {
+    note: NoteQueryResult
+    reason: DuplicateReason
+    /**
+     * Word overlap between the two notes, from 0 to 1
+     */
+    similarity: number
+}
+
+/**
+ * What to do with a note that looks like an existing one: append it to the
+ * existing note, replace the existing note with it, save it as a new note,
+ * or drop it
+ */
+export type DuplicateChoice = 'merge' | 'update' | 'new' | 'cancel'
+
+// Parámetros que solo rastrean de dónde vino la visita
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|igshid|mc_\w+|ref|ref_src|si|feature|t)$/
+
+// Comparadas sin acentos
+const CHOICE_WORDS: Record<DuplicateChoice, string[]> = {
+    merge: [
+        '1',
+        'fusionar',
+        'fusiona',
+        'fusionala',
+        'combinar',
+        'combina',
+        'unir',
+        'une',
+        'juntar',
+        'junta',
+        'agregala',
+        'anadela'
+    ],
+    update: [
+        '2',
+        'actualizar',
+        'actualiza',
+        'actualizala',
+        'reemplazar',
+        'reemplaza',
+        'reemplazala',
+        'sustituir',
+        'sustituye'
+    ],
+    new: [
+        '3',
+        'guardar',
+        'guarda',
+        'guardala',
+        'nueva',
+        'otra',
+        'de todos modos',
+        'igual',
+        'igualmente'
+    ],
+    cancel: ['no', 'cancelar', 'cancela', 'nada', 'olvidalo', 'dejala']
+}
+
+function normalizeText(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * The same link written in different ways compares equal: scheme, "www.",
+ * fragments, trailing slashes and tracking parameters are ignored, and short
+ * YouTube links are expanded
+ */
+export function normalizeUrl(url: string): string {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return url.trim().toLowerCase()
+    }
+
+    let host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '')
+    let pathname = parsed.pathname.replace(/\/+$/, '')
+    if (host === 'youtu.be') {
+        parsed.searchParams.set('v', pathname.slice(1))
+        host = 'youtube.com'
+        pathname = '/watch'
+    }
+
+    const params = [...parsed.searchParams.entries()]
+        .filter(([key]) => !TRACKING_PARAMS.test(key))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => `${key}=${value}`)
+
+    return `${host}${pathname}${params.length > 0 ? `?${params.join('&')}` : ''}`
+}
+
+/**
+ * The part of a link most likely to appear as written in a saved note, used
+ * to find notes that may contain it
+ */
+function urlSearchKey(url: string): string {
+    const normalized = normalizeUrl(url)
+    const videoId = normalized.match(/[?&]v=([\w-]+)/)?.[1]
+    if (videoId) return videoId
+    const segments = normalized.split('?')[0].split('/').filter(Boolean)
+    return segments[segments.length - 1]
+}
+
+function noteUrls(note: { contenido: string; enlaces?: { url: string }[] }): Set<string> {
+    const urls = [...extractUrls(note.contenido), ...(note.enlaces || []).map(link => link.url)]
+    return new Set(urls.map(normalizeUrl))
+}
+
+function contentWords(text: string): Set<string> {
+    const withoutUrls = text.replace(/https?:\/\/\S+/g, ' ')
+    return new Set(
+        normalizeText(withoutUrls)
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length > 2)
+    )
+}
+
+/**
+ * Jaccard similarity of the words of two texts, links left out
+ */
+export function contentSimilarity(a: string, b: string): number {
+    const wordsA = contentWords(a)
+    const wordsB = contentWords(b)
+    if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+    let shared = 0
+    for (const word of wordsA) {
+        if (wordsB.has(word)) shared++
+    }
+    return shared / (wordsA.size + wordsB.size - shared)
+}
+
+/**
+ * Look for a saved note the new one repeats: one with the same link, or with
+ * nearly the same words. Candidates come from the same searches used to
+ * suggest tags, plus a search for each link.
+ */
+export async function findDuplicateNote(
+    store: NoteStore,
+    note: Pick<NoteData, 'titulo' | 'contenido' | 'enlaces'>,
+    threshold: number = config.duplicates.similarity
+): Promise<DuplicateMatch | null> {
+    const urls = noteUrls(note)
+    const searches = [
+        findSimilarNotes(note.contenido, store),
+        store.queryNotes(note.titulo),
+        ...extractUrls(note.contenido).map(url => store.queryNotes(urlSearchKey(url)))
+    ]
+
+    const candidates = new Map<string, NoteQueryResult>()
+    for (const results of await Promise.all(searches)) {
+        for (const candidate of results) {
+            candidates.set(candidate.id, candidate)
+        }
+    }
+
+    const text = `${note.titulo}\n${note.contenido}`
+    let best: DuplicateMatch | null = null
+    for (const candidate of candidates.values()) {
+        const similarity = contentSimilarity(text, `${candidate.titulo}\n${candidate.contenido}`)
+        const sameUrl = [...noteUrls(candidate)].some(url => urls.has(url))
+
+        if (sameUrl) {
+            best = { note: candidate, reason: 'url', similarity }
+            break
+        }
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+            best = { note: candidate, reason: 'content', similarity }
+        }
+    }
+
+    if (best) {
+        logger.info('Possible duplicate found', {
+            noteId: best.note.id,
+            reason: best.reason,
+            similarity: Number(best.similarity.toFixed(2))
+        })
+    }
+    return best
+}
+
+/**
+ * Read the answer to the duplicate question. Anything else returns null, so
+ * the message can be handled as a new request.
+ */
+export function parseDuplicateChoice(text: string): DuplicateChoice | null {
+    const answer = normalizeText(text)
+        .replace(/[¡!¿?.,]/g, '')
+        .trim()
+
+    const matches = (words: string[]) =>
+        words.some(
+            word => answer === word || answer.startsWith(`${word} `) || answer.endsWith(` ${word}`)
+        )
+
+    // "no" va primero: "no, guárdala" no debe leerse como guardar
+    if (matches(CHOICE_WORDS.cancel) && !/\b(guarda|guardala|otra|nueva)\b/.test(answer)) {
+        return 'cancel'
+    }
+    for (const choice of ['merge', 'update', 'new'] as DuplicateChoice[]) {
+        if (matches(CHOICE_WORDS[choice])) return choice
+    }
+    return null
+}
+
+/**
+ * Content and tags of the existing note after appending the new one. Text the
+ * existing note already contains is not repeated.
+ */
+export function mergeNotes(
+    existing: Pick<NoteQueryResult, 'contenido' | 'etiquetas'>,
+    note: Pick<NoteData, 'contenido' | 'etiquetas'>
+): { contenido: string; etiquetas: string[] } {
+    const contenido = existing.contenido.includes(note.contenido.trim())
+        ? existing.contenido
+        : `${existing.contenido.trimEnd()}\n\n${note.contenido.trim()}`
+    return {
+        contenido,
+        etiquetas: [...new Set([...existing.etiquetas, ...note.etiquetas])]
+    }
+}
+
+export function formatDuplicateQuestion(match: DuplicateMatch, titulo: string): string {
+    const reason =
+        match.reason === 'url'
+            ? 'ya tienes una nota con ese mismo enlace'
+            : 'se parece mucho a una nota que ya tienes'
+    return [
+        `🔁 "${titulo}" ${reason}: "${match.note.titulo}".`,
+        '',
+        '¿Qué hago?',
+        '1. Fusionar: agregar lo nuevo a la nota existente',
+        '2. Actualizar: reemplazar la nota existente con la nueva',
+        '3. Guardarla como una nota nueva de todos modos',
+        '',
+        'Responde con el número, o "no" para descartarla.'
+    ].join('\n')
+}
@@ -0,0 +1,85 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { Notebook } from './noteStore.js'
+
+const logger = createLogger('Groups')
+
+export interface GroupSettings {
+    jid: string
+    notebook: Notebook
+}
+
+export function isGroupJid(jid: string): boolean {
+    return jid.endsWith('@g.us')
+}
+
+function parseAllowlist(): { jid: string; databaseId?: string }[] {
+    return config.groups.allowlist.map(entry => {
+        const [jid, databaseId] = entry.split('=').map(part => part.trim())
+        return { jid, databaseId: databaseId || undefined }
+    })
+}
+
+// Con Notion, un grupo sin base de datos propia escribiría en la del dueño
+function lacksDatabase(group: { databaseId?: string }): boolean {
+    return config.storage.backend === 'notion' && !group.databaseId
+}
+
+/**
+ * Log the allowlisted groups the bot will ignore, so a missing database ID
+ * shows up at startup and not as a group that never answers
+ */
+export function checkGroupAllowlist(): void {
+    for (const group of parseAllowlist().filter(lacksDatabase)) {
+        logger.warn(
+            'Ignoring an allowlisted group without a Notion database; add it as "groupJid=databaseId" to GROUP_ALLOWLIST',
+            { group: group.jid }
+        )
+    }
+}
+
+/**
+ * Settings for an allowlisted group, or null when the bot must ignore it.
+ * Each group gets its own notebook; with Notion it must point to its own database.
+ */
+export function getGroupSettings(groupJid: string): GroupSettings | null {
+    const group = parseAllowlist().find(entry => entry.jid === groupJid)
+    if (!group || lacksDatabase(group)) return null
+    return {
+        jid: group.jid,
+        notebook: { id: `group-${group.jid}`, databaseId: group.databaseId }
+    }
+}
+
+// "123:4@s.whatsapp.net" (a device JID) and "123@s.whatsapp.net" are the same user
+function userPart(jid: string): string {
+    return jid.split('@')[0].split(':')[0]
+}
+
+/**
+ * Return the text addressed to the bot, with the mention or prefix removed,
+ * or null when the bot was neither mentioned nor called with the prefix
+ */
+export function getGroupCommand(
+    text: string,
+    mentionedJids: string[],
+    botJids: string[],
+    prefix: string = config.groups.prefix
+): string | null {
+    const botUsers = botJids.map(userPart)
+    const mentioned = mentionedJids.some(jid => botUsers.includes(userPart(jid)))
+
+    if (mentioned) {
+        return botUsers
+            .reduce((remaining, user) => remaining.split(`@${user}`).join(' '), text)
+            .replace(/\s+/g, ' ')
+            .trim()
+    }
+
+    const trimmed = text.trim()
+    if (prefix && trimmed.toLowerCase().startsWith(prefix.toLowerCase())) {
+        return trimmed.slice(prefix.length).trim()
+    }
+
+    return null
+}
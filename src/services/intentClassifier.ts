@@ -1,6 +1,17 @@
-import { generateResponse } from '../ai/openai.js'
+import { completeTask, promptMessages } from '../ai/llm.js'
 import { logger } from '../logger/index.js'
-import { getAvailableTags, findSimilarNotes } from './notion.js'
+import { formatLinksForPrompt, LinkMetadata } from './linkPreview.js'
+import { getNoteStore, findSimilarNotes, NoteStore } from './noteStore.js'
+import { toLocalDateTime } from './reminders.js'
+import {
+    INTENT_JSON_SCHEMA,
+    IntentParseError,
+    IntentValidationError,
+    parseIntentResponse
+} from './intentSchema.js'
+
+
+export const RESULTS_PAGE_SIZE = 5
 
 
 export interface Note {
@@ -17,12 +28,33 @@ export interface SaveNoteIntent {
     etiquetas: string[] 
     confidence: number
     suggested_tags?: string[] 
+    /**
+     * For events: when it happens, "2025-05-02T18:30" or "2025-05-02" (local time)
+     */
+    fechaEvento?: string
+}
+
+/**
+ * Filters the classifier can add to any query. `fechas` is the date expression
+ * as the user said it ("este mes"); it is parsed by the handler.
+ */
+export interface QueryFilters {
+    etiquetas?: string[]
+    modoEtiquetas?: 'and' | 'or'
+    palabrasClave?: string
+    fechas?: string
+    orden?: 'relevancia' | 'recientes' | 'antiguas'
+    limite?: number
 }
 
 export interface QueryIntent {
     type: 'query'
-    queryType: 'by_tag' | 'by_keyword' | 'count' | 'recent'
+    queryType: 'by_tag' | 'by_keyword' | 'by_date' | 'search' | 'count' | 'recent'
+    /**
+     * The tag, the keywords, or for by_date the date expression ("esta semana")
+     */
     parameter?: string
+    filtros?: QueryFilters
     confidence: number
 }
 
@@ -44,11 +76,100 @@ export interface TagCorrectionIntent {
     originalNote: string
 }
 
-export type IntentResult = SaveNoteIntent | QueryIntent | ConversationIntent | UnclearIntent | TagCorrectionIntent
+/**
+ * `target` holds words from the title of the note to change. When it is
+ * missing the note from the conversation context is used.
+ */
+export interface EditNoteIntent {
+    type: 'edit_note'
+    target?: string
+    titulo?: string
+    contenido?: string
+    confidence: number
+}
+
+export interface AppendNoteIntent {
+    type: 'append_note'
+    target?: string
+    contenido: string
+    confidence: number
+}
+
+export interface DeleteNoteIntent {
+    type: 'delete_note'
+    target?: string
+    confidence: number
+}
+
+/**
+ * A question answered from the content of the notes. `parameter` holds the
+ * keywords used to find the notes that may answer it.
+ */
+export interface AskIntent {
+    type: 'ask'
+    question: string
+    parameter?: string
+    confidence: number
+}
+
+/**
+ * List, snooze or cancel reminders. `target` is a number from the reminder
+ * list or words of the event title; without it the last reminder sent is used.
+ */
+export interface ReminderIntent {
+    type: 'reminder'
+    action: 'list' | 'snooze' | 'cancel'
+    target?: string
+    /**
+     * How long to snooze, as the user said it ("10 minutos", "una hora")
+     */
+    duracion?: string
+    confidence: number
+}
+
+/**
+ * Opt in to, change or stop the periodic digest of saved notes
+ */
+export interface DigestIntent {
+    type: 'digest'
+    action: 'subscribe' | 'unsubscribe' | 'status'
+    frecuencia?: 'daily' | 'weekly'
+    /**
+     * Time of day as the user said it ("8:00", "a las 7 de la tarde")
+     */
+    hora?: string
+    confidence: number
+}
 
+/**
+ * List the tags, or rename, merge or retire them on every note. `etiquetas`
+ * are the tags to change and `destino` the tag they become.
+ */
+export interface TagsIntent {
+    type: 'tags'
+    action: 'list' | 'rename' | 'merge' | 'delete'
+    etiquetas?: string[]
+    destino?: string
+    confidence: number
+}
 
-async function generateClassificationPrompt(): Promise<string> {
-    const availableTags = await getAvailableTags()
+export type IntentResult =
+    | SaveNoteIntent
+    | QueryIntent
+    | ConversationIntent
+    | UnclearIntent
+    | TagCorrectionIntent
+    | EditNoteIntent
+    | AppendNoteIntent
+    | DeleteNoteIntent
+    | AskIntent
+    | ReminderIntent
+    | DigestIntent
+    | TagsIntent
+
+
+async function generateClassificationPrompt(store: NoteStore): Promise<string> {
+    const availableTags = await store.getAvailableTags()
     const tagsString = availableTags.length > 0 ? availableTags.map(tag => `"${tag}"`).join(', ') : '"Otros"'
     
     return `
@@ -68,6 +189,8 @@ TIPOS DE INTENCIÓN:
    - "Muéstrame mis notas de esta semana"
    - "Busca algo sobre proyectos"
    - "¿Cuántas notas tengo?"
+   - "¿Qué guardé ayer?" (por fecha)
+   - "Recetas con pollo de este mes" (búsqueda combinada)
 
 3. **CONVERSACIÓN** - Saludos, agradecimientos, charla casual
    - "Hola", "Gracias", "¿Cómo estás?"
@@ -78,6 +201,46 @@ TIPOS DE INTENCIÓN:
    - "Cambia la etiqueta de X a Y"
    - "Esa nota debería ser de tipo Z"
 
+6. **EDITAR NOTA** - El usuario quiere corregir el título o reemplazar el contenido de una nota
+   - "Cambia el título de la receta de arepas a Arepas venezolanas"
+   - "Corrige la última nota: el contenido es ..."
+
+7. **AGREGAR A NOTA** - El usuario quiere añadir información al final de una nota existente
+   - "Agrega a la nota de arepas: también lleva queso"
+   - "Añade esto a la última nota: ..."
+
+8. **ELIMINAR NOTA** - El usuario quiere borrar una nota
+   - "Borra la nota de la reunión del lunes"
+   - "Elimina esa nota, la guardé por error"
+
+9. **PREGUNTAR A LAS NOTAS** - El usuario hace una pregunta cuya respuesta está dentro de sus notas
+   - "¿Qué ingredientes lleva mi receta de arepas?"
+   - "¿A qué hora era la reunión con Carla?"
+   - A diferencia de CONSULTAR, no quiere una lista de notas sino una respuesta
+
+10. **RECORDATORIOS** - El usuario quiere ver, posponer o cancelar sus recordatorios
+   - "¿Qué recordatorios tengo?" → action "list"
+   - "Posponer 10 minutos", "Pospón el 2 una hora" → action "snooze"
+   - "Cancela el recordatorio de la reunión", "Cancela el 1" → action "cancel"
+
+11. **RESUMEN PERIÓDICO** - El usuario quiere recibir (o dejar de recibir) un resumen de sus notas
+   - "Mándame un resumen diario a las 8" → action "subscribe", frecuencia "daily", hora "8:00"
+   - "Quiero un resumen semanal" → action "subscribe", frecuencia "weekly"
+   - "Ya no quiero el resumen" → action "unsubscribe"; "¿Tengo el resumen activado?" → action "status"
+
+12. **GESTIONAR ETIQUETAS** - El usuario quiere ver, renombrar, fusionar o eliminar etiquetas (no notas)
+   - "¿Qué etiquetas tengo?", "Muéstrame mis etiquetas" → action "list"
+   - "Renombra la etiqueta links a Links útiles" → action "rename", etiquetas ["links"], destino "Links útiles"
+   - "Fusiona Link y links en Links útiles" → action "merge", etiquetas ["Link", "links"], destino "Links útiles"
+   - "Fusiona Ideas e Ideas sueltas" → action "merge", etiquetas ["Ideas", "Ideas sueltas"] (sin destino)
+   - "Elimina la etiqueta Temporal" → action "delete", etiquetas ["Temporal"]
+
+FECHA Y HORA ACTUAL: ${toLocalDateTime(new Date())}
+
+Para eventos con fecha: añade "fechaEvento" con la fecha en hora local, "AAAA-MM-DDTHH:MM" si hay hora o "AAAA-MM-DD" si no la hay. Calcula las fechas relativas ("el viernes", "mañana a las 6") a partir de la fecha actual; siempre en el futuro.
+
+Para editar, agregar o eliminar: pon en "target" palabras del título de la nota. Si el usuario se refiere a la nota de la que se está hablando ("esa nota", "la última"), omite "target".
+
 ETIQUETAS DISPONIBLES: "${tagsString}"
 
 IMPORTANTE PARA ETIQUETADO:
@@ -91,7 +254,7 @@ IMPORTANTE PARA CONTENIDO:
 - Si el mensaje contiene una URL, SIEMPRE inclúyela en el contenido
 - Si hay texto descriptivo Y URL, incluye AMBOS en el contenido
 - El contenido debe ser completo y útil para futuras búsquedas
-- Para URLs de YouTube, extrae el título si es posible, pero SIEMPRE incluye la URL
+- Si se incluye información de los enlaces, úsala para el título, el contenido y las etiquetas, pero SIEMPRE incluye la URL
 
 CRITERIOS PARA MÚLTIPLES ETIQUETAS:
 - Una receta compartida como idea → ["Recetas", "Ideas"]
@@ -99,7 +262,9 @@ CRITERIOS PARA MÚLTIPLES ETIQUETAS:
 - Una nota de trabajo que es también una idea → ["Otros", "Ideas"]
 
 INSTRUCCIONES:
-- Responde SOLO con un JSON válido
+- Responde SOLO con un JSON válido, sin texto adicional ni bloques de código
+- Campos obligatorios por tipo: save_note → titulo, contenido, etiquetas (1 a 3), confidence; query → queryType (by_tag, by_keyword, by_date, search, count, recent), parameter (para by_tag, by_keyword y by_date), filtros (obligatorio para search), confidence; conversation → response, confidence; unclear → clarificationQuestion; tag_correction → newTags; edit_note → titulo y/o contenido nuevos, confidence; append_note → contenido a añadir, confidence; delete_note → confidence; ask → question, parameter (palabras clave para buscar las notas), confidence; reminder → action (list, snooze, cancel), target (número o palabras del título, opcional), duracion (opcional), confidence; digest → action (subscribe, unsubscribe, status), frecuencia (daily, weekly, opcional), hora (opcional), confidence; tags → action (list, rename, merge, delete), etiquetas (las que cambian, salvo en list), destino (obligatorio en rename, opcional en merge), confidence
+- confidence es un número entre 0 y 1
 - Para notas: extrae título descriptivo, contenido estructurado CON URLs incluidas, y etiquetas apropiadas (array)
 - Para consultas: identifica qué tipo de búsqueda quiere hacer
 - Para conversación: genera respuesta natural y amigable
@@ -133,6 +298,30 @@ Para consulta específica:
   "confidence": 0.85
 }
 
+Para consulta por fecha (parameter es la expresión de fecha tal como la dijo el usuario):
+{
+  "type": "query",
+  "queryType": "by_date",
+  "parameter": "ayer",
+  "confidence": 0.9
+}
+
+Para consulta que combina filtros ("recetas con pollo de este mes", "mis 3 ideas más antiguas", "notas de recetas y eventos"):
+- filtros.etiquetas: etiquetas a buscar; filtros.modoEtiquetas: "and" si deben tener todas, "or" si basta con una
+- filtros.palabrasClave: palabras a buscar en título y contenido
+- filtros.fechas: expresión de fecha tal como la dijo el usuario
+- filtros.orden: "relevancia", "recientes" o "antiguas"; filtros.limite: cuántas notas quiere como máximo
+{
+  "type": "query",
+  "queryType": "search",
+  "filtros": {
+    "etiquetas": ["Recetas"],
+    "palabrasClave": "pollo",
+    "fechas": "este mes"
+  },
+  "confidence": 0.9
+}
+
 Para conversación:
 {
   "type": "conversation",
@@ -140,6 +329,54 @@ Para conversación:
   "confidence": 0.95
 }
 
+Para editar una nota:
+{
+  "type": "edit_note",
+  "target": "arepas",
+  "titulo": "Arepas venezolanas",
+  "confidence": 0.9
+}
+
+Para agregar a una nota:
+{
+  "type": "append_note",
+  "target": "arepas",
+  "contenido": "También lleva queso rallado",
+  "confidence": 0.9
+}
+
+Para eliminar la nota de la que se habla:
+{
+  "type": "delete_note",
+  "confidence": 0.9
+}
+
+Para un evento con fecha:
+{
+  "type": "save_note",
+  "titulo": "Reunión con Carla",
+  "contenido": "Reunión con Carla el jueves a las 10 en la oficina",
+  "etiquetas": ["Evento"],
+  "fechaEvento": "2025-05-08T10:00",
+  "confidence": 0.9
+}
+
+Para posponer un recordatorio:
+{
+  "type": "reminder",
+  "action": "snooze",
+  "duracion": "10 minutos",
+  "confidence": 0.9
+}
+
+Para una pregunta sobre el contenido de las notas:
+{
+  "type": "ask",
+  "question": "¿Qué ingredientes lleva mi receta de arepas?",
+  "parameter": "arepas",
+  "confidence": 0.9
+}
+
 Para mensaje ambiguo:
 {
   "type": "unclear",
@@ -150,9 +387,9 @@ Analiza este mensaje del usuario:`
 }
 
 
-async function suggestTagsFromSimilarContent(content: string): Promise<string[]> {
+async function suggestTagsFromSimilarContent(content: string, store: NoteStore): Promise<string[]> {
     try {
-        const similarNotes = await findSimilarNotes(content)
+        const similarNotes = await findSimilarNotes(content, store)
         if (similarNotes.length === 0) return []
 
         
@@ -185,31 +422,80 @@ async function suggestTagsFromSimilarContent(content: string): Promise<string[]>
     }
 }
 
-export async function classifyIntent(userMessage: string): Promise<IntentResult> {
+/**
+ * Ask the model for a classification and validate it. A malformed answer gets
+ * one repair attempt with the problems listed; a second failure is thrown.
+ */
+async function requestClassification(prompt: string): Promise<IntentResult> {
+    const messages = promptMessages(prompt)
+    const response = await completeTask('classification', messages, INTENT_JSON_SCHEMA)
+
+    try {
+        return parseIntentResponse(response)
+    } catch (error) {
+        if (!(error instanceof IntentParseError || error instanceof IntentValidationError)) {
+            throw error
+        }
+
+        const problems = error instanceof IntentValidationError
+            ? error.issues.join('\n- ')
+            : 'la respuesta no es JSON válido'
+        logger.warn('Malformed classification response, asking for a repair', {
+            error: error.message,
+            response
+        })
+
+        const repaired = await completeTask(
+            'classification',
+            [
+                ...messages,
+                { role: 'assistant', content: response },
+                {
+                    role: 'user',
+                    content: `Tu respuesta no cumple el formato requerido:\n- ${problems}\n\nResponde de nuevo SOLO con el JSON corregido.`
+                }
+            ],
+            INTENT_JSON_SCHEMA
+        )
+        return parseIntentResponse(repaired)
+    }
+}
+
+export async function classifyIntent(
+    userMessage: string,
+    store: NoteStore = getNoteStore(),
+    links: LinkMetadata[] = []
+): Promise<IntentResult> {
     try {
         
-        const dynamicPrompt = await generateClassificationPrompt()
-        const fullPrompt = `${dynamicPrompt}\n\nMensaje: "${userMessage}"`
-        
-        const response = await generateResponse(fullPrompt)
-        
+        const dynamicPrompt = await generateClassificationPrompt(store)
+        let fullPrompt = `${dynamicPrompt}\n\nMensaje: "${userMessage}"`
+        if (links.length > 0) {
+            fullPrompt += `\n\nInformación de los enlaces del mensaje:\n${formatLinksForPrompt(links)}`
+        }
         
         let result: IntentResult
         try {
-            result = JSON.parse(response)
-        } catch (parseError) {
-            logger.warn('Error parsing classification response, falling back to conversation', { response })
-            return {
-                type: 'conversation',
-                response: 'Disculpa, no entendí bien tu mensaje. ¿Podrías reformularlo?',
-                confidence: 0.3
+            result = await requestClassification(fullPrompt)
+        } catch (error) {
+            if (error instanceof IntentParseError || error instanceof IntentValidationError) {
+                logger.warn('Invalid classification after repair, falling back to conversation', {
+                    error: error.message,
+                    response: error.response
+                })
+                return {
+                    type: 'conversation',
+                    response: 'Disculpa, no entendí bien tu mensaje. ¿Podrías reformularlo?',
+                    confidence: 0.3
+                }
             }
+            throw error
         }
 
         
         if (result.type === 'save_note') {
             const saveNoteResult = result as SaveNoteIntent
-            const suggestedTags = await suggestTagsFromSimilarContent(saveNoteResult.contenido)
+            const suggestedTags = await suggestTagsFromSimilarContent(saveNoteResult.contenido, store)
             
             if (suggestedTags.length > 0) {
                 saveNoteResult.suggested_tags = suggestedTags
@@ -246,8 +532,63 @@ export function isHighConfidence(intent: IntentResult): boolean {
 }
 
 
+/**
+ * Numbered summary lines for a page of results; numbering starts at `start + 1`
+ * so follow-up pages continue the list the user already saw
+ */
+export function formatNoteList(notes: any[], start = 0): string {
+    let response = ''
+
+    notes.forEach((note, index) => {
+        
+        const contenido = note.contenido || ''
+        const shortContent = contenido.length > 80 
+            ? contenido.substring(0, 80) + '...'
+            : contenido
+        
+        response += `${start + index + 1}. **${note.titulo}**\n`
+        response += `   ${shortContent}\n`
+        
+        
+        if (note.etiquetas && Array.isArray(note.etiquetas)) {
+            response += `   🏷️ ${note.etiquetas.join(', ')}\n`
+        } else if (note.etiqueta) {
+            response += `   🏷️ ${note.etiqueta}\n`
+        }
+        
+        
+        if (note.relevancia && note.relevancia > 0) {
+            if (note.relevancia >= 10) {
+                response += `   🎯 Coincidencia exacta`
+            } else if (note.relevancia >= 3) {
+                response += `   ✨ Relacionado`
+            } else {
+                response += `   💡 Sugerencia`
+            }
+            
+            if (note.coincidencias && note.coincidencias.length > 0) {
+                response += ` - ${note.coincidencias[0]}`
+            }
+            response += `\n`
+        } else if (note.similitud) {
+            response += `   🧠 Contenido similar\n`
+        }
+        
+        response += `\n`
+    })
+
+    return response
+}
+
+
 export function formatQueryResponse(notes: any[], queryType: string, parameter?: string): string {
     if (notes.length === 0) {
+        if (queryType === 'search') {
+            return `🔎 No encontré notas${parameter ? ` ${parameter}` : ''}.\n\n💡 Prueba quitando alguno de los filtros.`
+        }
+        if (queryType === 'by_date') {
+            return `📅 No encontré notas de ${parameter}.\n\n💡 Prueba con un periodo más amplio, como "este mes" o "los últimos 30 días".`
+        }
         if (parameter) {
             return `❌ No encontré notas que contengan exactamente "${parameter}".\n\n💡 Puedes intentar con:\n• Términos más generales\n• Sinónimos\n• Palabras clave específicas\n\n¿Quieres que busque algo relacionado?`
         }
@@ -277,6 +618,14 @@ export function formatQueryResponse(notes: any[], queryType: string, parameter?:
                 response = `🔍 Encontré ${notes.length} nota${notes.length > 1 ? 's' : ''} sobre "${parameter}":\n\n`
             }
             break
+        case 'search':
+            response = parameter
+                ? `🔎 Encontré ${notes.length} nota${notes.length > 1 ? 's' : ''} ${parameter}:\n\n`
+                : `📋 Encontré ${notes.length} nota${notes.length > 1 ? 's' : ''}:\n\n`
+            break
+        case 'by_date':
+            response = `📅 Tienes ${notes.length} nota${notes.length > 1 ? 's' : ''} de ${parameter}:\n\n`
+            break
         case 'recent':
             response = `📅 Tus notas más recientes:\n\n`
             break
@@ -287,47 +636,11 @@ export function formatQueryResponse(notes: any[], queryType: string, parameter?:
             response = `📋 Encontré ${notes.length} nota${notes.length > 1 ? 's' : ''}:\n\n`
     }
 
-    
-    const limitedNotes = notes.slice(0, 5)
-    
-    limitedNotes.forEach((note, index) => {
-        
-        const contenido = note.contenido || ''
-        const shortContent = contenido.length > 80 
-            ? contenido.substring(0, 80) + '...'
-            : contenido
-        
-        response += `${index + 1}. **${note.titulo}**\n`
-        response += `   ${shortContent}\n`
-        
-        
-        if (note.etiquetas && Array.isArray(note.etiquetas)) {
-            response += `   🏷️ ${note.etiquetas.join(', ')}\n`
-        } else if (note.etiqueta) {
-            response += `   🏷️ ${note.etiqueta}\n`
-        }
-        
-        
-        if (note.relevancia && note.relevancia > 0) {
-            if (note.relevancia >= 10) {
-                response += `   🎯 Coincidencia exacta`
-            } else if (note.relevancia >= 3) {
-                response += `   ✨ Relacionado`
-            } else {
-                response += `   💡 Sugerencia`
-            }
-            
-            if (note.coincidencias && note.coincidencias.length > 0) {
-                response += ` - ${note.coincidencias[0]}`
-            }
-            response += `\n`
-        }
-        
-        response += `\n`
-    })
+    response += formatNoteList(notes.slice(0, RESULTS_PAGE_SIZE))
 
-    if (notes.length > 5) {
-        response += `... y ${notes.length - 5} nota${notes.length - 5 > 1 ? 's' : ''} más.\n\n`
+    if (notes.length > RESULTS_PAGE_SIZE) {
+        const remaining = notes.length - RESULTS_PAGE_SIZE
+        response += `... y ${remaining} nota${remaining > 1 ? 's' : ''} más.\n\n`
     }
 
     
@@ -339,40 +652,12 @@ export function formatQueryResponse(notes: any[], queryType: string, parameter?:
         } else if (isFuzzyMatch) {
             response += `🔍 *Tip: No hay coincidencias exactas. Prueba con sinónimos o términos más específicos.*`
         }
-        
-        if (notes.length > 0) {
-            response += `\n\n¿Quieres ver detalles de alguna nota específica?`
-        }
     }
 
-    return response
-}
-
-
-export function parseTagCorrection(message: string, noteContext?: string): TagCorrectionIntent | null {
-    
-    const patterns = [
-        /cambia.*etiqueta.*a\s+(.+)/i,
-        /debería ser\s+(.+)/i,
-        /etiqueta.*(.+)/i,
-        /categoría.*(.+)/i
-    ]
-
-    for (const pattern of patterns) {
-        const match = message.match(pattern)
-        if (match) {
-            const newTagsText = match[1].trim()
-           
-            const newTags = newTagsText.split(/,|\s+y\s+/).map(tag => tag.trim()).filter(tag => tag.length > 0)
-            
-            return {
-                type: 'tag_correction',
-                noteId: '', 
-                newTags,
-                originalNote: noteContext || message
-            }
-        }
+    response = `${response.trimEnd()}\n\n👉 Responde con el número de una nota para verla completa`
+    if (notes.length > RESULTS_PAGE_SIZE) {
+        response += ` o "ver más" para ver las siguientes`
     }
 
-    return null
-}
\ No newline at end of file
+    return response
+}
@@ -0,0 +1,305 @@
+import { LLMJsonSchema } from '../ai/llm.js'
+import { IntentResult } from './intentClassifier.js'
+
+export const QUERY_TYPES = ['by_tag', 'by_keyword', 'by_date', 'search', 'count', 'recent'] as const
+export const QUERY_ORDERS = ['relevancia', 'recientes', 'antiguas'] as const
+export const REMINDER_ACTIONS = ['list', 'snooze', 'cancel'] as const
+export const DIGEST_ACTIONS = ['subscribe', 'unsubscribe', 'status'] as const
+export const TAG_ACTIONS = ['list', 'rename', 'merge', 'delete'] as const
+
+/**
+ * The model's answer could not be read as JSON at all
+ */
+export class IntentParseError extends Error {
+    constructor(public readonly response: string) {
+        super('Classification response is not valid JSON')
+        this.name = 'IntentParseError'
+    }
+}
+
+/**
+ * The answer was JSON but does not match any `IntentResult` variant
+ */
+export class IntentValidationError extends Error {
+    constructor(
+        public readonly issues: string[],
+        public readonly response: string
+    ) {
+        super(`Invalid classification: ${issues.join('; ')}`)
+        this.name = 'IntentValidationError'
+    }
+}
+
+/**
+ * Flat schema (every variant's fields on one object, discriminated by `type`)
+ * so that OpenAI-compatible servers without `anyOf` support can enforce it too
+ */
+export const INTENT_JSON_SCHEMA: LLMJsonSchema = {
+    name: 'intent_result',
+    schema: {
+        type: 'object',
+        properties: {
+            type: {
+                type: 'string',
+                enum: [
+                    'save_note',
+                    'query',
+                    'conversation',
+                    'unclear',
+                    'tag_correction',
+                    'edit_note',
+                    'append_note',
+                    'delete_note',
+                    'ask',
+                    'reminder',
+                    'digest',
+                    'tags'
+                ]
+            },
+            titulo: { type: 'string' },
+            contenido: { type: 'string' },
+            // Sin maxItems: las notas llevan hasta 3, pero una fusión puede juntar más
+            etiquetas: { type: 'array', items: { type: 'string' }, minItems: 1 },
+            queryType: { type: 'string', enum: [...QUERY_TYPES] },
+            parameter: { type: 'string' },
+            filtros: {
+                type: 'object',
+                properties: {
+                    etiquetas: { type: 'array', items: { type: 'string' } },
+                    modoEtiquetas: { type: 'string', enum: ['and', 'or'] },
+                    palabrasClave: { type: 'string' },
+                    fechas: { type: 'string' },
+                    orden: { type: 'string', enum: [...QUERY_ORDERS] },
+                    limite: { type: 'integer', minimum: 1, maximum: 50 }
+                }
+            },
+            response: { type: 'string' },
+            clarificationQuestion: { type: 'string' },
+            newTags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+            target: { type: 'string' },
+            question: { type: 'string' },
+            fechaEvento: { type: 'string' },
+            action: {
+                type: 'string',
+                enum: [...new Set([...REMINDER_ACTIONS, ...DIGEST_ACTIONS, ...TAG_ACTIONS])]
+            },
+            duracion: { type: 'string' },
+            frecuencia: { type: 'string', enum: ['daily', 'weekly'] },
+            hora: { type: 'string' },
+            destino: { type: 'string' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        required: ['type']
+    }
+}
+
+type Fields = Record<string, unknown>
+type VariantValidator = (fields: Fields, issues: string[]) => void
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0
+
+function checkString(fields: Fields, key: string, issues: string[], optional = false) {
+    const value = fields[key]
+    if (value === undefined && optional) return
+    if (!isNonEmptyString(value)) issues.push(`"${key}" must be a non-empty string`)
+}
+
+function checkTags(fields: Fields, key: string, issues: string[], max?: number) {
+    const value = fields[key]
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isNonEmptyString)) {
+        issues.push(`"${key}" must be a non-empty array of strings`)
+    } else if (max && value.length > max) {
+        issues.push(`"${key}" must have at most ${max} items`)
+    }
+}
+
+function checkConfidence(fields: Fields, issues: string[]) {
+    const value = fields.confidence
+    if (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > 1) {
+        issues.push('"confidence" must be a number between 0 and 1')
+    }
+}
+
+function checkFilters(fields: Fields, issues: string[], required: boolean) {
+    const filtros = fields.filtros
+    if (filtros === undefined && !required) return
+    if (!filtros || typeof filtros !== 'object' || Array.isArray(filtros)) {
+        issues.push('"filtros" must be an object')
+        return
+    }
+
+    const values = filtros as Fields
+    if (values.etiquetas !== undefined) checkTags(values, 'etiquetas', issues)
+    checkString(values, 'palabrasClave', issues, true)
+    checkString(values, 'fechas', issues, true)
+    if (
+        values.modoEtiquetas !== undefined &&
+        !['and', 'or'].includes(values.modoEtiquetas as string)
+    ) {
+        issues.push('"filtros.modoEtiquetas" must be "and" or "or"')
+    }
+    if (
+        values.orden !== undefined &&
+        !QUERY_ORDERS.includes(values.orden as (typeof QUERY_ORDERS)[number])
+    ) {
+        issues.push(`"filtros.orden" must be one of ${QUERY_ORDERS.join(', ')}`)
+    }
+    if (
+        values.limite !== undefined &&
+        (!Number.isInteger(values.limite) || (values.limite as number) < 1)
+    ) {
+        issues.push('"filtros.limite" must be a positive integer')
+    }
+    if (required && !values.etiquetas && !values.palabrasClave && !values.fechas) {
+        issues.push('"filtros" needs etiquetas, palabrasClave or fechas')
+    }
+}
+
+const variantValidators: Record<IntentResult['type'], VariantValidator> = {
+    save_note(fields, issues) {
+        checkString(fields, 'titulo', issues)
+        checkString(fields, 'contenido', issues)
+        checkTags(fields, 'etiquetas', issues, 3)
+        if (
+            fields.fechaEvento !== undefined &&
+            !/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/.test(fields.fechaEvento as string)
+        ) {
+            issues.push('"fechaEvento" must look like YYYY-MM-DD or YYYY-MM-DDTHH:MM')
+        }
+        checkConfidence(fields, issues)
+    },
+    query(fields, issues) {
+        if (!QUERY_TYPES.includes(fields.queryType as (typeof QUERY_TYPES)[number])) {
+            issues.push(`"queryType" must be one of ${QUERY_TYPES.join(', ')}`)
+        }
+        const needsParameter = ['by_tag', 'by_keyword', 'by_date'].includes(
+            fields.queryType as string
+        )
+        checkString(fields, 'parameter', issues, !needsParameter)
+        checkFilters(fields, issues, fields.queryType === 'search')
+        checkConfidence(fields, issues)
+    },
+    conversation(fields, issues) {
+        checkString(fields, 'response', issues)
+        checkConfidence(fields, issues)
+    },
+    unclear(fields, issues) {
+        checkString(fields, 'clarificationQuestion', issues)
+    },
+    tag_correction(fields, issues) {
+        checkTags(fields, 'newTags', issues)
+    },
+    edit_note(fields, issues) {
+        checkString(fields, 'target', issues, true)
+        checkString(fields, 'titulo', issues, true)
+        checkString(fields, 'contenido', issues, true)
+        if (fields.titulo === undefined && fields.contenido === undefined) {
+            issues.push('"titulo" or "contenido" is required')
+        }
+        checkConfidence(fields, issues)
+    },
+    append_note(fields, issues) {
+        checkString(fields, 'target', issues, true)
+        checkString(fields, 'contenido', issues)
+        checkConfidence(fields, issues)
+    },
+    delete_note(fields, issues) {
+        checkString(fields, 'target', issues, true)
+        checkConfidence(fields, issues)
+    },
+    ask(fields, issues) {
+        checkString(fields, 'question', issues)
+        checkString(fields, 'parameter', issues, true)
+        checkConfidence(fields, issues)
+    },
+    reminder(fields, issues) {
+        if (!REMINDER_ACTIONS.includes(fields.action as (typeof REMINDER_ACTIONS)[number])) {
+            issues.push(`"action" must be one of ${REMINDER_ACTIONS.join(', ')}`)
+        }
+        checkString(fields, 'target', issues, true)
+        checkString(fields, 'duracion', issues, true)
+        checkConfidence(fields, issues)
+    },
+    digest(fields, issues) {
+        if (!DIGEST_ACTIONS.includes(fields.action as (typeof DIGEST_ACTIONS)[number])) {
+            issues.push(`"action" must be one of ${DIGEST_ACTIONS.join(', ')}`)
+        }
+        if (
+            fields.frecuencia !== undefined &&
+            !['daily', 'weekly'].includes(fields.frecuencia as string)
+        ) {
+            issues.push('"frecuencia" must be "daily" or "weekly"')
+        }
+        checkString(fields, 'hora', issues, true)
+        checkConfidence(fields, issues)
+    },
+    tags(fields, issues) {
+        const action = fields.action as (typeof TAG_ACTIONS)[number]
+        if (!TAG_ACTIONS.includes(action)) {
+            issues.push(`"action" must be one of ${TAG_ACTIONS.join(', ')}`)
+        }
+        if (action !== 'list') {
+            checkTags(fields, 'etiquetas', issues)
+        }
+        if (action === 'rename') {
+            checkString(fields, 'destino', issues)
+        } else {
+            checkString(fields, 'destino', issues, true)
+        }
+        checkConfidence(fields, issues)
+    }
+}
+
+/**
+ * Check a parsed classification against the variant named by its `type`
+ */
+export function validateIntent(value: unknown, response = JSON.stringify(value)): IntentResult {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new IntentValidationError(['response must be a JSON object'], response)
+    }
+
+    const fields = value as Fields
+    const validate = variantValidators[fields.type as IntentResult['type']]
+    if (!validate) {
+        throw new IntentValidationError(
+            [`"type" must be one of ${Object.keys(variantValidators).join(', ')}`],
+            response
+        )
+    }
+
+    const issues: string[] = []
+    validate(fields, issues)
+    if (issues.length > 0) {
+        throw new IntentValidationError(issues, response)
+    }
+
+    if (fields.type === 'tag_correction') {
+        return {
+            type: 'tag_correction',
+            noteId: typeof fields.noteId === 'string' ? fields.noteId : '',
+            newTags: fields.newTags as string[],
+            originalNote: typeof fields.originalNote === 'string' ? fields.originalNote : ''
+        }
+    }
+    return fields as unknown as IntentResult
+}
+
+/**
+ * Parse a raw model answer. Tolerates a surrounding markdown code fence,
+ * which some local models add even when asked for bare JSON.
+ */
+export function parseIntentResponse(response: string): IntentResult {
+    const json = response
+        .trim()
+        .replace(/^```(?:json)?\s*/i, '')
+        .replace(/\s*```$/, '')
+
+    let value: unknown
+    try {
+        value = JSON.parse(json)
+    } catch {
+        throw new IntentParseError(response)
+    }
+    return validateIntent(value, response)
+}
@@ -0,0 +1,105 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { getJobStore, Job, JobSchedule, JobStore } from '../store/jobStore.js'
+
+const logger = createLogger('JobRunner')
+
+/**
+ * Runs one slot of a job. Returns false when it should be retried on the next
+ * check (for example while WhatsApp is disconnected).
+ */
+export type JobHandler = (job: Job, now: Date) => Promise<boolean>
+
+export interface JobRunner {
+    /**
+     * Run every job whose slot has come; returns how many completed
+     */
+    runDue(now?: Date): Promise<number>
+}
+
+/**
+ * The first slot of a schedule strictly after `after`, in local time
+ */
+export function nextRunTime(schedule: JobSchedule, after: Date): Date {
+    const [hours, minutes] = schedule.time.split(':').map(Number)
+    const next = new Date(after.getFullYear(), after.getMonth(), after.getDate(), hours, minutes)
+
+    if (schedule.frequency === 'weekly') {
+        const weekday = schedule.weekday ?? 1
+        next.setDate(next.getDate() + ((weekday - next.getDay() + 7) % 7))
+        if (next <= after) next.setDate(next.getDate() + 7)
+    } else if (next <= after) {
+        next.setDate(next.getDate() + 1)
+    }
+    return next
+}
+
+/**
+ * Runs due jobs with the handler registered for their type. A completed slot
+ * is saved before the next one is considered, and slots missed while the bot
+ * was down are caught up with a single run.
+ */
+export function createJobRunner(store: JobStore, handlers: Record<string, JobHandler>): JobRunner {
+    return {
+        async runDue(now = new Date()) {
+            let completed = 0
+            const due = (await store.list()).filter(
+                job => new Date(job.nextRunAt).getTime() <= now.getTime()
+            )
+
+            for (const job of due) {
+                const handler = handlers[job.type]
+                if (!handler) {
+                    logger.warn('No handler for job type', { jobId: job.id, type: job.type })
+                    continue
+                }
+
+                try {
+                    if (!(await handler(job, now))) continue
+                } catch (error) {
+                    logger.error('Job failed, retrying on the next check', error, { jobId: job.id })
+                    continue
+                }
+
+                // El job pudo cancelarse o reprogramarse mientras se ejecutaba
+                const current = await store.get(job.id)
+                if (!current || current.nextRunAt !== job.nextRunAt) continue
+                await store.save({
+                    ...current,
+                    lastRunAt: now.toISOString(),
+                    nextRunAt: nextRunTime(job.schedule, now).toISOString()
+                })
+                completed++
+            }
+            return completed
+        }
+    }
+}
+
+/**
+ * Check for due jobs every `JOB_CHECK_SECONDS`
+ */
+export function startJobRunner(
+    handlers: Record<string, JobHandler>,
+    intervalMs: number = config.jobs.checkIntervalSeconds * 1000
+): NodeJS.Timeout {
+    const runner = createJobRunner(getJobStore(), handlers)
+    let running = false
+
+    const timer = setInterval(async () => {
+        if (running) return
+        running = true
+        try {
+            const completed = await runner.runDue()
+            if (completed > 0) {
+                logger.info('Scheduled jobs completed', { completed })
+            }
+        } catch (error) {
+            logger.error('Error running scheduled jobs', error)
+        } finally {
+            running = false
+        }
+    }, intervalMs)
+    timer.unref()
+    return timer
+}
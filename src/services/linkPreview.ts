@@ -0,0 +1,418 @@
+import { LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import http, { IncomingMessage } from 'http'
+import https from 'https'
+import { isIP, LookupFunction } from 'net'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+
+const logger = createLogger('LinkPreview')
+
+/**
+ * What a page says about itself, from its OpenGraph tags or oEmbed endpoint
+ */
+export interface LinkMetadata {
+    url: string
+    titulo?: string
+    descripcion?: string
+    sitio?: string
+}
+
+/**
+ * Looks up the metadata of a URL. Returns null when the page cannot be read;
+ * it never throws, so a slow or broken site only costs the preview.
+ */
+export interface LinkFetcher {
+    name: string
+    fetch(url: string): Promise<LinkMetadata | null>
+}
+
+export interface HttpLinkFetcherOptions {
+    timeoutMs: number
+    maxBytes: number
+    /**
+     * Allow localhost and private network addresses, or only the listed host
+     * names (tests with a local server)
+     */
+    allowPrivateHosts?: boolean | string[]
+    /**
+     * How host names are resolved before connecting (DNS by default)
+     */
+    resolve?: (hostname: string) => Promise<LookupAddress[]>
+}
+
+// Proveedores cuyo HTML no trae metadatos útiles sin JavaScript o sin aceptar cookies
+const OEMBED_PROVIDERS: { host: RegExp; endpoint: string }[] = [
+    { host: /(^|\.)(youtube\.com|youtu\.be)$/, endpoint: 'https://www.youtube.com/oembed' },
+    { host: /(^|\.)vimeo\.com$/, endpoint: 'https://vimeo.com/api/oembed.json' },
+    { host: /(^|\.)open\.spotify\.com$/, endpoint: 'https://open.spotify.com/oembed' }
+]
+
+const MAX_DESCRIPTION_CHARS = 300
+
+const MAX_REDIRECTS = 5
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+/**
+ * URLs in a message, in order and without duplicates or trailing punctuation
+ */
+export function extractUrls(text: string): string[] {
+    const matches = text.match(/https?:\/\/[^\s<>"']+/gi) || []
+    const urls = matches.map(url => url.replace(/[).,;:!?¡¿]+$/, ''))
+    return [...new Set(urls)]
+}
+
+/**
+ * The eight 16-bit groups of a valid IPv6 address, with "::" expanded and a
+ * trailing dotted IPv4 part (`::ffff:127.0.0.1`) converted to two groups
+ */
+function ipv6Groups(address: string): number[] {
+    let text = address.split('%')[0]
+    const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+    if (dotted) {
+        const [a, b, c, d] = dotted[2].split('.').map(Number)
+        text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+    }
+
+    const [head, tail] = text.split('::')
+    const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : [])
+    const start = parse(head)
+    const end = tail === undefined ? [] : parse(tail)
+    return [...start, ...new Array(8 - start.length - end.length).fill(0), ...end]
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet. IPv6 forms that embed an IPv4 address
+ * (`::ffff:7f00:1`, `::127.0.0.1`) are judged by that address; NAT64 and
+ * 6to4 prefixes are refused, as they can reach any IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const version = isIP(address)
+    if (version === 4) {
+        const [a, b, c] = address.split('.').map(Number)
+        return (
+            a === 10 ||
+            a === 127 ||
+            a === 0 ||
+            a >= 224 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 0 && c === 0) ||
+            (a === 192 && b === 168)
+        )
+    }
+    if (version === 6) {
+        const groups = ipv6Groups(address.toLowerCase())
+        const [first, second] = groups
+        if (groups.slice(0, 5).every(group => group === 0) && [0, 0xffff].includes(groups[5])) {
+            // "::" y "::1", o una dirección IPv4 compatible o mapeada
+            if (groups[5] === 0 && groups[6] === 0) return true
+            const ipv4 = [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255]
+            return isPrivateAddress(ipv4.join('.'))
+        }
+        return (
+            (first === 0x64 && second === 0xff9b) ||
+            first === 0x2002 ||
+            (first & 0xfe00) === 0xfc00 ||
+            (first & 0xffc0) === 0xfe80 ||
+            (first & 0xffc0) === 0xfec0 ||
+            (first & 0xff00) === 0xff00
+        )
+    }
+    return false
+}
+
+/**
+ * Whether a host is local by its name or its IP literal. Other names are
+ * checked once resolved, when connecting.
+ */
+function isPrivateHostName(hostname: string): boolean {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true
+    return isIP(host) ? isPrivateAddress(host) : false
+}
+
+function decodeEntities(text: string): string {
+    const named: Record<string, string> = {
+        amp: '&',
+        lt: '<',
+        gt: '>',
+        quot: '"',
+        apos: "'",
+        nbsp: ' '
+    }
+    return text
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_, name) => named[name])
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {}
+    const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(tag))) {
+        attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4]
+    }
+    return attributes
+}
+
+function truncate(text: string | undefined): string | undefined {
+    if (!text) return undefined
+    return text.length > MAX_DESCRIPTION_CHARS ? `${text.slice(0, MAX_DESCRIPTION_CHARS)}…` : text
+}
+
+/**
+ * Read OpenGraph, Twitter card and plain HTML metadata from a page. Also
+ * returns the page's oEmbed endpoint when it advertises one.
+ */
+export function parseHtmlMetadata(
+    html: string,
+    url: string
+): LinkMetadata & { oembedUrl?: string } {
+    const meta: Record<string, string> = {}
+    for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+        const attributes = parseAttributes(tag)
+        const key = (attributes.property || attributes.name || '').toLowerCase()
+        if (key && attributes.content && !(key in meta)) {
+            meta[key] = decodeEntities(attributes.content)
+        }
+    }
+
+    let oembedUrl: string | undefined
+    for (const tag of html.match(/<link\b[^>]*>/gi) || []) {
+        const attributes = parseAttributes(tag)
+        if (attributes.type === 'application/json+oembed' && attributes.href) {
+            oembedUrl = new URL(decodeEntities(attributes.href), url).toString()
+            break
+        }
+    }
+
+    const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]
+    return {
+        url,
+        titulo:
+            meta['og:title'] ||
+            meta['twitter:title'] ||
+            (title ? decodeEntities(title) : undefined),
+        descripcion: truncate(
+            meta['og:description'] || meta['twitter:description'] || meta['description']
+        ),
+        sitio: meta['og:site_name'] || new URL(url).hostname.replace(/^www\./, ''),
+        ...(oembedUrl ? { oembedUrl } : {})
+    }
+}
+
+/**
+ * Fetches pages over HTTP with a timeout and a cap on the bytes read, and
+ * prefers oEmbed for known providers and pages that advertise it
+ */
+export function createHttpLinkFetcher(options: HttpLinkFetcherOptions): LinkFetcher {
+    const resolveHost = options.resolve || (hostname => lookup(hostname, { all: true }))
+
+    function isAllowedHost(hostname: string): boolean {
+        const allowed = options.allowPrivateHosts
+        return allowed === true || (Array.isArray(allowed) && allowed.includes(hostname))
+    }
+
+    function isAllowed(url: URL): boolean {
+        if (!['http:', 'https:'].includes(url.protocol)) return false
+        if (isAllowedHost(url.hostname) || !isPrivateHostName(url.hostname)) return true
+        logger.warn('Refusing to fetch a private address', { url: url.toString() })
+        return false
+    }
+
+    /**
+     * Resolves host names for the connection itself and refuses private
+     * addresses. The socket connects to the address checked here, so a name
+     * that resolves elsewhere a second time (DNS rebinding) gets nowhere.
+     */
+    const checkedLookup: LookupFunction = (hostname, lookupOptions, callback) => {
+        resolveHost(hostname)
+            .then(addresses => {
+                if (addresses.length === 0) throw new Error(`Could not resolve ${hostname}`)
+                const isPrivate = addresses.some(entry => isPrivateAddress(entry.address))
+                if (isPrivate && !isAllowedHost(hostname)) {
+                    logger.warn('Refusing to fetch a private address', { hostname })
+                    throw new Error(`${hostname} resolves to a private address`)
+                }
+                if (lookupOptions.all) {
+                    callback(null, addresses)
+                } else {
+                    callback(null, addresses[0].address, addresses[0].family)
+                }
+            })
+            .catch(error => callback(error, ''))
+    }
+
+    function get(url: URL, accept: string, signal: AbortSignal): Promise<IncomingMessage> {
+        const client = url.protocol === 'https:' ? https : http
+        return new Promise((resolve, reject) => {
+            client
+                .get(
+                    url,
+                    {
+                        signal,
+                        lookup: checkedLookup,
+                        headers: {
+                            Accept: accept,
+                            'User-Agent': 'Mozilla/5.0 (compatible; IkigaiBot/1.0)'
+                        }
+                    },
+                    resolve
+                )
+                .on('error', reject)
+        })
+    }
+
+    /**
+     * Each redirect is followed by hand, so every hop is checked against
+     * private addresses before it is requested
+     */
+    async function request(url: string, accept: string, signal: AbortSignal) {
+        let current = new URL(url)
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            if (!isAllowed(current)) return null
+
+            const response = await get(current, accept, signal)
+            const location = response.headers.location
+            if (!REDIRECT_STATUSES.includes(response.statusCode || 0) || !location) return response
+
+            response.destroy()
+            current = new URL(location, current)
+        }
+        logger.debug('Too many redirects', { url })
+        return null
+    }
+
+    async function download(
+        url: string,
+        accept: string
+    ): Promise<{ body: string; type: string } | null> {
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), options.timeoutMs)
+        try {
+            const response = await request(url, accept, controller.signal)
+            if (!response) return null
+            const status = response.statusCode || 0
+            if (status < 200 || status >= 300) {
+                response.destroy()
+                logger.debug('Link fetch failed', { url, status })
+                return null
+            }
+
+            // Solo se leen los primeros maxBytes: los metadatos están en el <head>
+            const chunks: Buffer[] = []
+            let size = 0
+            for await (const chunk of response) {
+                chunks.push(chunk)
+                size += chunk.length
+                if (size >= options.maxBytes) break
+            }
+            response.destroy()
+
+            const body = Buffer.concat(chunks).subarray(0, options.maxBytes).toString('utf8')
+            return { body, type: response.headers['content-type'] || '' }
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+
+    async function fetchOEmbed(oembedUrl: string, url: string): Promise<LinkMetadata | null> {
+        const result = await download(oembedUrl, 'application/json')
+        if (!result) return null
+        const data = JSON.parse(result.body)
+        if (!data.title) return null
+        return {
+            url,
+            titulo: String(data.title),
+            sitio: data.provider_name ? String(data.provider_name) : undefined,
+            descripcion: data.author_name ? `De ${data.author_name}` : undefined
+        }
+    }
+
+    return {
+        name: 'http',
+
+        async fetch(url) {
+            try {
+                const parsed = new URL(url)
+                const provider = OEMBED_PROVIDERS.find(candidate =>
+                    candidate.host.test(parsed.hostname)
+                )
+                if (provider) {
+                    const endpoint = `${provider.endpoint}?format=json&url=${encodeURIComponent(url)}`
+                    const oembed = await fetchOEmbed(endpoint, url)
+                    if (oembed) return oembed
+                }
+
+                const page = await download(url, 'text/html,application/xhtml+xml')
+                if (!page || !page.type.includes('html')) return null
+
+                const { oembedUrl, ...metadata } = parseHtmlMetadata(page.body, url)
+                if (!metadata.titulo && oembedUrl) {
+                    return (await fetchOEmbed(oembedUrl, url)) || metadata
+                }
+                return metadata
+            } catch (error) {
+                logger.warn('Could not read link metadata', {
+                    url,
+                    error: error instanceof Error ? error.message : String(error)
+                })
+                return null
+            }
+        }
+    }
+}
+
+/**
+ * Metadata for the links in a message, skipping the ones that fail
+ */
+export async function enrichLinks(
+    text: string,
+    fetcher: LinkFetcher = getLinkFetcher(),
+    maxLinks: number = config.links.maxLinks
+): Promise<LinkMetadata[]> {
+    const urls = extractUrls(text).slice(0, maxLinks)
+    const results = await Promise.all(urls.map(url => fetcher.fetch(url)))
+    return results.filter((link): link is LinkMetadata => Boolean(link?.titulo))
+}
+
+/**
+ * The links block appended to the classification prompt
+ */
+export function formatLinksForPrompt(links: LinkMetadata[]): string {
+    return links
+        .map(link =>
+            [
+                `- URL: ${link.url}`,
+                link.titulo ? `  Título: ${link.titulo}` : '',
+                link.sitio ? `  Sitio: ${link.sitio}` : '',
+                link.descripcion ? `  Descripción: ${link.descripcion}` : ''
+            ]
+                .filter(Boolean)
+                .join('\n')
+        )
+        .join('\n')
+}
+
+let currentFetcher: LinkFetcher | null = null
+
+export function getLinkFetcher(): LinkFetcher {
+    if (!currentFetcher) {
+        currentFetcher = createHttpLinkFetcher({
+            timeoutMs: config.links.timeoutMs,
+            maxBytes: config.links.maxBytes
+        })
+    }
+    return currentFetcher
+}
+
+export function setLinkFetcher(fetcher: LinkFetcher | null): void {
+    currentFetcher = fetcher
+}
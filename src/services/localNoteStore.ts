@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { createLogger } from '../logger/index.js'
+import { readJsonFile, writeJsonFile } from '../store/jsonFile.js'
+import {
+    NoteAttachment,
+    NoteChanges,
+    NoteData,
+    NoteQuery,
+    NoteQueryResult,
+    NoteStore,
+    NotesCount,
+    StoredAttachment
+} from './noteStore.js'
+import { LinkMetadata } from './linkPreview.js'
+import { performIntelligentSearch } from './noteSearch.js'
+import { DateRange, isInDateRange } from './dateParser.js'
+import { matchesTags, sortAndLimit, toNoteQuery } from './noteQuery.js'
+
+const logger = createLogger('LocalNoteStore')
+
+interface LocalNote {
+    id: string
+    titulo: string
+    contenido: string
+    etiquetas: string[]
+    fechaCreacion: string
+    adjuntos?: StoredAttachment[]
+    autor?: string
+    fechaEvento?: string
+    enlaces?: LinkMetadata[]
+}
+
+interface LocalNotesFile {
+    notes: LocalNote[]
+}
+
+/**
+ * File-backed note store. The whole notebook lives in one JSON file that is
+ * loaded on first use and rewritten after every change; attachments are
+ * written to `mediaDir` next to it.
+ */
+export function createLocalNoteStore(
+    filePath: string,
+    mediaDir: string = path.join(path.dirname(filePath), 'media')
+): NoteStore {
+    let data: LocalNotesFile | null = null
+    let loading: Promise<LocalNotesFile> | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<LocalNotesFile> {
+        if (data) return data
+        if (!loading) {
+            loading = readJsonFile<LocalNotesFile>(filePath, { notes: [] }).then(file => {
+                data = file
+                return file
+            })
+            loading.catch(() => {
+                loading = null
+            })
+        }
+        return loading
+    }
+
+    function persist(): Promise<void> {
+        writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, data))
+        return writing
+    }
+
+    function toResult(note: LocalNote): NoteQueryResult {
+        return { ...note, etiquetas: [...note.etiquetas] }
+    }
+
+    async function saveAttachments(
+        noteId: string,
+        adjuntos: NoteAttachment[]
+    ): Promise<StoredAttachment[]> {
+        await fs.mkdir(mediaDir, { recursive: true })
+        return Promise.all(
+            adjuntos.map(async (adjunto, index) => {
+                const safeName = path.basename(adjunto.nombreArchivo).replace(/[^\w.-]+/g, '_')
+                const ruta = path.join(mediaDir, `${noteId}-${index}-${safeName}`)
+                await fs.writeFile(ruta, adjunto.data)
+                return { nombreArchivo: adjunto.nombreArchivo, mimetype: adjunto.mimetype, ruta }
+            })
+        )
+    }
+
+    async function searchNotes(query: NoteQuery): Promise<NoteQueryResult[]> {
+        try {
+            const file = await load()
+            let results = file.notes
+                .filter(note => matchesTags(note.etiquetas, query))
+                .filter(note => !query.fechas || isInDateRange(note.fechaCreacion, query.fechas))
+                .sort((a, b) => b.fechaCreacion.localeCompare(a.fechaCreacion))
+                .map(toResult)
+
+            if (query.palabrasClave) {
+                results = performIntelligentSearch(results, query.palabrasClave)
+            }
+
+            return sortAndLimit(results, query)
+        } catch (error) {
+            logger.error('Error al consultar notas locales:', error)
+            return []
+        }
+    }
+
+    return {
+        name: 'local',
+
+        async createNote(note: NoteData): Promise<string | false> {
+            try {
+                const file = await load()
+                const id = randomUUID()
+                const stored: LocalNote = {
+                    id,
+                    titulo: note.titulo,
+                    contenido: note.contenido,
+                    etiquetas: [...note.etiquetas],
+                    fechaCreacion: note.fechaCreacion || new Date().toISOString()
+                }
+                if (note.autor) {
+                    stored.autor = note.autor
+                }
+                if (note.fechaEvento) {
+                    stored.fechaEvento = note.fechaEvento
+                }
+                if (note.enlaces && note.enlaces.length > 0) {
+                    stored.enlaces = note.enlaces.map(enlace => ({ ...enlace }))
+                }
+                if (note.adjuntos && note.adjuntos.length > 0) {
+                    stored.adjuntos = await saveAttachments(id, note.adjuntos)
+                }
+                file.notes.push(stored)
+                await persist()
+
+                logger.info(`Nota creada en el almacén local: ${stored.id}`, {
+                    titulo: note.titulo,
+                    etiquetas: note.etiquetas
+                })
+                return stored.id
+            } catch (error) {
+                logger.error('Error al crear nota local:', error)
+                return false
+            }
+        },
+
+        searchNotes,
+
+        queryNotes(query?: string, etiqueta?: string, fechas?: DateRange) {
+            return searchNotes(toNoteQuery(query, etiqueta, fechas))
+        },
+
+        async getNote(noteId: string): Promise<NoteQueryResult | null> {
+            try {
+                const file = await load()
+                const note = file.notes.find(candidate => candidate.id === noteId)
+                return note ? toResult(note) : null
+            } catch (error) {
+                logger.error('Error al obtener nota local:', error)
+                return null
+            }
+        },
+
+        async updateNote(noteId: string, changes: NoteChanges): Promise<boolean> {
+            try {
+                const file = await load()
+                const note = file.notes.find(candidate => candidate.id === noteId)
+                if (!note) {
+                    logger.warn('Nota local no encontrada', { noteId })
+                    return false
+                }
+
+                if (changes.titulo !== undefined) note.titulo = changes.titulo
+                if (changes.contenido !== undefined) note.contenido = changes.contenido
+                await persist()
+                return true
+            } catch (error) {
+                logger.error('Error al actualizar nota local:', error)
+                return false
+            }
+        },
+
+        async updateNoteTags(noteId: string, newTags: string[]): Promise<boolean> {
+            try {
+                const file = await load()
+                const note = file.notes.find(candidate => candidate.id === noteId)
+                if (!note) {
+                    logger.warn('Nota local no encontrada', { noteId })
+                    return false
+                }
+
+                note.etiquetas = [...newTags]
+                await persist()
+                return true
+            } catch (error) {
+                logger.error('Error al actualizar etiquetas locales:', error)
+                return false
+            }
+        },
+
+        async replaceTag(from: string, to: string | null): Promise<string[] | false> {
+            try {
+                const file = await load()
+                const changed: string[] = []
+                file.notes.forEach(note => {
+                    if (!note.etiquetas.includes(from)) return
+                    const etiquetas = note.etiquetas.map(tag => (tag === from ? to : tag))
+                    note.etiquetas = [
+                        ...new Set(etiquetas.filter((tag): tag is string => Boolean(tag)))
+                    ]
+                    changed.push(note.id)
+                })
+                if (changed.length > 0) {
+                    await persist()
+                }
+
+                logger.info(`Etiqueta "${from}" reemplazada en el almacén local`, {
+                    to,
+                    notas: changed.length
+                })
+                return changed
+            } catch (error) {
+                logger.error('Error al reemplazar etiqueta local:', error)
+                return false
+            }
+        },
+
+        async deleteNote(noteId: string): Promise<boolean> {
+            try {
+                const file = await load()
+                const index = file.notes.findIndex(candidate => candidate.id === noteId)
+                if (index === -1) {
+                    logger.warn('Nota local no encontrada', { noteId })
+                    return false
+                }
+
+                const [removed] = file.notes.splice(index, 1)
+                await persist()
+                await Promise.all(
+                    (removed.adjuntos || []).map(adjunto => fs.rm(adjunto.ruta, { force: true }))
+                )
+
+                logger.info(`Nota eliminada del almacén local: ${noteId}`)
+                return true
+            } catch (error) {
+                logger.error('Error al eliminar nota local:', error)
+                return false
+            }
+        },
+
+        async getNotesCount(): Promise<NotesCount> {
+            try {
+                const file = await load()
+                const porEtiqueta: Record<string, number> = {}
+
+                file.notes.forEach(note => {
+                    note.etiquetas.forEach(etiqueta => {
+                        porEtiqueta[etiqueta] = (porEtiqueta[etiqueta] || 0) + 1
+                    })
+                })
+
+                return { total: file.notes.length, porEtiqueta }
+            } catch (error) {
+                logger.error('Error al obtener conteo de notas locales:', error)
+                return { total: 0, porEtiqueta: {} }
+            }
+        },
+
+        async getAvailableTags(): Promise<string[]> {
+            try {
+                const file = await load()
+                const tags = new Set<string>()
+                file.notes.forEach(note => note.etiquetas.forEach(tag => tags.add(tag)))
+                return [...tags].sort((a, b) => a.localeCompare(b))
+            } catch (error) {
+                logger.error('Error al obtener etiquetas locales:', error)
+                return []
+            }
+        }
+    }
+}
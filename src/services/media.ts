@@ -0,0 +1,117 @@
+import { downloadMediaMessage, WAMessage, WASocket } from 'baileys'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { NoteAttachment } from './noteStore.js'
+
+const logger = createLogger('Media')
+
+export type MediaKind = 'image' | 'video' | 'document' | 'audio'
+
+export interface IncomingMedia {
+    kind: MediaKind
+    mimetype: string
+    nombreArchivo: string
+    caption: string
+    size: number
+    /**
+     * True for WhatsApp voice notes (push-to-talk audio)
+     */
+    voiceNote: boolean
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'application/pdf': 'pdf',
+    'audio/ogg': 'ogg',
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'video/mp4': 'mp4'
+}
+
+const MEDIA_LABELS: Record<MediaKind, string> = {
+    image: 'imagen',
+    video: 'video',
+    document: 'documento',
+    audio: 'audio'
+}
+
+function defaultFileName(kind: MediaKind, mimetype: string): string {
+    const extension = EXTENSIONS[mimetype.split(';')[0]] || 'bin'
+    return `${MEDIA_LABELS[kind]}-${Date.now()}.${extension}`
+}
+
+/**
+ * Detect the media part of a message, if any. Documents sent with a caption
+ * arrive wrapped in `documentWithCaptionMessage`.
+ */
+export function getIncomingMedia(message: WAMessage): IncomingMedia | null {
+    const content = message.message
+    if (!content) return null
+
+    const document =
+        content.documentMessage || content.documentWithCaptionMessage?.message?.documentMessage
+    const candidates: [MediaKind, any][] = [
+        ['image', content.imageMessage],
+        ['video', content.videoMessage],
+        ['document', document],
+        ['audio', content.audioMessage]
+    ]
+
+    const found = candidates.find(([, media]) => Boolean(media))
+    if (!found) return null
+
+    const [kind, media] = found
+    const mimetype: string = media.mimetype || 'application/octet-stream'
+
+    return {
+        kind,
+        mimetype,
+        nombreArchivo: media.fileName || defaultFileName(kind, mimetype),
+        caption: media.caption || '',
+        size: Number(media.fileLength || 0),
+        voiceNote: kind === 'audio' && Boolean(media.ptt)
+    }
+}
+
+export function describeMediaKind(kind: MediaKind): string {
+    return MEDIA_LABELS[kind]
+}
+
+export function isMediaTooLarge(media: IncomingMedia): boolean {
+    return media.size > config.media.maxBytes
+}
+
+/**
+ * Download the media of a message into memory, asking WhatsApp for a
+ * re-upload when the file has already expired from its servers
+ */
+export async function downloadIncomingMedia(
+    sock: WASocket,
+    message: WAMessage,
+    media: IncomingMedia
+): Promise<NoteAttachment> {
+    const data = (await downloadMediaMessage(
+        message,
+        'buffer',
+        {},
+        {
+            logger: createLogger('Baileys', { level: 'warn' }).getPinoInstance(),
+            reuploadRequest: sock.updateMediaMessage
+        }
+    )) as Buffer
+
+    logger.info('Media downloaded', {
+        kind: media.kind,
+        mimetype: media.mimetype,
+        bytes: data.length
+    })
+
+    return {
+        nombreArchivo: media.nombreArchivo,
+        mimetype: media.mimetype,
+        data
+    }
+}
@@ -0,0 +1,55 @@
+import { LastNoteContext } from '../store/conversationStore.js'
+import { NoteQueryResult, NoteStore } from './noteStore.js'
+
+// Relevancia mínima de una coincidencia exacta en performIntelligentSearch
+const EXACT_MATCH_RELEVANCE = 10
+
+export type Confirmation = 'yes' | 'no'
+
+// Comparadas sin acentos
+const YES_WORDS = ['si', 'confirmo', 'dale', 'ok', 'claro', 'borrala', 'eliminala']
+const NO_WORDS = ['no', 'cancela', 'cancelar', 'mejor no', 'dejala']
+
+/**
+ * Find the note an edit, append or delete refers to: by title search when the
+ * user named it, otherwise the note the conversation was last about.
+ * Only exact matches count, so a vague title never picks an unrelated note,
+ * not even one semantic search ranks above them.
+ */
+export async function resolveTargetNote(
+    store: NoteStore,
+    target: string | undefined,
+    lastNote: LastNoteContext | undefined
+): Promise<NoteQueryResult | null> {
+    if (target && target.trim()) {
+        // Con búsqueda semántica, una nota solo parecida puede quedar por encima de la exacta
+        const results = await store.queryNotes(target.trim())
+        return results.find(note => (note.relevancia ?? 0) >= EXACT_MATCH_RELEVANCE) ?? null
+    }
+
+    if (lastNote) {
+        return store.getNote(lastNote.id)
+    }
+
+    return null
+}
+
+/**
+ * Read a yes/no answer to a confirmation question. Anything else returns null,
+ * so the message can be handled as a new request.
+ */
+export function parseConfirmation(text: string): Confirmation | null {
+    const answer = text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[¡!¿?.,]/g, '')
+        .trim()
+
+    const startsWith = (words: string[]) =>
+        words.some(word => answer === word || answer.startsWith(`${word} `))
+
+    if (startsWith(NO_WORDS)) return 'no'
+    if (startsWith(YES_WORDS)) return 'yes'
+    return null
+}
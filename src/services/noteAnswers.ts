@@ -0,0 +1,111 @@
+import { ChatMessage, completeTask } from '../ai/llm.js'
+import { createLogger } from '../logger/index.js'
+import { findSimilarNotes, NoteQueryResult, NoteStore } from './noteStore.js'
+
+const logger = createLogger('NoteAnswers')
+
+// Notas enviadas como contexto, y cuánto de cada una
+const MAX_CONTEXT_NOTES = 5
+const MAX_NOTE_CHARS = 1500
+
+// Lo que responde el modelo cuando las notas no contienen la respuesta
+const NO_ANSWER = 'SIN_RESPUESTA'
+
+export interface NoteAnswer {
+    answer: string
+    /**
+     * The notes the answer cites, in the order they were given to the model
+     */
+    sources: NoteQueryResult[]
+}
+
+/**
+ * Collect the notes that may answer a question: a search for the keywords the
+ * classifier picked (semantic when enabled), then notes similar to the whole
+ * question. Duplicates are dropped and the best matches kept.
+ */
+export async function findNotesForQuestion(
+    store: NoteStore,
+    question: string,
+    keywords?: string
+): Promise<NoteQueryResult[]> {
+    const [byKeywords, similar] = await Promise.all([
+        store.queryNotes(keywords || question),
+        findSimilarNotes(question, store)
+    ])
+
+    const notes = new Map<string, NoteQueryResult>()
+    for (const note of [...byKeywords, ...similar]) {
+        if (!notes.has(note.id)) notes.set(note.id, note)
+    }
+    return [...notes.values()].slice(0, MAX_CONTEXT_NOTES)
+}
+
+function formatContext(notes: NoteQueryResult[]): string {
+    return notes
+        .map((note, index) => {
+            const contenido =
+                note.contenido.length > MAX_NOTE_CHARS
+                    ? `${note.contenido.slice(0, MAX_NOTE_CHARS)}...`
+                    : note.contenido
+            return `[Nota ${index + 1}] Título: ${note.titulo}\nEtiquetas: ${note.etiquetas.join(', ')}\n${contenido}`
+        })
+        .join('\n\n')
+}
+
+function answerMessages(question: string, notes: NoteQueryResult[]): ChatMessage[] {
+    return [
+        {
+            role: 'system',
+            content: `Eres Ikigai y respondes preguntas usando SOLO las notas del usuario que aparecen abajo.
+- Responde en español, de forma breve y directa.
+- Cada vez que uses una nota, cita su título entre comillas, por ejemplo: según "Arepas venezolanas", ...
+- No uses conocimiento propio ni inventes datos que no estén en las notas.
+- Si las notas no contienen la respuesta, responde únicamente ${NO_ANSWER}.`
+        },
+        {
+            role: 'user',
+            content: `NOTAS:\n\n${formatContext(notes)}\n\nPREGUNTA: ${question}`
+        }
+    ]
+}
+
+function normalizeTitle(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Ask the model to answer from the given notes. Returns null when there are
+ * no notes or the model says they do not contain the answer.
+ */
+export async function answerFromNotes(
+    question: string,
+    notes: NoteQueryResult[]
+): Promise<NoteAnswer | null> {
+    if (notes.length === 0) return null
+
+    const answer = (await completeTask('answer', answerMessages(question, notes))).trim()
+    if (!answer || answer.includes(NO_ANSWER)) {
+        logger.info('Notes do not answer the question', { notes: notes.length })
+        return null
+    }
+
+    // Si el modelo no nombró ninguna nota, se citan todas las que recibió
+    const normalized = normalizeTitle(answer)
+    const cited = notes.filter(note => normalized.includes(normalizeTitle(note.titulo)))
+    return { answer, sources: cited.length > 0 ? cited : notes }
+}
+
+export function formatAnswer({ answer, sources }: NoteAnswer): string {
+    const list = sources.map((note, index) => `${index + 1}. ${note.titulo}`).join('\n')
+    return `${answer}\n\n📚 Fuentes:\n${list}\n\n👉 Responde con el número de una nota para verla completa`
+}
+
+export function formatNoAnswer(question: string, hasNotes: boolean): string {
+    return hasNotes
+        ? `🤔 Revisé tus notas relacionadas, pero ninguna responde a "${question}". No quiero inventarte una respuesta.`
+        : `🤔 No encontré notas sobre "${question}", así que no puedo responderte. ¿Quieres guardar algo sobre el tema?`
+}
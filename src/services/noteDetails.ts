@@ -0,0 +1,100 @@
+import { NoteQueryResult } from './noteStore.js'
+
+export type ResultSelection = { type: 'item'; number: number } | { type: 'more' }
+
+const ORDINALS: Record<string, number> = {
+    primer: 1,
+    primera: 1,
+    primero: 1,
+    segunda: 2,
+    segundo: 2,
+    tercer: 3,
+    tercera: 3,
+    tercero: 3,
+    cuarta: 4,
+    cuarto: 4,
+    quinta: 5,
+    quinto: 5,
+    sexta: 6,
+    sexto: 6,
+    septima: 7,
+    septimo: 7,
+    octava: 8,
+    octavo: 8,
+    novena: 9,
+    noveno: 9,
+    decima: 10,
+    decimo: 10
+}
+
+const ITEM_PATTERN = new RegExp(
+    '^(?:(?:ver|abre|abrir|muestrame|mostrar|dame|quiero ver)\\s+)?' +
+        '(?:(?:la|el)\\s+)?(?:nota\\s+)?(?:(?:numero|#)\\s*)?' +
+        `(\\d{1,3}|${Object.keys(ORDINALS).join('|')})(?:\\s+nota)?$`
+)
+const MORE_PATTERN =
+    /^(?:(?:ver|muestrame|mostrar|dame)\s+)?(?:mas|mas notas|(?:las\s+)?siguientes|siguiente pagina)$/
+
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]"']+/g
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[¡!¿?.,]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+/**
+ * Read a follow-up to a result list: "2", "la segunda", "ver la nota 3" pick
+ * a note by its number in the list; "ver más" asks for the next page
+ */
+export function parseResultSelection(text: string): ResultSelection | null {
+    const normalized = normalize(text)
+
+    if (MORE_PATTERN.test(normalized)) {
+        return { type: 'more' }
+    }
+
+    const match = normalized.match(ITEM_PATTERN)
+    if (!match) return null
+
+    const number = ORDINALS[match[1]] ?? parseInt(match[1], 10)
+    return number > 0 ? { type: 'item', number } : null
+}
+
+function formatDate(iso: string): string {
+    const date = new Date(iso)
+    if (Number.isNaN(date.getTime())) return iso
+    return date.toLocaleDateString('es-ES', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+/**
+ * Full view of one note: the whole content, every tag, when it was saved and its links
+ */
+export function formatNoteDetail(note: NoteQueryResult): string {
+    let response = `📄 *${note.titulo}*\n\n`
+
+    if (note.contenido) {
+        response += `${note.contenido}\n\n`
+    }
+
+    if (note.etiquetas.length > 0) {
+        response += `🏷️ ${note.etiquetas.join(', ')}\n`
+    }
+    response += `📅 ${formatDate(note.fechaCreacion)}\n`
+
+    const links = new Set(note.contenido.match(URL_PATTERN) || [])
+    if (note.url) links.add(note.url)
+    if (links.size > 0) {
+        response += `🔗 ${[...links].join('\n🔗 ')}\n`
+    }
+
+    for (const adjunto of note.adjuntos || []) {
+        response += `📎 ${adjunto.nombreArchivo}\n`
+    }
+
+    return response.trimEnd()
+}
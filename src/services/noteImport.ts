@@ -0,0 +1,405 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { readJsonFile, writeJsonFile } from '../store/jsonFile.js'
+import { findDuplicateNote } from './duplicates.js'
+import { classifyIntent, IntentResult } from './intentClassifier.js'
+import { enrichLinks, LinkMetadata } from './linkPreview.js'
+import { DEFAULT_NOTEBOOK, Notebook, NoteData, NoteStore } from './noteStore.js'
+import { matchTag } from './tags.js'
+
+const logger = createLogger('Import')
+
+/**
+ * One note to import, as read from a chat export or a Markdown file
+ */
+export interface ImportEntry {
+    /**
+     * Where it comes from, for the output: "chat.txt:120" or "recetas/arepas.md"
+     */
+    origen: string
+    texto: string
+    /**
+     * When it was written, as an ISO date-time
+     */
+    fecha?: string
+    autor?: string
+    /**
+     * Title and tags given by the source (Markdown front matter); the
+     * classifier fills in whatever is missing
+     */
+    titulo?: string
+    etiquetas?: string[]
+}
+
+export type ImportStatus = 'created' | 'duplicate' | 'imported' | 'failed'
+
+export interface ImportResult {
+    entry: ImportEntry
+    /**
+     * `imported` entries were already imported by an earlier run
+     */
+    status: ImportStatus
+    note?: NoteData
+    id?: string
+    /**
+     * Title of the note the entry repeats
+     */
+    duplicada?: string
+}
+
+export interface ImportSummary {
+    total: number
+    creadas: number
+    duplicadas: number
+    yaImportadas: number
+    fallidas: number
+}
+
+export interface ImportOptions {
+    store: NoteStore
+    /**
+     * Classify and check for duplicates, but write neither notes nor progress
+     */
+    dryRun?: boolean
+    batchSize?: number
+    /**
+     * The notebook `store` writes to, which picks the default `progressPath`
+     */
+    notebook?: Notebook
+    progressPath?: string
+    classify?: (texto: string, store: NoteStore, links: LinkMetadata[]) => Promise<IntentResult>
+    onResult?: (result: ImportResult) => void
+}
+
+interface ImportProgress {
+    importadas: string[]
+}
+
+const WHATSAPP_HEADER =
+    /^\[?(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*([ap])\.?\s*m\.?)?\]?\s+(?:-\s+)?(.*)$/i
+const OMITTED_MESSAGE =
+    /^(<?(multimedia|media|archivo|imagen|image|video|audio|sticker|gif|documento|document) (omitido|omitida|omitted)>?|<(adjunto|attached): .*>|se elimin(o|ó) este mensaje\.?|eliminaste este mensaje\.?|this message was deleted\.?|you deleted this message\.?|null)$/i
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown']
+const MAX_TITLE_LENGTH = 60
+
+function whatsAppDate(match: RegExpMatchArray, monthFirst: boolean): string | undefined {
+    const day = parseInt(match[monthFirst ? 2 : 1], 10)
+    const month = parseInt(match[monthFirst ? 1 : 2], 10)
+    let year = parseInt(match[3], 10)
+    if (year < 100) year += 2000
+    let hour = parseInt(match[4], 10)
+    const meridiem = match[6]?.toLowerCase()
+    if (meridiem) hour = (hour % 12) + (meridiem === 'p' ? 12 : 0)
+
+    const date = new Date(year, month - 1, day, hour, parseInt(match[5], 10))
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * The messages of a WhatsApp chat export (.txt), in the Android ("12/03/21,
+ * 14:32 - Ana: ...") or iPhone ("[12/03/21, 14:32:05] Ana: ...") format.
+ * Messages spanning several lines are kept together; system messages and
+ * omitted media are skipped. With `autor` only that sender's messages are read.
+ */
+export function parseWhatsAppExport(
+    text: string,
+    origen = 'chat.txt',
+    autor?: string
+): ImportEntry[] {
+    const lines = text
+        .replace(/\r\n?/g, '\n')
+        .replace(/[\u00a0\u202f]/g, ' ')
+        .replace(/[\u200e\u200f]/g, '')
+        .split('\n')
+
+    const headers = lines.map(line => line.match(WHATSAPP_HEADER))
+    // Los exportes en inglés de EE. UU. ponen el mes primero: se nota en cuanto un día pasa de 12
+    const monthFirst =
+        headers.some(header => header && parseInt(header[2], 10) > 12) &&
+        !headers.some(header => header && parseInt(header[1], 10) > 12)
+
+    const messages: ImportEntry[] = []
+    let current: ImportEntry | null = null
+    lines.forEach((line, index) => {
+        const header = headers[index]
+        if (!header) {
+            if (current) current.texto += `\n${line}`
+            return
+        }
+
+        // Sin "Nombre: " es un mensaje del sistema (cifrado, cambios del grupo)
+        const separator = header[7].indexOf(': ')
+        current =
+            separator > 0
+                ? {
+                      origen: `${origen}:${index + 1}`,
+                      autor: header[7].slice(0, separator).trim(),
+                      texto: header[7].slice(separator + 2),
+                      fecha: whatsAppDate(header, monthFirst)
+                  }
+                : null
+        if (current) messages.push(current)
+    })
+
+    const wanted = autor?.trim().toLowerCase()
+    return messages
+        .map(message => ({ ...message, texto: message.texto.trim() }))
+        .filter(message => message.texto && !OMITTED_MESSAGE.test(message.texto))
+        .filter(message => !wanted || message.autor!.toLowerCase() === wanted)
+}
+
+function unquote(value: string): string {
+    return value.trim().replace(/^["']|["']$/g, '')
+}
+
+function parseFrontMatter(block: string): Record<string, string | string[]> {
+    const fields: Record<string, string | string[]> = {}
+    let lastKey: string | null = null
+    for (const line of block.split('\n')) {
+        const item = line.match(/^\s*-\s+(.+)$/)
+        const field = line.match(/^([^\s:-][^:]*?)\s*:\s*(.*)$/)
+        if (item && lastKey) {
+            const list = Array.isArray(fields[lastKey]) ? (fields[lastKey] as string[]) : []
+            fields[lastKey] = [...list, unquote(item[1])]
+        } else if (field) {
+            lastKey = field[1].toLowerCase()
+            const value = field[2].trim()
+            fields[lastKey] = value.startsWith('[')
+                ? value
+                      .replace(/^\[|\]$/g, '')
+                      .split(',')
+                      .map(unquote)
+                      .filter(Boolean)
+                : unquote(value)
+        }
+    }
+    return fields
+}
+
+function asList(value: string | string[] | undefined): string[] {
+    if (!value) return []
+    const list = Array.isArray(value) ? value : value.split(',')
+    return list.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)
+}
+
+/**
+ * A Markdown note, with the title, tags and date of its front matter
+ * (`title`, `tags`, `date` or their Spanish names) when it has one. Without
+ * a title in the front matter the first "# " heading is used. Empty files
+ * give null.
+ */
+export function parseMarkdownNote(markdown: string, origen: string): ImportEntry | null {
+    const text = markdown.replace(/\r\n?/g, '\n')
+    const frontMatter = text.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/)
+    const fields = frontMatter ? parseFrontMatter(frontMatter[1]) : {}
+    const body = (frontMatter ? text.slice(frontMatter[0].length) : text).trim()
+
+    const first = (...keys: string[]): string | undefined => {
+        const value = keys.map(key => fields[key]).find(value => typeof value === 'string' && value)
+        return value as string | undefined
+    }
+    const titulo = first('title', 'titulo', 'título') || body.match(/^#\s+(.+)$/m)?.[1].trim()
+    const etiquetas = asList(fields.tags || fields.etiquetas || fields.categories)
+    const rawDate = first('date', 'created', 'fecha')
+    const date = rawDate ? new Date(rawDate) : null
+
+    if (!body && !titulo) return null
+    return {
+        origen,
+        texto: body || titulo!,
+        ...(titulo ? { titulo } : {}),
+        ...(etiquetas.length > 0 ? { etiquetas } : {}),
+        ...(date && !Number.isNaN(date.getTime()) ? { fecha: date.toISOString() } : {})
+    }
+}
+
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+    const files: string[] = []
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name)
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+            files.push(...(await listMarkdownFiles(fullPath)))
+        } else if (MARKDOWN_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+            files.push(fullPath)
+        }
+    }
+    return files.sort()
+}
+
+/**
+ * The entries of a WhatsApp export (.txt), a Markdown file or a folder of Markdown files
+ */
+export async function readImportEntries(source: string, autor?: string): Promise<ImportEntry[]> {
+    const stats = await fs.stat(source)
+    if (stats.isDirectory()) {
+        const entries: ImportEntry[] = []
+        for (const file of await listMarkdownFiles(source)) {
+            const entry = parseMarkdownNote(
+                await fs.readFile(file, 'utf8'),
+                path.relative(source, file)
+            )
+            if (entry) entries.push(entry)
+        }
+        return entries
+    }
+
+    const text = await fs.readFile(source, 'utf8')
+    if (MARKDOWN_EXTENSIONS.includes(path.extname(source).toLowerCase())) {
+        const entry = parseMarkdownNote(text, path.basename(source))
+        return entry ? [entry] : []
+    }
+    return parseWhatsAppExport(text, path.basename(source), autor)
+}
+
+/**
+ * Identifies an entry across runs, so an interrupted import can resume
+ */
+export function importKey(entry: ImportEntry): string {
+    const text = entry.texto.replace(/\s+/g, ' ').trim()
+    return createHash('sha1')
+        .update(`${entry.fecha || ''}\n${text}`)
+        .digest('hex')
+}
+
+function fallbackTitle(texto: string): string {
+    const line = texto.split('\n').find(candidate => candidate.trim()) || texto
+    const title = line.replace(/^#+\s*/, '').trim()
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title
+}
+
+/**
+ * The note for an entry: the classifier names and tags it, but the original
+ * text is kept as the content, and so are the title and tags the source gives
+ */
+async function prepareNote(
+    entry: ImportEntry,
+    store: NoteStore,
+    available: string[],
+    classify: NonNullable<ImportOptions['classify']>
+): Promise<NoteData> {
+    const enlaces = config.links.enabled ? await enrichLinks(entry.texto) : []
+    const intent = await classify(entry.texto, store, enlaces)
+    const classified = intent.type === 'save_note' ? intent : null
+
+    const etiquetas = entry.etiquetas
+        ? [...new Set(entry.etiquetas.map(tag => matchTag(available, tag) || tag))]
+        : classified?.etiquetas || []
+    return {
+        titulo: entry.titulo || classified?.titulo || fallbackTitle(entry.texto),
+        contenido: entry.texto,
+        etiquetas: etiquetas.length > 0 ? etiquetas : ['Otros'],
+        ...(entry.fecha ? { fechaCreacion: entry.fecha } : {}),
+        ...(enlaces.length > 0 ? { enlaces } : {})
+    }
+}
+
+/**
+ * The default progress file of a notebook: `IMPORT_PROGRESS_PATH` for the
+ * default one, and a file next to it named after the notebook for the others
+ */
+export function importProgressPath(notebook: Notebook = DEFAULT_NOTEBOOK): string {
+    const progressPath = config.imports.progressPath
+    if (notebook.id === DEFAULT_NOTEBOOK.id) return progressPath
+    const { dir, name, ext } = path.parse(progressPath)
+    return path.join(dir, `${name}-${notebook.id.replace(/[^\w.-]+/g, '_')}${ext}`)
+}
+
+/**
+ * Import entries into a notebook through the normal create path. Entries are
+ * classified `batchSize` at a time and written in order; after every batch
+ * the keys of the finished entries are saved to `progressPath`, so running
+ * the import again skips them. Entries that repeat an existing note, or an
+ * earlier entry, are not written.
+ */
+export async function importNotes(
+    entries: ImportEntry[],
+    options: ImportOptions
+): Promise<ImportSummary> {
+    const { store, dryRun = false, onResult } = options
+    const batchSize = Math.max(1, options.batchSize || config.imports.batchSize)
+    const progressPath = options.progressPath || importProgressPath(options.notebook)
+    const classify = options.classify || classifyIntent
+
+    // Un ensayo lee el progreso para mostrar lo ya importado, pero no lo escribe
+    const progress = await readJsonFile<ImportProgress>(progressPath, { importadas: [] })
+    const imported = new Set(progress.importadas)
+    const seen = new Set<string>()
+    const available = await store.getAvailableTags()
+    const summary: ImportSummary = {
+        total: entries.length,
+        creadas: 0,
+        duplicadas: 0,
+        yaImportadas: 0,
+        fallidas: 0
+    }
+    const report = (result: ImportResult) => {
+        if (result.status === 'created') summary.creadas++
+        if (result.status === 'duplicate') summary.duplicadas++
+        if (result.status === 'imported') summary.yaImportadas++
+        if (result.status === 'failed') summary.fallidas++
+        onResult?.(result)
+    }
+
+    for (let start = 0; start < entries.length; start += batchSize) {
+        const batch = entries
+            .slice(start, start + batchSize)
+            .map(entry => ({ entry, key: importKey(entry) }))
+        const pending = batch.filter(({ key }) => !imported.has(key))
+        const notes = await Promise.all(
+            pending.map(({ entry }) =>
+                prepareNote(entry, store, available, classify).catch(error => {
+                    logger.error('Failed to classify imported entry', {
+                        origen: entry.origen,
+                        error
+                    })
+                    return null
+                })
+            )
+        )
+
+        for (const { entry, key } of batch) {
+            if (imported.has(key)) {
+                report({ entry, status: 'imported' })
+                continue
+            }
+            const note = notes[pending.findIndex(item => item.key === key)]
+            if (!note) {
+                report({ entry, status: 'failed' })
+                continue
+            }
+
+            // Los repetidos dentro del mismo archivo no están en el cuaderno durante un ensayo
+            const textKey = entry.texto.replace(/\s+/g, ' ').trim().toLowerCase()
+            const duplicate = seen.has(textKey) ? null : await findDuplicateNote(store, note)
+            if (seen.has(textKey) || duplicate) {
+                report({ entry, status: 'duplicate', note, duplicada: duplicate?.note.titulo })
+                if (!dryRun) imported.add(key)
+                continue
+            }
+            seen.add(textKey)
+
+            if (dryRun) {
+                report({ entry, status: 'created', note })
+                continue
+            }
+            const id = await store.createNote(note)
+            if (!id) {
+                report({ entry, status: 'failed', note })
+                continue
+            }
+            imported.add(key)
+            report({ entry, status: 'created', note, id })
+        }
+
+        if (!dryRun) {
+            await writeJsonFile(progressPath, { importadas: [...imported] })
+        }
+    }
+
+    logger.info('Import finished', { ...summary, dryRun })
+    return summary
+}
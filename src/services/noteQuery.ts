@@ -0,0 +1,120 @@
+import { DateRange, parseDateRange } from './dateParser.js'
+import { QueryIntent } from './intentClassifier.js'
+import { NoteQuery, NoteQueryResult } from './noteStore.js'
+
+// Límite de las consultas "recent"
+const RECENT_LIMIT = 10
+
+/**
+ * The NoteQuery behind the `queryNotes(query, etiqueta, fechas)` shorthand
+ */
+export function toNoteQuery(query?: string, etiqueta?: string, fechas?: DateRange): NoteQuery {
+    return {
+        palabrasClave: query || undefined,
+        etiquetas: etiqueta ? [etiqueta] : undefined,
+        fechas
+    }
+}
+
+export function matchesTags(etiquetas: string[], query: NoteQuery): boolean {
+    if (!query.etiquetas || query.etiquetas.length === 0) return true
+    return query.modoEtiquetas === 'and'
+        ? query.etiquetas.every(tag => etiquetas.includes(tag))
+        : query.etiquetas.some(tag => etiquetas.includes(tag))
+}
+
+/**
+ * Apply the requested order and limit to results that are already filtered.
+ * Keyword results arrive sorted by relevance, everything else newest first.
+ */
+export function sortAndLimit(notes: NoteQueryResult[], query: NoteQuery): NoteQueryResult[] {
+    let sorted = notes
+    if (query.orden === 'antiguas') {
+        sorted = [...notes].sort((a, b) => a.fechaCreacion.localeCompare(b.fechaCreacion))
+    } else if (query.orden === 'recientes' && query.palabrasClave) {
+        sorted = [...notes].sort((a, b) => b.fechaCreacion.localeCompare(a.fechaCreacion))
+    }
+    return query.limite ? sorted.slice(0, query.limite) : sorted
+}
+
+/**
+ * How to name a search in a reply: `en "Recetas" con "pollo" de este mes`
+ */
+export function describeNoteQuery(query: NoteQuery): string {
+    const parts: string[] = []
+    if (query.etiquetas && query.etiquetas.length > 0) {
+        const joiner = query.modoEtiquetas === 'and' ? ' y ' : ' o '
+        parts.push(`en ${query.etiquetas.map(tag => `"${tag}"`).join(joiner)}`)
+    }
+    if (query.palabrasClave) {
+        parts.push(`con "${query.palabrasClave}"`)
+    }
+    if (query.fechas) {
+        parts.push(
+            query.fechas.label.startsWith('desde') || query.fechas.label.startsWith('antes')
+                ? query.fechas.label
+                : `de ${query.fechas.label}`
+        )
+    }
+    return parts.join(' ')
+}
+
+export interface BuiltNoteQuery {
+    query: NoteQuery
+    /**
+     * How the reply presents the results; refined queries are shown as a "search"
+     */
+    queryType: QueryIntent['queryType']
+    /**
+     * The parameter shown in the reply: tag, keywords, date label or a full description
+     */
+    descripcion?: string
+}
+
+/**
+ * Turn a classified query into a NoteQuery. The query type gives the base
+ * filter and `filtros`, when present, refine it. Date expressions are parsed
+ * here, falling back to the original message; null means a date was asked
+ * for but could not be understood.
+ */
+export function buildNoteQuery(intent: QueryIntent, message: string): BuiltNoteQuery | null {
+    const filtros = intent.filtros || {}
+
+    let fechas: DateRange | undefined
+    const dateExpression = intent.queryType === 'by_date' ? intent.parameter : filtros.fechas
+    if (intent.queryType === 'by_date' || filtros.fechas) {
+        fechas = parseDateRange(dateExpression || '') || parseDateRange(message) || undefined
+        if (!fechas) return null
+    }
+
+    const query: NoteQuery = {
+        etiquetas: filtros.etiquetas,
+        modoEtiquetas: filtros.modoEtiquetas,
+        palabrasClave: filtros.palabrasClave,
+        fechas,
+        orden: filtros.orden,
+        limite: filtros.limite
+    }
+
+    switch (intent.queryType) {
+        case 'by_tag':
+            query.etiquetas = [...new Set([intent.parameter!, ...(query.etiquetas || [])])]
+            query.modoEtiquetas = query.modoEtiquetas || 'and'
+            break
+        case 'by_keyword':
+            query.palabrasClave = intent.parameter
+            break
+        case 'recent':
+            query.limite = query.limite || RECENT_LIMIT
+            break
+    }
+
+    if (intent.queryType === 'search' || Object.keys(filtros).length > 0) {
+        return { query, queryType: 'search', descripcion: describeNoteQuery(query) }
+    }
+    return {
+        query,
+        queryType: intent.queryType,
+        descripcion: intent.queryType === 'by_date' ? fechas!.label : intent.parameter
+    }
+}
@@ -0,0 +1,214 @@
+import { NoteQueryResult } from './noteStore.js'
+import { logger } from '../logger/index.js'
+
+const STOP_WORDS = [
+    'el',
+    'la',
+    'de',
+    'que',
+    'y',
+    'a',
+    'en',
+    'un',
+    'es',
+    'se',
+    'no',
+    'te',
+    'lo',
+    'le',
+    'da',
+    'su',
+    'por',
+    'son',
+    'con',
+    'para',
+    'las',
+    'del',
+    'los'
+]
+
+/**
+ * Split a search query into the meaningful words used for matching
+ */
+export function extractQueryWords(query: string): string[] {
+    return query
+        .toLowerCase()
+        .trim()
+        .split(/\s+/)
+        .filter(word => word.length > 2 && !STOP_WORDS.includes(word))
+}
+
+export function performIntelligentSearch(
+    notes: NoteQueryResult[],
+    query: string
+): NoteQueryResult[] {
+    const queryLower = query.toLowerCase().trim()
+
+    const queryWords = extractQueryWords(queryLower)
+
+    const exactMatches = searchExactMatches(notes, queryLower, queryWords)
+
+    if (exactMatches.length > 0) {
+        logger.info('Found exact matches', {
+            query: query,
+            exactMatchesCount: exactMatches.length
+        })
+        return exactMatches
+    }
+
+    const synonymMatches = searchWithSynonyms(notes, queryWords)
+
+    if (synonymMatches.length > 0) {
+        logger.info('Found synonym matches', {
+            query: query,
+            synonymMatchesCount: synonymMatches.length
+        })
+        return synonymMatches
+    }
+
+    const fuzzyMatches = searchFuzzy(notes, queryWords)
+
+    logger.info('Search completed', {
+        query: query,
+        exactMatches: 0,
+        synonymMatches: 0,
+        fuzzyMatches: fuzzyMatches.length
+    })
+
+    return fuzzyMatches
+}
+
+function searchExactMatches(
+    notes: NoteQueryResult[],
+    queryLower: string,
+    queryWords: string[]
+): NoteQueryResult[] {
+    const resultsWithRelevance = notes.map(note => {
+        let relevancia = 0
+        const coincidencias: string[] = []
+
+        const tituloLower = note.titulo.toLowerCase()
+        const contenidoLower = note.contenido.toLowerCase()
+        const etiquetasText = note.etiquetas.join(' ').toLowerCase()
+
+        if (tituloLower.includes(queryLower)) {
+            relevancia += 30
+            coincidencias.push(`Título contiene exactamente: "${queryLower}"`)
+        }
+        if (contenidoLower.includes(queryLower)) {
+            relevancia += 25
+            coincidencias.push(`Contenido contiene exactamente: "${queryLower}"`)
+        }
+        if (etiquetasText.includes(queryLower)) {
+            relevancia += 20
+            coincidencias.push(`Etiqueta contiene exactamente: "${queryLower}"`)
+        }
+
+        if (relevancia === 0) {
+            queryWords.forEach(word => {
+                if (tituloLower.includes(word)) {
+                    relevancia += 15
+                    coincidencias.push(`Título contiene: "${word}"`)
+                }
+                if (contenidoLower.includes(word)) {
+                    relevancia += 12
+                    coincidencias.push(`Contenido contiene: "${word}"`)
+                }
+                if (etiquetasText.includes(word)) {
+                    relevancia += 10
+                    coincidencias.push(`Etiqueta contiene: "${word}"`)
+                }
+            })
+        }
+
+        return {
+            ...note,
+            relevancia,
+            coincidencias: coincidencias.length > 0 ? coincidencias : undefined
+        }
+    })
+
+    return resultsWithRelevance
+        .filter(note => note.relevancia! > 0)
+        .sort((a, b) => (b.relevancia || 0) - (a.relevancia || 0))
+}
+
+function searchWithSynonyms(notes: NoteQueryResult[], queryWords: string[]): NoteQueryResult[] {
+    const synonyms: Record<string, string[]> = {
+        arepas: ['arepa', 'venezuelana', 'harina', 'maiz'],
+        pasta: ['espagueti', 'linguini', 'macarrones', 'italiana'],
+        vino: ['copa', 'botella', 'tinto', 'blanco'],
+        video: ['tutorial', 'youtube'],
+        receta: ['cocinar', 'preparar', 'ingredientes'],
+        evento: ['actividad', 'reunion', 'cita', 'plan'],
+        trabajo: ['oficina', 'laboral', 'proyecto'],
+        viaje: ['turismo', 'destino', 'vacaciones']
+    }
+
+    const resultsWithRelevance = notes.map(note => {
+        let relevancia = 0
+        const coincidencias: string[] = []
+
+        const tituloLower = note.titulo.toLowerCase()
+        const contenidoLower = note.contenido.toLowerCase()
+        const etiquetasText = note.etiquetas.join(' ').toLowerCase()
+
+        queryWords.forEach(word => {
+            const relatedWords = synonyms[word] || []
+
+            relatedWords.forEach(synonym => {
+                if (tituloLower.includes(synonym)) {
+                    relevancia += 5
+                    coincidencias.push(`Título relacionado (${word} → ${synonym})`)
+                }
+                if (contenidoLower.includes(synonym)) {
+                    relevancia += 3
+                    coincidencias.push(`Contenido relacionado (${word} → ${synonym})`)
+                }
+                if (etiquetasText.includes(synonym)) {
+                    relevancia += 4
+                    coincidencias.push(`Etiqueta relacionada (${word} → ${synonym})`)
+                }
+            })
+        })
+
+        return {
+            ...note,
+            relevancia,
+            coincidencias: coincidencias.length > 0 ? coincidencias : undefined
+        }
+    })
+
+    return resultsWithRelevance
+        .filter(note => note.relevancia! > 0)
+        .sort((a, b) => (b.relevancia || 0) - (a.relevancia || 0))
+}
+
+function searchFuzzy(notes: NoteQueryResult[], queryWords: string[]): NoteQueryResult[] {
+    const resultsWithRelevance = notes.map(note => {
+        let relevancia = 0
+        const coincidencias: string[] = []
+
+        queryWords.forEach(word => {
+            if (word.length > 4) {
+                if (
+                    note.titulo.toLowerCase().includes(word.substring(0, 4)) ||
+                    note.contenido.toLowerCase().includes(word.substring(0, 4))
+                ) {
+                    relevancia += 1
+                    coincidencias.push(`Coincidencia parcial con: "${word}"`)
+                }
+            }
+        })
+
+        return {
+            ...note,
+            relevancia,
+            coincidencias: coincidencias.length > 0 ? coincidencias : undefined
+        }
+    })
+
+    return resultsWithRelevance
+        .filter(note => note.relevancia! > 0)
+        .sort((a, b) => (b.relevancia || 0) - (a.relevancia || 0))
+}
@@ -0,0 +1,227 @@
+import path from 'path'
+
+import { getEmbeddingProvider, isSemanticSearchEnabled } from '../ai/embeddings.js'
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { createVectorIndex } from '../store/vectorIndex.js'
+import { DateRange } from './dateParser.js'
+import { LinkMetadata } from './linkPreview.js'
+import { createNotionNoteStore } from './notion.js'
+import { createLocalNoteStore } from './localNoteStore.js'
+import { createSemanticNoteStore } from './semanticSearch.js'
+
+const logger = createLogger('NoteStore')
+
+/**
+ * A file received over WhatsApp, still in memory
+ */
+export interface NoteAttachment {
+    nombreArchivo: string
+    mimetype: string
+    data: Buffer
+}
+
+/**
+ * A file already saved by a store, referenced by URL or local path
+ */
+export interface StoredAttachment {
+    nombreArchivo: string
+    mimetype: string
+    ruta: string
+}
+
+export interface NoteData {
+    titulo: string
+    contenido: string
+    etiquetas: string[]
+    adjuntos?: NoteAttachment[]
+    /**
+     * WhatsApp JID of whoever wrote the note, recorded for shared notebooks
+     */
+    autor?: string
+    /**
+     * When an event note happens: an ISO date-time ("2025-05-02T18:30", local
+     * time when it has no offset), or just the date for all-day events
+     */
+    fechaEvento?: string
+    /**
+     * Metadata of the links in the note, fetched when it was saved
+     */
+    enlaces?: LinkMetadata[]
+    /**
+     * When the note was first written, for imported notes; new notes are dated now
+     */
+    fechaCreacion?: string
+}
+
+export interface NoteQueryResult {
+    id: string
+    titulo: string
+    contenido: string
+    etiquetas: string[]
+    fechaCreacion: string
+    adjuntos?: StoredAttachment[]
+    autor?: string
+    fechaEvento?: string
+    enlaces?: LinkMetadata[]
+    /**
+     * Link to the note in its backend, when it has one (the Notion page)
+     */
+    url?: string
+    relevancia?: number
+    coincidencias?: string[]
+    /**
+     * Cosine similarity to the search, when semantic search is enabled
+     */
+    similitud?: number
+}
+
+/**
+ * Fields that can be rewritten on an existing note; omitted fields are kept
+ */
+export interface NoteChanges {
+    titulo?: string
+    contenido?: string
+}
+
+/**
+ * A structured search. Every filter is optional and they all apply together.
+ */
+export interface NoteQuery {
+    etiquetas?: string[]
+    /**
+     * "and": notes with every tag; "or" (default): notes with any of them
+     */
+    modoEtiquetas?: 'and' | 'or'
+    palabrasClave?: string
+    fechas?: DateRange
+    /**
+     * Defaults to relevance when there are keywords, newest first otherwise
+     */
+    orden?: 'relevancia' | 'recientes' | 'antiguas'
+    limite?: number
+}
+
+export interface NotesCount {
+    total: number
+    porEtiqueta: Record<string, number>
+}
+
+export type NoteStoreBackend = 'notion' | 'local'
+
+/**
+ * Storage backend for notes. Adapters never throw: failures are logged and
+ * reported as `false` or empty results, the same way the Notion code always did.
+ */
+export interface NoteStore {
+    name: NoteStoreBackend
+    createNote(note: NoteData): Promise<string | false>
+    searchNotes(query: NoteQuery): Promise<NoteQueryResult[]>
+    /**
+     * Shorthand for `searchNotes` with keywords, one tag and a date range
+     */
+    queryNotes(query?: string, etiqueta?: string, fechas?: DateRange): Promise<NoteQueryResult[]>
+    getNote(noteId: string): Promise<NoteQueryResult | null>
+    updateNote(noteId: string, changes: NoteChanges): Promise<boolean>
+    updateNoteTags(noteId: string, newTags: string[]): Promise<boolean>
+    /**
+     * Replace a tag with another on every note that has it, or remove it when
+     * `to` is null, and drop it from the available tags. Returns the IDs of
+     * the notes that changed.
+     */
+    replaceTag(from: string, to: string | null): Promise<string[] | false>
+    /**
+     * Remove a note from queries. Notion archives the page; the local store deletes it.
+     */
+    deleteNote(noteId: string): Promise<boolean>
+    getNotesCount(): Promise<NotesCount>
+    getAvailableTags(): Promise<string[]>
+}
+
+/**
+ * A separate set of notes: a Notion database, or a namespace of the local store
+ */
+export interface Notebook {
+    id: string
+    databaseId?: string
+}
+
+export const DEFAULT_NOTEBOOK: Notebook = { id: 'default' }
+
+const stores = new Map<string, NoteStore>()
+
+function localNotebookPath(notebook: Notebook): string {
+    if (notebook.id === DEFAULT_NOTEBOOK.id) {
+        return config.storage.localPath
+    }
+    const safeId = notebook.id.replace(/[^\w.-]+/g, '_')
+    return path.join(path.dirname(config.storage.localPath), 'notebooks', `${safeId}.json`)
+}
+
+function createBackendStore(notebook: Notebook): NoteStore {
+    switch (config.storage.backend) {
+        case 'notion':
+            return createNotionNoteStore(notebook.databaseId || config.notion.databaseId)
+        case 'local':
+            return createLocalNoteStore(localNotebookPath(notebook))
+        default:
+            throw new Error(
+                `Unknown note store backend "${config.storage.backend}". Use "notion" or "local".`
+            )
+    }
+}
+
+function createConfiguredStore(notebook: Notebook): NoteStore {
+    const store = createBackendStore(notebook)
+    if (!isSemanticSearchEnabled()) {
+        return store
+    }
+
+    const embedder = getEmbeddingProvider()
+    const safeId = notebook.id.replace(/[^\w.-]+/g, '_')
+    const index = createVectorIndex(
+        path.join(config.embeddings.indexDir, `${safeId}.json`),
+        embedder.model
+    )
+    return createSemanticNoteStore(store, index, embedder, config.embeddings)
+}
+
+/**
+ * Get the note store for a notebook (the default one when omitted), creating it on first use
+ */
+export function getNoteStore(notebook: Notebook = DEFAULT_NOTEBOOK): NoteStore {
+    let store = stores.get(notebook.id)
+    if (!store) {
+        store = createConfiguredStore(notebook)
+        stores.set(notebook.id, store)
+        logger.info('Note store initialized', {
+            backend: store.name,
+            notebook: notebook.id,
+            semanticSearch: isSemanticSearchEnabled()
+        })
+    }
+    return store
+}
+
+export function setNoteStore(store: NoteStore | null, notebook: Notebook = DEFAULT_NOTEBOOK): void {
+    if (store) {
+        stores.set(notebook.id, store)
+    } else {
+        stores.delete(notebook.id)
+    }
+}
+
+export async function findSimilarNotes(
+    content: string,
+    store: NoteStore = getNoteStore()
+): Promise<NoteQueryResult[]> {
+    const words = content
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(word => word.length > 3)
+    const keyWords = words.slice(0, 3)
+
+    if (keyWords.length === 0) return []
+
+    return await store.queryNotes(keyWords.join(' '))
+}
@@ -1,7 +1,41 @@
 import { Client } from '@notionhq/client'
+import { BlockObjectRequest, QueryDatabaseParameters } from '@notionhq/client/build/src/api-endpoints'
 import { config } from '../config/index.js'
 import { logger } from '../logger/index.js'
-
+import { DateRange } from './dateParser.js'
+import {
+    blocksToContent,
+    CONTENT_BLOCK_TYPES,
+    contentToBlocks,
+    isSummary,
+    richTextToPlain,
+    SUMMARY_ELLIPSIS,
+    summarizeContent,
+    toRichText
+} from './notionBlocks.js'
+import { formatSchemaProblem, SchemaProblem, schemaProperties, validateNotionSchema } from './notionSchema.js'
+import {
+    NoteAttachment,
+    NoteChanges,
+    NoteData,
+    NoteQuery,
+    NoteQueryResult,
+    NoteStore,
+    NotesCount
+} from './noteStore.js'
+import { sortAndLimit, toNoteQuery } from './noteQuery.js'
+import { extractQueryWords, performIntelligentSearch } from './noteSearch.js'
+
+
+// Notion devuelve como máximo 100 páginas por llamada
+const NOTION_PAGE_SIZE = 100
+const MAX_KEYWORD_TERMS = 10
+// Notion acepta como máximo 100 bloques por llamada
+const NOTION_BLOCKS_PER_REQUEST = 100
+const MAX_CACHED_BODIES = 500
+
+// Nombres de las columnas de la base de datos de notas
+const schema = config.notion.properties
 
 let notionClient: Client | null = null
 
@@ -9,40 +43,23 @@ if (config.notion.apiKey) {
     notionClient = new Client({
         auth: config.notion.apiKey
     })
-} else {
+} else if (config.storage.backend === 'notion') {
     logger.warn('NOTION_API_KEY no encontrada. Las funciones de Notion estarán deshabilitadas.')
 }
 
 
-export interface NotionNote {
-    titulo: string
-    contenido: string
-    etiquetas: string[] 
-}
-
-export interface NotionQueryResult {
-    id: string
-    titulo: string
-    contenido: string
-    etiquetas: string[]
-    fechaCreacion: string
-    relevancia?: number 
-    coincidencias?: string[] 
-}
-
-
-export async function getAvailableTags(): Promise<string[]> {
-    if (!notionClient || !config.notion.databaseId) {
+export async function getAvailableTags(databaseId = config.notion.databaseId): Promise<string[]> {
+    if (!notionClient || !databaseId) {
         logger.error('Cliente de Notion no configurado correctamente')
         return []
     }
 
     try {
         const database = await notionClient.databases.retrieve({
-            database_id: config.notion.databaseId
+            database_id: databaseId
         })
 
-        const tagsProperty = database.properties['Tags'] as any
+        const tagsProperty = database.properties[schema.tags] as any
         
         if (tagsProperty?.multi_select?.options) {
             const availableTags = tagsProperty.multi_select.options.map((option: any) => option.name)
@@ -58,8 +75,54 @@ export async function getAvailableTags(): Promise<string[]> {
 }
 
 
-export async function createNotionNote(note: NotionNote): Promise<string | false> {
-    if (!notionClient || !config.notion.databaseId) {
+function attachmentBlockType(mimetype: string): 'image' | 'pdf' | 'audio' | 'video' | 'file' {
+    if (mimetype.startsWith('image/')) return 'image'
+    if (mimetype === 'application/pdf') return 'pdf'
+    if (mimetype.startsWith('audio/')) return 'audio'
+    if (mimetype.startsWith('video/')) return 'video'
+    return 'file'
+}
+
+
+/**
+ * Sube el archivo a Notion (modo single_part) y devuelve el bloque que lo muestra en la página
+ */
+async function uploadAttachment(client: Client, adjunto: NoteAttachment): Promise<BlockObjectRequest> {
+    const upload = await client.fileUploads.create({
+        mode: 'single_part',
+        filename: adjunto.nombreArchivo,
+        content_type: adjunto.mimetype
+    })
+
+    await client.fileUploads.send({
+        file_upload_id: upload.id,
+        file: {
+            filename: adjunto.nombreArchivo,
+            data: new Blob([new Uint8Array(adjunto.data)], { type: adjunto.mimetype })
+        }
+    })
+
+    const blockType = attachmentBlockType(adjunto.mimetype)
+    return {
+        type: blockType,
+        [blockType]: {
+            type: 'file_upload',
+            file_upload: { id: upload.id }
+        }
+    } as any
+}
+
+
+/**
+ * Notion lee las fechas sin zona horaria como UTC: las horas locales se envían con su desfase
+ */
+function toNotionDate(fecha: string): string {
+    return fecha.includes('T') ? new Date(fecha).toISOString() : fecha
+}
+
+
+export async function createNotionNote(note: NoteData, databaseId = config.notion.databaseId): Promise<string | false> {
+    if (!notionClient || !databaseId) {
         logger.error('Cliente de Notion no configurado correctamente')
         return false
     }
@@ -68,12 +131,36 @@ export async function createNotionNote(note: NotionNote): Promise<string | false
         
         const tagsForNotion = note.etiquetas.map(etiqueta => ({ name: etiqueta }))
 
+        // Las notas largas guardan un resumen en la propiedad y el contenido completo en la página
+        const summary = summarizeContent(note.contenido)
+        const children: BlockObjectRequest[] = summary === note.contenido ? [] : contentToBlocks(note.contenido)
+        for (const adjunto of note.adjuntos || []) {
+            children.push(await uploadAttachment(notionClient, adjunto))
+        }
+        // Notion muestra los enlaces como tarjetas con título, descripción e imagen
+        const bookmarked = new Set(children.map((block: any) => block.bookmark?.url).filter(Boolean))
+        for (const enlace of (note.enlaces || []).filter(enlace => !bookmarked.has(enlace.url))) {
+            children.push({
+                type: 'bookmark',
+                bookmark: {
+                    url: enlace.url,
+                    caption: enlace.titulo ? [{ text: { content: enlace.titulo } }] : []
+                }
+            })
+        }
+
+        // El autor solo se escribe si la base de datos tiene esa columna, que es opcional
+        let autor: string | undefined
+        if (note.autor && (await hasSchemaColumn(databaseId, schema.author))) {
+            autor = note.autor
+        }
+
         const response = await notionClient.pages.create({
             parent: {
-                database_id: config.notion.databaseId
+                database_id: databaseId
             },
             properties: {
-                'Title': {
+                [schema.title]: {
                     title: [
                         {
                             text: {
@@ -82,29 +169,38 @@ export async function createNotionNote(note: NotionNote): Promise<string | false
                         }
                     ]
                 },
-                'Content': {
-                    rich_text: [
-                        {
-                            text: {
-                                content: note.contenido
-                            }
-                        }
-                    ]
+                [schema.content]: {
+                    rich_text: toRichText(summary)
                 },
-                'Tags': {
+                [schema.tags]: {
                     multi_select: tagsForNotion
                 },
-                'Created Date': {
+                [schema.createdDate]: {
                     date: {
-                        start: new Date().toISOString()
+                        start: note.fechaCreacion || new Date().toISOString()
                     }
-                }
-            }
+                },
+                ...(autor ? {
+                    [schema.author]: {
+                        rich_text: [{ text: { content: autor } }]
+                    }
+                } : {}),
+                ...(note.fechaEvento && schema.eventDate ? {
+                    [schema.eventDate]: {
+                        date: { start: toNotionDate(note.fechaEvento) }
+                    }
+                } : {})
+            },
+            children: children.length > 0 ? children.slice(0, NOTION_BLOCKS_PER_REQUEST) : undefined
         })
+        await appendBlocks(notionClient, response.id, children.slice(NOTION_BLOCKS_PER_REQUEST))
 
         logger.info(`Nota creada exitosamente en Notion: ${response.id}`, {
             titulo: note.titulo,
-            etiquetas: note.etiquetas
+            etiquetas: note.etiquetas,
+            bloques: children.length,
+            adjuntos: note.adjuntos?.length || 0,
+            enlaces: note.enlaces?.length || 0
         })
         return response.id
     } catch (error) {
@@ -114,19 +210,42 @@ export async function createNotionNote(note: NotionNote): Promise<string | false
 }
 
 
-export async function updateNoteTags(noteId: string, newTags: string[]): Promise<boolean> {
+/**
+ * Comprueba que la página sea una nota de la base de datos; sin base de datos no se restringe
+ */
+function isInDatabase(page: any, databaseId: string | undefined): boolean {
+    if (!databaseId) return true
+    // Los IDs llegan con o sin guiones según de dónde vengan
+    const normalize = (id: string) => id.replace(/-/g, '').toLowerCase()
+    const parent = page.parent?.database_id
+    if (parent && normalize(parent) === normalize(databaseId)) return true
+
+    logger.warn(`La página ${page.id} no pertenece a la base de datos ${databaseId}`)
+    return false
+}
+
+async function isPageInDatabase(client: Client, pageId: string, databaseId: string | undefined): Promise<boolean> {
+    if (!databaseId) return true
+    const page = await client.pages.retrieve({ page_id: pageId })
+    return isInDatabase(page, databaseId)
+}
+
+
+export async function updateNoteTags(noteId: string, newTags: string[], databaseId?: string): Promise<boolean> {
     if (!notionClient) {
         logger.error('Cliente de Notion no configurado correctamente')
         return false
     }
 
     try {
+        if (!(await isPageInDatabase(notionClient, noteId, databaseId))) return false
+
         const tagsForNotion = newTags.map(etiqueta => ({ name: etiqueta }))
 
         await notionClient.pages.update({
             page_id: noteId,
             properties: {
-                'Tags': {
+                [schema.tags]: {
                     multi_select: tagsForNotion
                 }
             }
@@ -141,256 +260,398 @@ export async function updateNoteTags(noteId: string, newTags: string[]): Promise
 }
 
 
-export async function queryNotionNotes(query?: string, etiqueta?: string): Promise<NotionQueryResult[]> {
-    if (!notionClient || !config.notion.databaseId) {
+/**
+ * Cambia una etiqueta por otra (o la quita) en todas las páginas y en las opciones de la propiedad
+ */
+export async function replaceNotionTag(
+    from: string,
+    to: string | null,
+    databaseId = config.notion.databaseId
+): Promise<string[] | false> {
+    if (!notionClient || !databaseId) {
         logger.error('Cliente de Notion no configurado correctamente')
-        return []
+        return false
     }
 
     try {
-       
-        const filter: any = {}
-        
-        if (etiqueta) {
-            filter.property = 'Tags'
-            filter.multi_select = {
-                contains: etiqueta
-            }
-        }
-
-        const response = await notionClient.databases.query({
-            database_id: config.notion.databaseId,
-            filter: etiqueta ? filter : undefined,
-            sorts: [
-                {
-                    property: 'Created Date',
-                    direction: 'descending'
+        const pages = await queryAllPages(notionClient, {
+            database_id: databaseId,
+            filter: { property: schema.tags, multi_select: { contains: from } }
+        }, Infinity)
+
+        const changed: string[] = []
+        for (const page of pages) {
+            const etiquetas: string[] = (page.properties[schema.tags]?.multi_select || []).map((tag: any) => tag.name)
+            const nuevas = [...new Set(etiquetas.map(tag => tag === from ? to : tag).filter((tag): tag is string => Boolean(tag)))]
+            await notionClient.pages.update({
+                page_id: page.id,
+                properties: {
+                    [schema.tags]: { multi_select: nuevas.map(name => ({ name })) }
                 }
-            ]
-        })
+            })
+            changed.push(page.id)
+        }
 
-        let results: NotionQueryResult[] = response.results.map((page: any) => {
-            const titulo = page.properties['Title']?.title?.[0]?.text?.content || 'Sin título'
-            const contenido = page.properties['Content']?.rich_text?.[0]?.text?.content || ''
-            const etiquetasArray = page.properties['Tags']?.multi_select || []
-            const etiquetas = etiquetasArray.map((tag: any) => tag.name)
-            const fechaCreacion = page.properties['Created Date']?.date?.start || new Date().toISOString()
-
-            return {
-                id: page.id,
-                titulo,
-                contenido,
-                etiquetas,
-                fechaCreacion
+        // Las opciones que no se envían se eliminan de la propiedad; las demás conservan su color
+        const database = await notionClient.databases.retrieve({ database_id: databaseId })
+        const options: any[] = (database.properties[schema.tags] as any)?.multi_select?.options || []
+        const kept = options
+            .filter(option => option.name !== from)
+            .map(option => ({ id: option.id, name: option.name, color: option.color }))
+        if (to && !kept.some(option => option.name === to)) {
+            kept.push({ name: to } as any)
+        }
+        await notionClient.databases.update({
+            database_id: databaseId,
+            properties: {
+                [schema.tags]: { multi_select: { options: kept } }
             }
         })
 
-        
-        if (query) {
-            results = performIntelligentSearch(results, query)
+        logger.info(`Etiqueta "${from}" reemplazada en Notion`, { to, paginas: changed.length })
+        return changed
+    } catch (error) {
+        logger.error('Error al reemplazar etiqueta en Notion:', error)
+        return false
+    }
+}
+
+
+export async function getNotionNote(noteId: string, databaseId?: string): Promise<NoteQueryResult | null> {
+    if (!notionClient) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return null
+    }
+
+    try {
+        const page: any = await notionClient.pages.retrieve({ page_id: noteId })
+        if (page.archived || !page.properties || !isInDatabase(page, databaseId)) return null
+        const [note] = await withFullContent(notionClient, [page])
+        return note
+    } catch (error) {
+        logger.error('Error al obtener nota de Notion:', error)
+        return null
+    }
+}
+
+export async function updateNotionNote(noteId: string, changes: NoteChanges, databaseId?: string): Promise<boolean> {
+    if (!notionClient) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return false
+    }
+
+    try {
+        if (!(await isPageInDatabase(notionClient, noteId, databaseId))) return false
+
+        const properties: any = {}
+        if (changes.titulo !== undefined) {
+            properties[schema.title] = { title: [{ text: { content: changes.titulo } }] }
         }
+        if (changes.contenido !== undefined) {
+            const summary = summarizeContent(changes.contenido)
+            properties[schema.content] = { rich_text: toRichText(summary) }
+            await replacePageBody(
+                notionClient,
+                noteId,
+                summary === changes.contenido ? [] : contentToBlocks(changes.contenido)
+            )
+        }
+
+        await notionClient.pages.update({ page_id: noteId, properties })
+        bodyCache.delete(noteId)
 
-        return results
+        logger.info(`Nota actualizada en Notion: ${noteId}`, { campos: Object.keys(changes) })
+        return true
     } catch (error) {
-        logger.error('Error al consultar notas en Notion:', error)
-        return []
+        logger.error('Error al actualizar nota en Notion:', error)
+        return false
     }
 }
 
+export async function archiveNotionNote(noteId: string, databaseId?: string): Promise<boolean> {
+    if (!notionClient) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return false
+    }
 
-function performIntelligentSearch(notes: NotionQueryResult[], query: string): NotionQueryResult[] {
-    const queryLower = query.toLowerCase().trim()
-    
-    
-    const stopWords = ['el', 'la', 'de', 'que', 'y', 'a', 'en', 'un', 'es', 'se', 'no', 'te', 'lo', 'le', 'da', 'su', 'por', 'son', 'con', 'para', 'las', 'del', 'los']
-    const queryWords = queryLower.split(/\s+/)
-        .filter(word => word.length > 2 && !stopWords.includes(word))
-    
-    
-    const exactMatches = searchExactMatches(notes, queryLower, queryWords)
-    
-    if (exactMatches.length > 0) {
-        logger.info('Found exact matches', {
-            query: query,
-            exactMatchesCount: exactMatches.length
+    try {
+        if (!(await isPageInDatabase(notionClient, noteId, databaseId))) return false
+
+        await notionClient.pages.update({ page_id: noteId, archived: true })
+        logger.info(`Nota archivada en Notion: ${noteId}`)
+        return true
+    } catch (error) {
+        logger.error('Error al archivar nota en Notion:', error)
+        return false
+    }
+}
+
+function pageToNote(page: any): NoteQueryResult {
+    const titulo = richTextToPlain(page.properties[schema.title]?.title) || 'Sin título'
+    const contenido = richTextToPlain(page.properties[schema.content]?.rich_text)
+    const etiquetasArray = page.properties[schema.tags]?.multi_select || []
+    const etiquetas = etiquetasArray.map((tag: any) => tag.name)
+    const fechaCreacion = page.properties[schema.createdDate]?.date?.start || new Date().toISOString()
+    const autor = richTextToPlain(page.properties[schema.author]?.rich_text)
+    const fechaEvento = schema.eventDate
+        ? page.properties[schema.eventDate]?.date?.start
+        : undefined
+
+    return {
+        id: page.id,
+        titulo,
+        contenido,
+        etiquetas,
+        fechaCreacion,
+        ...(autor ? { autor } : {}),
+        ...(fechaEvento ? { fechaEvento } : {}),
+        ...(page.url ? { url: page.url } : {})
+    }
+}
+
+
+/**
+ * Agrega bloques a una página en tandas que Notion acepte
+ */
+async function appendBlocks(client: Client, pageId: string, blocks: BlockObjectRequest[]): Promise<void> {
+    for (let start = 0; start < blocks.length; start += NOTION_BLOCKS_PER_REQUEST) {
+        await client.blocks.children.append({
+            block_id: pageId,
+            children: blocks.slice(start, start + NOTION_BLOCKS_PER_REQUEST)
         })
-        return exactMatches
-    }
-    
-    
-    const synonymMatches = searchWithSynonyms(notes, queryWords)
-    
-    if (synonymMatches.length > 0) {
-        logger.info('Found synonym matches', {
-            query: query,
-            synonymMatchesCount: synonymMatches.length
+    }
+}
+
+
+async function listPageBlocks(client: Client, pageId: string): Promise<any[]> {
+    const blocks: any[] = []
+    let cursor: string | undefined
+
+    do {
+        const response = await client.blocks.children.list({
+            block_id: pageId,
+            start_cursor: cursor,
+            page_size: NOTION_BLOCKS_PER_REQUEST
         })
-        return synonymMatches
-    }
-    
-    
-    const fuzzyMatches = searchFuzzy(notes, queryWords)
-    
-    logger.info('Search completed', {
-        query: query,
-        exactMatches: 0,
-        synonymMatches: 0,
-        fuzzyMatches: fuzzyMatches.length
-    })
-    
-    return fuzzyMatches
+        blocks.push(...response.results)
+        cursor = response.has_more && response.next_cursor ? response.next_cursor : undefined
+    } while (cursor)
+
+    return blocks
 }
 
-function searchExactMatches(notes: NotionQueryResult[], queryLower: string, queryWords: string[]): NotionQueryResult[] {
-    const resultsWithRelevance = notes.map(note => {
-        let relevancia = 0
-        const coincidencias: string[] = []
-        
-        const tituloLower = note.titulo.toLowerCase()
-        const contenidoLower = note.contenido.toLowerCase()
-        const etiquetasText = note.etiquetas.join(' ').toLowerCase()
-        
-        
-        if (tituloLower.includes(queryLower)) {
-            relevancia += 30
-            coincidencias.push(`Título contiene exactamente: "${queryLower}"`)
-        }
-        if (contenidoLower.includes(queryLower)) {
-            relevancia += 25
-            coincidencias.push(`Contenido contiene exactamente: "${queryLower}"`)
-        }
-        if (etiquetasText.includes(queryLower)) {
-            relevancia += 20
-            coincidencias.push(`Etiqueta contiene exactamente: "${queryLower}"`)
-        }
-        
-        
-        if (relevancia === 0) {
-            queryWords.forEach(word => {
-                if (tituloLower.includes(word)) {
-                    relevancia += 15
-                    coincidencias.push(`Título contiene: "${word}"`)
-                }
-                if (contenidoLower.includes(word)) {
-                    relevancia += 12
-                    coincidencias.push(`Contenido contiene: "${word}"`)
-                }
-                if (etiquetasText.includes(word)) {
-                    relevancia += 10
-                    coincidencias.push(`Etiqueta contiene: "${word}"`)
+
+/**
+ * Cambia el contenido del cuerpo de la página; los adjuntos se conservan
+ */
+async function replacePageBody(client: Client, pageId: string, blocks: BlockObjectRequest[]): Promise<void> {
+    const current = await listPageBlocks(client, pageId)
+    for (const block of current.filter(block => CONTENT_BLOCK_TYPES.includes(block.type))) {
+        await client.blocks.delete({ block_id: block.id })
+    }
+    await appendBlocks(client, pageId, blocks)
+}
+
+
+// Cuerpos de página ya leídos, válidos mientras la página no se edite
+const bodyCache = new Map<string, { editada: string; contenido: string }>()
+
+/**
+ * Las notas cuyo `Content` es un resumen se completan con el texto del cuerpo de la página
+ */
+async function withFullContent(client: Client, pages: any[]): Promise<NoteQueryResult[]> {
+    const notes: NoteQueryResult[] = []
+    for (const page of pages) {
+        const note = pageToNote(page)
+        if (isSummary(note.contenido)) {
+            const cached = bodyCache.get(page.id)
+            let contenido = cached && cached.editada === page.last_edited_time ? cached.contenido : null
+            if (contenido === null) {
+                contenido = blocksToContent(await listPageBlocks(client, page.id))
+                if (bodyCache.size >= MAX_CACHED_BODIES) {
+                    bodyCache.delete(bodyCache.keys().next().value!)
                 }
-            })
+                bodyCache.set(page.id, { editada: page.last_edited_time, contenido })
+            }
+            if (contenido) note.contenido = contenido
         }
+        notes.push(note)
+    }
+    return notes
+}
 
-        return {
-            ...note,
-            relevancia,
-            coincidencias: coincidencias.length > 0 ? coincidencias : undefined
-        }
-    })
 
-    return resultsWithRelevance
-        .filter(note => note.relevancia! > 0)
-        .sort((a, b) => (b.relevancia || 0) - (a.relevancia || 0))
+/**
+ * Follow `next_cursor` until the database is exhausted or `maxResults` pages are collected
+ */
+async function queryAllPages(
+    client: Client,
+    params: Omit<QueryDatabaseParameters, 'start_cursor' | 'page_size'>,
+    maxResults: number = config.notion.maxQueryResults
+): Promise<any[]> {
+    const pages: any[] = []
+    let cursor: string | undefined
+
+    do {
+        const response = await client.databases.query({
+            ...params,
+            start_cursor: cursor,
+            page_size: Math.min(NOTION_PAGE_SIZE, maxResults - pages.length)
+        })
+
+        pages.push(...response.results)
+        cursor = response.has_more && response.next_cursor ? response.next_cursor : undefined
+    } while (cursor && pages.length < maxResults)
+
+    if (cursor) {
+        logger.warn('Consulta de Notion truncada por el límite configurado', {
+            maxResults,
+            obtenidas: pages.length
+        })
+    }
+
+    return pages
 }
 
 
-function searchWithSynonyms(notes: NotionQueryResult[], queryWords: string[]): NotionQueryResult[] {
-    
-    const synonyms: Record<string, string[]> = {
-        'arepas': ['arepa', 'venezuelana', 'harina', 'maiz'],
-        'pasta': ['espagueti', 'linguini', 'macarrones', 'italiana'],
-        'vino': ['copa', 'botella', 'tinto', 'blanco'],
-        'video': ['tutorial', 'youtube'],
-        'receta': ['cocinar', 'preparar', 'ingredientes'],
-        'evento': ['actividad', 'reunion', 'cita', 'plan'],
-        'trabajo': ['oficina', 'laboral', 'proyecto'],
-        'viaje': ['turismo', 'destino', 'vacaciones']
+function buildKeywordFilter(query: string): any {
+    const words = extractQueryWords(query)
+    const terms = (words.length > 0 ? words : [query.trim()]).slice(0, MAX_KEYWORD_TERMS)
+
+    return {
+        or: [
+            ...terms.flatMap(term => [
+                { property: schema.title, title: { contains: term } },
+                { property: schema.content, rich_text: { contains: term } }
+            ]),
+            // El resto de las notas largas está en el cuerpo de la página, donde Notion no filtra
+            { property: schema.content, rich_text: { ends_with: SUMMARY_ELLIPSIS } }
+        ]
     }
+}
 
-    const resultsWithRelevance = notes.map(note => {
-        let relevancia = 0
-        const coincidencias: string[] = []
-        
-        const tituloLower = note.titulo.toLowerCase()
-        const contenidoLower = note.contenido.toLowerCase()
-        const etiquetasText = note.etiquetas.join(' ').toLowerCase()
-        
-        queryWords.forEach(word => {
-            const relatedWords = synonyms[word] || []
-            
-            relatedWords.forEach(synonym => {
-                if (tituloLower.includes(synonym)) {
-                    relevancia += 5
-                    coincidencias.push(`Título relacionado (${word} → ${synonym})`)
-                }
-                if (contenidoLower.includes(synonym)) {
-                    relevancia += 3
-                    coincidencias.push(`Contenido relacionado (${word} → ${synonym})`)
-                }
-                if (etiquetasText.includes(synonym)) {
-                    relevancia += 4
-                    coincidencias.push(`Etiqueta relacionada (${word} → ${synonym})`)
-                }
-            })
-        })
 
-        return {
-            ...note,
-            relevancia,
-            coincidencias: coincidencias.length > 0 ? coincidencias : undefined
-        }
-    })
+function buildDateFilter(fechas: DateRange): any {
+    return combineFilters(
+        fechas.start && { property: schema.createdDate, date: { on_or_after: fechas.start } },
+        fechas.end && { property: schema.createdDate, date: { before: fechas.end } }
+    )
+}
+
 
-    return resultsWithRelevance
-        .filter(note => note.relevancia! > 0)
-        .sort((a, b) => (b.relevancia || 0) - (a.relevancia || 0))
+// Los "and" anidados se aplanan: Notion sólo admite dos niveles de filtros compuestos
+function combineFilters(...filters: any[]): any {
+    const active = filters.filter(Boolean).flatMap(filter => filter.and || [filter])
+    if (active.length === 0) return undefined
+    if (active.length === 1) return active[0]
+    return { and: active }
 }
 
 
-function searchFuzzy(notes: NotionQueryResult[], queryWords: string[]): NotionQueryResult[] {
-    const resultsWithRelevance = notes.map(note => {
-        let relevancia = 0
-        const coincidencias: string[] = []
-        
-        queryWords.forEach(word => {
-            if (word.length > 4) {
-                
-                if (note.titulo.toLowerCase().includes(word.substring(0, 4)) || 
-                    note.contenido.toLowerCase().includes(word.substring(0, 4))) {
-                    relevancia += 1
-                    coincidencias.push(`Coincidencia parcial con: "${word}"`)
-                }
+function buildTagFilter(query: NoteQuery): any {
+    const tags = (query.etiquetas || []).map(etiqueta => ({
+        property: schema.tags,
+        multi_select: { contains: etiqueta }
+    }))
+    if (tags.length <= 1) return tags[0]
+    return query.modoEtiquetas === 'and' ? { and: tags } : { or: tags }
+}
+
+
+export async function searchNotionNotes(
+    query: NoteQuery,
+    databaseId = config.notion.databaseId
+): Promise<NoteQueryResult[]> {
+    if (!notionClient || !databaseId) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return []
+    }
+
+    try {
+        const baseFilter = combineFilters(
+            buildTagFilter(query),
+            query.fechas && buildDateFilter(query.fechas)
+        )
+        const sorts: QueryDatabaseParameters['sorts'] = [
+            {
+                property: schema.createdDate,
+                direction: query.orden === 'antiguas' ? 'ascending' : 'descending'
             }
-        })
+        ]
+
+        if (!query.palabrasClave) {
+            if (query.limite && query.limite <= NOTION_PAGE_SIZE) {
+                const response = await notionClient.databases.query({
+                    database_id: databaseId,
+                    filter: baseFilter,
+                    sorts,
+                    page_size: query.limite
+                })
+                return response.results.map(pageToNote)
+            }
+            const pages = await queryAllPages(notionClient, { database_id: databaseId, filter: baseFilter, sorts })
+            return sortAndLimit(pages.map(pageToNote), query)
+        }
 
-        return {
-            ...note,
-            relevancia,
-            coincidencias: coincidencias.length > 0 ? coincidencias : undefined
+        // Las palabras clave se filtran en Notion; sólo si no hay coincidencias directas
+        // se buscan sinónimos y coincidencias parciales entre una página de notas recientes
+        const candidates = await queryAllPages(notionClient, {
+            database_id: databaseId,
+            filter: combineFilters(baseFilter, buildKeywordFilter(query.palabrasClave)),
+            sorts
+        })
+        const matches = performIntelligentSearch(
+            await withFullContent(notionClient, candidates),
+            query.palabrasClave
+        )
+        if (matches.length > 0) {
+            return sortAndLimit(matches, query)
         }
-    })
 
-    return resultsWithRelevance
-        .filter(note => note.relevancia! > 0)
-        .sort((a, b) => (b.relevancia || 0) - (a.relevancia || 0))
+        const recent = await notionClient.databases.query({
+            database_id: databaseId,
+            filter: baseFilter,
+            sorts,
+            page_size: NOTION_PAGE_SIZE
+        })
+        return sortAndLimit(
+            performIntelligentSearch(
+                await withFullContent(notionClient, recent.results),
+                query.palabrasClave
+            ),
+            query
+        )
+    } catch (error) {
+        logger.error('Error al consultar notas en Notion:', error)
+        return []
+    }
+}
+
+
+export function queryNotionNotes(
+    query?: string,
+    etiqueta?: string,
+    databaseId = config.notion.databaseId,
+    fechas?: DateRange
+): Promise<NoteQueryResult[]> {
+    return searchNotionNotes(toNoteQuery(query, etiqueta, fechas), databaseId)
 }
 
 
-export async function getNotesCount(): Promise<{ total: number, porEtiqueta: Record<string, number> }> {
-    if (!notionClient || !config.notion.databaseId) {
+export async function getNotesCount(databaseId = config.notion.databaseId): Promise<NotesCount> {
+    if (!notionClient || !databaseId) {
         return { total: 0, porEtiqueta: {} }
     }
 
     try {
-        const response = await notionClient.databases.query({
-            database_id: config.notion.databaseId
+        const pages = await queryAllPages(notionClient, {
+            database_id: databaseId
         })
 
         const porEtiqueta: Record<string, number> = {}
         
-        response.results.forEach((page: any) => {
-            const etiquetas = page.properties['Tags']?.multi_select || []
+        pages.forEach((page: any) => {
+            const etiquetas = page.properties[schema.tags]?.multi_select || []
             etiquetas.forEach((tag: any) => {
                 const etiqueta = tag.name || 'sin-etiqueta'
                 porEtiqueta[etiqueta] = (porEtiqueta[etiqueta] || 0) + 1
@@ -398,7 +659,7 @@ export async function getNotesCount(): Promise<{ total: number, porEtiqueta: Rec
         })
 
         return {
-            total: response.results.length,
+            total: pages.length,
             porEtiqueta
         }
     } catch (error) {
@@ -408,14 +669,151 @@ export async function getNotesCount(): Promise<{ total: number, porEtiqueta: Rec
 }
 
 
-export async function findSimilarNotes(content: string): Promise<NotionQueryResult[]> {
-    
-    const words = content.toLowerCase().split(/\s+/).filter(word => word.length > 3)
-    const keyWords = words.slice(0, 3) 
-    
-    if (keyWords.length === 0) return []
-    
-    
-    const searchQuery = keyWords.join(' ')
-    return await queryNotionNotes(searchQuery)
-}
\ No newline at end of file
+const DEFAULT_TAGS = ['Recetas', 'Links útiles', 'Ideas', 'Evento', 'Otros']
+
+
+/**
+ * Crea una base de datos de notas con el esquema que espera el bot dentro de una página de Notion
+ */
+export async function createNotionNotebook(parentPageId: string, titulo: string): Promise<string | false> {
+    if (!notionClient) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return false
+    }
+
+    try {
+        const database = await notionClient.databases.create({
+            parent: {
+                type: 'page_id',
+                page_id: parentPageId
+            },
+            title: [
+                {
+                    text: {
+                        content: titulo
+                    }
+                }
+            ],
+            properties: {
+                ...schemaProperties(),
+                [schema.tags]: {
+                    multi_select: {
+                        options: DEFAULT_TAGS.map(name => ({ name }))
+                    }
+                }
+            }
+        })
+
+        logger.info(`Base de datos creada en Notion: ${database.id}`, { titulo })
+        return database.id
+    } catch (error) {
+        logger.error('Error al crear base de datos en Notion:', error)
+        return false
+    }
+}
+
+
+/**
+ * Comprueba que la integración tiene acceso a la base de datos
+ */
+export async function canAccessNotionDatabase(databaseId: string): Promise<boolean> {
+    if (!notionClient) {
+        return false
+    }
+
+    try {
+        await notionClient.databases.retrieve({ database_id: databaseId })
+        return true
+    } catch (error) {
+        logger.warn('Base de datos de Notion no accesible', { databaseId })
+        return false
+    }
+}
+
+
+// Problemas del esquema de cada base de datos ya revisada
+const schemaProblems = new Map<string, SchemaProblem[]>()
+
+// Si la base de datos tiene la columna con el tipo correcto; revisa el esquema la primera vez
+async function hasSchemaColumn(databaseId: string, propiedad: string): Promise<boolean> {
+    if (!propiedad) return false
+    const problems = schemaProblems.get(databaseId) ?? (await checkNotionSchema(databaseId))
+    return problems !== null && !problems.some(problem => problem.propiedad === propiedad)
+}
+
+/**
+ * Comprueba que la base de datos tiene las columnas configuradas con el tipo correcto.
+ * Devuelve los problemas encontrados, o null si no se pudo leer la base de datos.
+ */
+export async function checkNotionSchema(databaseId: string): Promise<SchemaProblem[] | null> {
+    if (!notionClient) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return null
+    }
+
+    try {
+        const database = await notionClient.databases.retrieve({ database_id: databaseId })
+        const problems = validateNotionSchema(database.properties)
+        schemaProblems.set(databaseId, problems)
+        for (const problem of problems) {
+            const message = `Esquema de Notion: ${formatSchemaProblem(problem)}`
+            if (problem.requerida) {
+                logger.error(message, { databaseId })
+            } else {
+                logger.warn(message, { databaseId })
+            }
+        }
+        return problems
+    } catch (error) {
+        logger.error('Error al leer el esquema de la base de datos de Notion:', error)
+        return null
+    }
+}
+
+
+/**
+ * Crea las columnas que le faltan a la base de datos y devuelve los problemas que quedan,
+ * que hay que corregir a mano (columnas con otro tipo o un título con otro nombre)
+ */
+export async function createNotionSchemaProperties(databaseId: string): Promise<SchemaProblem[] | false> {
+    if (!notionClient) {
+        logger.error('Cliente de Notion no configurado correctamente')
+        return false
+    }
+
+    try {
+        const database = await notionClient.databases.retrieve({ database_id: databaseId })
+        const problems = validateNotionSchema(database.properties)
+        const missing = schemaProperties(problems)
+        if (Object.keys(missing).length > 0) {
+            await notionClient.databases.update({ database_id: databaseId, properties: missing })
+            logger.info('Propiedades creadas en Notion', { databaseId, propiedades: Object.keys(missing) })
+        }
+        return problems.filter(problem => !missing[problem.propiedad])
+    } catch (error) {
+        logger.error('Error al crear las propiedades en Notion:', error)
+        return false
+    }
+}
+
+
+/**
+ * Note store backed by one Notion database. Notes are read and changed by
+ * page ID, so those operations check that the page belongs to that database.
+ */
+export function createNotionNoteStore(databaseId: string | undefined): NoteStore {
+    const scope = databaseId || config.notion.databaseId
+    return {
+        name: 'notion',
+        createNote: note => createNotionNote(note, databaseId),
+        searchNotes: query => searchNotionNotes(query, databaseId),
+        queryNotes: (query, etiqueta, fechas) => queryNotionNotes(query, etiqueta, databaseId, fechas),
+        getNote: noteId => getNotionNote(noteId, scope),
+        updateNote: (noteId, changes) => updateNotionNote(noteId, changes, scope),
+        updateNoteTags: (noteId, newTags) => updateNoteTags(noteId, newTags, scope),
+        replaceTag: (from, to) => replaceNotionTag(from, to, databaseId),
+        deleteNote: noteId => archiveNotionNote(noteId, scope),
+        getNotesCount: () => getNotesCount(databaseId),
+        getAvailableTags: () => getAvailableTags(databaseId)
+    }
+}
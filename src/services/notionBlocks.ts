@@ -0,0 +1,189 @@
+import { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints'
+
+/**
+ * Notion rejects text objects longer than this, in properties and in blocks
+ */
+export const NOTION_TEXT_LIMIT = 2000
+
+/**
+ * Longest text kept in the `Content` property; longer notes keep a summary
+ * there and their full content in the page body
+ */
+export const SUMMARY_LENGTH = 280
+
+/**
+ * Ends every summary, so searches know which notes have a body to read
+ */
+export const SUMMARY_ELLIPSIS = '…'
+
+type RichTextRequest = {
+    text: { content: string; link?: { url: string } }
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]]/g
+const URL_LINE = /^\s*(https?:\/\/\S+)\s*$/
+const BULLET_LINE = /^\s*[-*•]\s+(.+)$/
+const NUMBERED_LINE = /^\s*\d{1,3}[.)]\s+(.+)$/
+
+function chunk(text: string): string[] {
+    const chunks: string[] = []
+    for (let start = 0; start < text.length; start += NOTION_TEXT_LIMIT) {
+        chunks.push(text.slice(start, start + NOTION_TEXT_LIMIT))
+    }
+    return chunks
+}
+
+/**
+ * Text for a Notion rich_text field, cut in pieces Notion accepts and with
+ * its links clickable
+ */
+export function toRichText(text: string): RichTextRequest[] {
+    const parts: RichTextRequest[] = []
+    const pushText = (content: string, url?: string) => {
+        for (const piece of chunk(content)) {
+            parts.push({ text: url ? { content: piece, link: { url } } : { content: piece } })
+        }
+    }
+
+    let position = 0
+    for (const match of text.matchAll(URL_PATTERN)) {
+        if (match.index! > position) pushText(text.slice(position, match.index))
+        // Notion no acepta enlaces más largos que un texto
+        pushText(match[0], match[0].length <= NOTION_TEXT_LIMIT ? match[0] : undefined)
+        position = match.index! + match[0].length
+    }
+    if (position < text.length) pushText(text.slice(position))
+    return parts
+}
+
+/**
+ * The plain text of a Notion rich_text field, from all of its pieces
+ */
+export function richTextToPlain(richText: any[] | undefined): string {
+    return (richText || []).map(part => part.plain_text ?? part.text?.content ?? '').join('')
+}
+
+/**
+ * What goes in the `Content` property: the content itself when it is short,
+ * otherwise its beginning cut at a word and ending in `SUMMARY_ELLIPSIS`
+ */
+export function summarizeContent(contenido: string, length = SUMMARY_LENGTH): string {
+    if (contenido.length <= length) return contenido
+
+    const flat = contenido.replace(/\s+/g, ' ').trim()
+    const cut = flat.slice(0, length - SUMMARY_ELLIPSIS.length)
+    const lastSpace = cut.lastIndexOf(' ')
+    return (lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd() + SUMMARY_ELLIPSIS
+}
+
+/**
+ * Whether a `Content` property is a summary with the full content in the page body
+ */
+export function isSummary(content: string): boolean {
+    return content.endsWith(SUMMARY_ELLIPSIS)
+}
+
+/**
+ * The content of a note as page blocks: a paragraph per block of text,
+ * list items for lines starting with "-", "•" or a number (ingredients,
+ * steps) and bookmarks for lines that are just a link
+ */
+export function contentToBlocks(contenido: string): BlockObjectRequest[] {
+    const blocks: BlockObjectRequest[] = []
+    let paragraph: string[] = []
+
+    const flush = () => {
+        if (paragraph.length > 0) {
+            blocks.push({
+                type: 'paragraph',
+                paragraph: { rich_text: toRichText(paragraph.join('\n')) }
+            })
+            paragraph = []
+        }
+    }
+
+    for (const line of contenido.split('\n')) {
+        const url = line.match(URL_LINE)
+        const bullet = line.match(BULLET_LINE)
+        const numbered = line.match(NUMBERED_LINE)
+
+        if (!line.trim()) {
+            flush()
+        } else if (url && url[1].length <= NOTION_TEXT_LIMIT) {
+            flush()
+            blocks.push({ type: 'bookmark', bookmark: { url: url[1] } })
+        } else if (bullet) {
+            flush()
+            blocks.push({
+                type: 'bulleted_list_item',
+                bulleted_list_item: { rich_text: toRichText(bullet[1].trim()) }
+            })
+        } else if (numbered) {
+            flush()
+            blocks.push({
+                type: 'numbered_list_item',
+                numbered_list_item: { rich_text: toRichText(numbered[1].trim()) }
+            })
+        } else {
+            paragraph.push(line.trimEnd())
+        }
+    }
+    flush()
+    return blocks
+}
+
+/**
+ * Block types that hold the content of a note, as opposed to its attachments
+ */
+export const CONTENT_BLOCK_TYPES = [
+    'paragraph',
+    'bulleted_list_item',
+    'numbered_list_item',
+    'to_do',
+    'heading_1',
+    'heading_2',
+    'heading_3',
+    'quote',
+    'callout',
+    'bookmark'
+]
+
+/**
+ * The content of a note read back from its page blocks. Blocks edited by
+ * hand in Notion (headings, quotes, to-dos) are read as plain lines;
+ * attachments are skipped, and so are bookmarks of links already in the text.
+ */
+export function blocksToContent(blocks: any[]): string {
+    let contenido = ''
+    let number = 0
+    let previous: string | null = null
+
+    for (const block of blocks) {
+        if (!CONTENT_BLOCK_TYPES.includes(block.type)) continue
+
+        let line: string
+        if (block.type === 'bookmark') {
+            line = block.bookmark?.url || ''
+            if (contenido.includes(line)) continue
+        } else {
+            line = richTextToPlain(block[block.type]?.rich_text)
+        }
+        if (!line.trim()) continue
+
+        if (block.type === 'numbered_list_item') {
+            number = previous === 'numbered_list_item' ? number + 1 : 1
+            line = `${number}. ${line}`
+        } else if (block.type === 'bulleted_list_item') {
+            line = `- ${line}`
+        } else if (block.type === 'to_do') {
+            line = `- ${block.to_do?.checked ? '[x]' : '[ ]'} ${line}`
+        }
+
+        // Los elementos de una lista van línea por línea; lo demás, separado por una línea en blanco
+        const listItem = ['bulleted_list_item', 'numbered_list_item', 'to_do'].includes(block.type)
+        if (contenido) contenido += listItem ? '\n' : '\n\n'
+        contenido += line
+        previous = block.type
+    }
+    return contenido
+}
@@ -0,0 +1,118 @@
+import { config } from '../config/index.js'
+
+/**
+ * The column names of a notes database, by what they hold
+ */
+export type NotionSchema = typeof config.notion.properties
+
+export type NotionPropertyType = 'title' | 'rich_text' | 'multi_select' | 'date'
+
+interface SchemaField {
+    key: keyof NotionSchema
+    type: NotionPropertyType
+    env: string
+    /**
+     * Optional columns only matter for some notes (group authors, event dates)
+     */
+    required: boolean
+}
+
+const FIELDS: SchemaField[] = [
+    { key: 'title', type: 'title', env: 'NOTION_TITLE_PROPERTY', required: true },
+    { key: 'content', type: 'rich_text', env: 'NOTION_CONTENT_PROPERTY', required: true },
+    { key: 'tags', type: 'multi_select', env: 'NOTION_TAGS_PROPERTY', required: true },
+    { key: 'createdDate', type: 'date', env: 'NOTION_CREATED_DATE_PROPERTY', required: true },
+    { key: 'author', type: 'rich_text', env: 'NOTION_AUTHOR_PROPERTY', required: false },
+    { key: 'eventDate', type: 'date', env: 'NOTION_EVENT_DATE_PROPERTY', required: false }
+]
+
+const TYPE_NAMES: Record<string, string> = {
+    title: 'título',
+    rich_text: 'texto',
+    multi_select: 'selección múltiple',
+    date: 'fecha'
+}
+
+/**
+ * A column the bot needs that the database lacks or has with another type
+ */
+export interface SchemaProblem {
+    propiedad: string
+    esperado: NotionPropertyType
+    /**
+     * The type the database has under that name; null when the column is missing
+     */
+    encontrado: string | null
+    requerida: boolean
+    variable: string
+    /**
+     * A column of the right type the mapping could point to instead
+     */
+    sugerencia?: string
+}
+
+/**
+ * Compare the properties of a database, as Notion returns them, with the
+ * column names the bot uses. Columns mapped to an empty name are skipped.
+ */
+export function validateNotionSchema(
+    properties: Record<string, { type: string }>,
+    schema: NotionSchema = config.notion.properties
+): SchemaProblem[] {
+    const mapped = new Set(Object.values(schema).filter(Boolean))
+    const problems: SchemaProblem[] = []
+
+    for (const field of FIELDS) {
+        const propiedad = schema[field.key]
+        if (!propiedad) continue
+        const found = properties[propiedad]
+        if (found?.type === field.type) continue
+
+        // Una sola columna del tipo correcto sin usar es casi seguro la que se quería
+        const candidates = Object.entries(properties)
+            .filter(([name, property]) => property.type === field.type && !mapped.has(name))
+            .map(([name]) => name)
+        problems.push({
+            propiedad,
+            esperado: field.type,
+            encontrado: found ? found.type : null,
+            requerida: field.required,
+            variable: field.env,
+            ...(candidates.length === 1 ? { sugerencia: candidates[0] } : {})
+        })
+    }
+    return problems
+}
+
+export function formatSchemaProblem(problem: SchemaProblem): string {
+    const esperado = TYPE_NAMES[problem.esperado]
+    let line = problem.encontrado
+        ? `"${problem.propiedad}" es de tipo ${TYPE_NAMES[problem.encontrado] || problem.encontrado}; debe ser ${esperado}`
+        : `Falta la propiedad "${problem.propiedad}" (${esperado})`
+    if (problem.sugerencia) {
+        line += `. ¿Es "${problem.sugerencia}"? Usa ${problem.variable}=${problem.sugerencia}`
+    }
+    return line
+}
+
+/**
+ * The columns to create for a new database, or the missing ones of an
+ * existing database. Only missing columns can be created: a column with the
+ * wrong type, or a title under another name, has to be fixed by hand.
+ */
+export function schemaProperties(
+    problems?: SchemaProblem[],
+    schema: NotionSchema = config.notion.properties
+): Record<string, any> {
+    const properties: Record<string, any> = {}
+    for (const field of FIELDS) {
+        const propiedad = schema[field.key]
+        if (!propiedad) continue
+        if (problems) {
+            const problem = problems.find(entry => entry.propiedad === propiedad)
+            if (!problem || problem.encontrado || field.type === 'title') continue
+        }
+        properties[propiedad] = { [field.type]: {} }
+    }
+    return properties
+}
@@ -0,0 +1,138 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { getUserRegistry, RegisteredUser, UserRegistry } from '../store/userRegistry.js'
+import { DEFAULT_NOTEBOOK, Notebook } from './noteStore.js'
+import { canAccessNotionDatabase, checkNotionSchema, createNotionNotebook } from './notion.js'
+import { formatSchemaProblem } from './notionSchema.js'
+
+const logger = createLogger('Onboarding')
+
+export type NotebookResolution =
+    { status: 'ready'; notebook: Notebook; welcome?: string } | { status: 'reply'; text: string }
+
+const DATABASE_ID_PATTERN = /[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}/i
+
+const WELCOME =
+    '👋 ¡Hola! Soy Ikigai. Preparé tu cuaderno personal: solo tú puedes ver las notas que guardes aquí. Envíame recetas, links, ideas o eventos y yo los organizo.'
+
+// Los IDs de Notion se comparan sin guiones
+function normalizeDatabaseId(id: string): string {
+    return id.replace(/-/g, '').toLowerCase()
+}
+
+/**
+ * Whether a database already holds other notes: the owner's, another user's
+ * or a group's. A user can only connect a database of their own.
+ */
+async function isDatabaseInUse(
+    databaseId: string,
+    jid: string,
+    registry: UserRegistry
+): Promise<boolean> {
+    const users = await registry.list()
+    const taken = [
+        config.notion.databaseId,
+        ...config.groups.allowlist.map(entry => entry.split('=')[1]?.trim()),
+        ...users.filter(user => user.jid !== jid).map(user => user.notebook?.databaseId)
+    ]
+    return taken.some(id => id && normalizeDatabaseId(id) === normalizeDatabaseId(databaseId))
+}
+
+function databaseInstructions(): string {
+    const { title, content, tags, createdDate } = config.notion.properties
+    return `👋 ¡Hola! Soy Ikigai. Para empezar necesito tu propia base de datos de Notion:\n\n1. Crea una base de datos con las columnas ${title}, ${content}, ${tags} (selección múltiple) y ${createdDate} (fecha)\n2. Compártela con la integración de Ikigai\n3. Envíame aquí el link o el ID de la base de datos`
+}
+
+/**
+ * Find the notebook of a private-chat sender, onboarding them on first contact.
+ * Local stores get a namespace right away; with Notion the bot either creates a
+ * database under `NOTION_PARENT_PAGE_ID` or asks the user to share their own.
+ * Without `OWNER_JIDS`, the first sender of an empty registry is taken as the
+ * owner and keeps the default notebook, so single-owner setups work unchanged.
+ */
+export async function resolveUserNotebook(
+    jid: string,
+    text: string,
+    name?: string,
+    registry: UserRegistry = getUserRegistry()
+): Promise<NotebookResolution> {
+    if (config.users.ownerJids.includes(jid)) {
+        return { status: 'ready', notebook: DEFAULT_NOTEBOOK }
+    }
+
+    const user = await registry.get(jid)
+    if (user?.status === 'active' && user.notebook) {
+        return { status: 'ready', notebook: user.notebook }
+    }
+
+    const registeredAt = user?.registeredAt || new Date().toISOString()
+    const activate = async (notebook: Notebook) => {
+        const registered: RegisteredUser = { jid, status: 'active', notebook, name, registeredAt }
+        await registry.save(registered)
+        logger.info('User onboarded', { jid, notebook: notebook.id })
+    }
+
+    if (config.users.ownerJids.length === 0 && (await registry.list()).length === 0) {
+        logger.warn('OWNER_JIDS is not set, taking the first sender as the owner', { jid })
+        await activate(DEFAULT_NOTEBOOK)
+        return { status: 'ready', notebook: DEFAULT_NOTEBOOK }
+    }
+
+    if (config.storage.backend !== 'notion') {
+        const notebook: Notebook = { id: `user-${jid}` }
+        await activate(notebook)
+        return { status: 'ready', notebook, welcome: WELCOME }
+    }
+
+    if (config.users.notionParentPageId) {
+        const databaseId = await createNotionNotebook(
+            config.users.notionParentPageId,
+            `Ikigai · ${name || jid.split('@')[0]}`
+        )
+        if (!databaseId) {
+            return {
+                status: 'reply',
+                text: 'Lo siento, no pude preparar tu cuaderno de notas. ¿Puedes intentar de nuevo en unos minutos?'
+            }
+        }
+
+        const notebook: Notebook = { id: `user-${jid}`, databaseId }
+        await activate(notebook)
+        return { status: 'ready', notebook, welcome: WELCOME }
+    }
+
+    const match = user ? text.match(DATABASE_ID_PATTERN) : null
+    if (match) {
+        const databaseId = match[0].replace(/-/g, '')
+        if (await isDatabaseInUse(databaseId, jid, registry)) {
+            logger.warn('Rejected a Notion database that is already in use', { jid, databaseId })
+            return {
+                status: 'reply',
+                text: '❌ Esa base de datos ya está en uso. Crea una base de datos nueva para tus notas y envíame su link.'
+            }
+        }
+        if (!(await canAccessNotionDatabase(databaseId))) {
+            return {
+                status: 'reply',
+                text: '❌ No puedo acceder a esa base de datos. Verifica que la compartiste con la integración de Ikigai y envíame el link de nuevo.'
+            }
+        }
+        const problems = (await checkNotionSchema(databaseId)) || []
+        const required = problems.filter(problem => problem.requerida)
+        if (required.length > 0) {
+            return {
+                status: 'reply',
+                text: `❌ Esa base de datos no tiene las columnas que necesito:\n\n${required.map(problem => `• ${formatSchemaProblem({ ...problem, sugerencia: undefined })}`).join('\n')}\n\nCorrígela y envíame el link de nuevo.`
+            }
+        }
+
+        await activate({ id: `user-${jid}`, databaseId })
+        return {
+            status: 'reply',
+            text: '✅ ¡Listo! Conecté tu base de datos. Ya puedes enviarme notas o preguntarme por ellas.'
+        }
+    }
+
+    await registry.save({ jid, status: 'pending', name, registeredAt })
+    return { status: 'reply', text: databaseInstructions() }
+}
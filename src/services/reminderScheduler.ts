@@ -0,0 +1,100 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { getReminderStore, ReminderStore } from '../store/reminderStore.js'
+import { formatReminderMessage, parseEventDate } from './reminders.js'
+
+const logger = createLogger('ReminderScheduler')
+
+// Un recordatorio atrasado se envía mientras el evento no haya empezado hace más de esto
+const LATE_LIMIT_MS = 60 * 60 * 1000
+
+/**
+ * Delivers a message to a chat. Returns false when it cannot be sent right
+ * now (WhatsApp disconnected), so the reminder is retried on the next check.
+ */
+export type MessageSender = (chatId: string, text: string) => Promise<boolean>
+
+export interface ReminderScheduler {
+    /**
+     * Send every due reminder; returns how many were sent
+     */
+    runDue(now?: Date): Promise<number>
+}
+
+/**
+ * Sends due reminders from the store. Reminders that came due while the bot
+ * was down are still sent after a restart, unless their event is long past.
+ */
+export function createReminderScheduler(
+    store: ReminderStore,
+    send: MessageSender
+): ReminderScheduler {
+    return {
+        async runDue(now = new Date()) {
+            let sent = 0
+            const due = await store.due(now)
+            for (const [position, reminder] of due.entries()) {
+                // Tras una caída, de varios avisos atrasados del mismo evento solo se envía el último
+                const superseded = due
+                    .slice(position + 1)
+                    .some(later => later.noteId === reminder.noteId)
+                const event = parseEventDate(reminder.fechaEvento)
+                if (superseded || !event || event.date.getTime() + LATE_LIMIT_MS < now.getTime()) {
+                    await store.update(reminder.id, { status: 'missed' })
+                    logger.info('Skipping late reminder', {
+                        reminderId: reminder.id,
+                        noteId: reminder.noteId
+                    })
+                    continue
+                }
+
+                try {
+                    const delivered = await send(
+                        reminder.chatId,
+                        formatReminderMessage(reminder, now)
+                    )
+                    if (!delivered) {
+                        logger.debug('WhatsApp not connected, reminders will be retried')
+                        break
+                    }
+                } catch (error) {
+                    logger.error('Error sending reminder', error, { reminderId: reminder.id })
+                    continue
+                }
+
+                await store.update(reminder.id, { status: 'sent', sentAt: now.toISOString() })
+                sent++
+            }
+            return sent
+        }
+    }
+}
+
+/**
+ * Check for due reminders every `REMINDER_CHECK_SECONDS`
+ */
+export function startReminderScheduler(
+    send: MessageSender,
+    intervalMs: number = config.reminders.checkIntervalSeconds * 1000
+): NodeJS.Timeout {
+    const scheduler = createReminderScheduler(getReminderStore(), send)
+    let running = false
+
+    const timer = setInterval(async () => {
+        // Un envío lento no debe solaparse con la siguiente revisión
+        if (running) return
+        running = true
+        try {
+            const sent = await scheduler.runDue()
+            if (sent > 0) {
+                logger.info('Reminders sent', { sent })
+            }
+        } catch (error) {
+            logger.error('Error checking reminders', error)
+        } finally {
+            running = false
+        }
+    }, intervalMs)
+    timer.unref()
+    return timer
+}
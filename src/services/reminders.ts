@@ -0,0 +1,258 @@
+import { config } from '../config/index.js'
+import { Reminder, ReminderStore } from '../store/reminderStore.js'
+
+const MINUTE = 60 * 1000
+
+/**
+ * The pending reminders of one event note, as listed to the user
+ */
+export interface ReminderEvent {
+    noteId: string
+    titulo: string
+    fechaEvento: string
+    reminders: Reminder[]
+}
+
+export interface EventDate {
+    date: Date
+    /**
+     * The note only gave a day; reminders count from `config.reminders.allDayHour`
+     */
+    allDay: boolean
+}
+
+/**
+ * Read a `fechaEvento`. Date-only values are local days; date-times without
+ * an offset are local time, as the classifier is asked to write them.
+ */
+export function parseEventDate(
+    value: string,
+    allDayHour = config.reminders.allDayHour
+): EventDate | null {
+    const dayOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (dayOnly) {
+        const [, year, month, day] = dayOnly.map(Number)
+        const date = new Date(year, month - 1, day, allDayHour)
+        return date.getMonth() === month - 1 ? { date, allDay: true } : null
+    }
+    if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return null
+
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : { date, allDay: false }
+}
+
+/**
+ * When to remind about an event: each offset before it that is still in the
+ * future. An event too close for any offset gets one reminder at its start.
+ */
+export function buildReminderTimes(
+    fechaEvento: string,
+    now: Date = new Date(),
+    offsetsMinutes: number[] = config.reminders.offsetsMinutes
+): Date[] {
+    const event = parseEventDate(fechaEvento)
+    if (!event || event.date <= now) return []
+
+    const times = [...new Set(offsetsMinutes)]
+        .map(offset => new Date(event.date.getTime() - offset * MINUTE))
+        .filter(time => time > now)
+        .sort((a, b) => a.getTime() - b.getTime())
+
+    return times.length > 0 ? times : [event.date]
+}
+
+/**
+ * Store the reminders of a newly saved event note
+ */
+export async function scheduleEventReminders(
+    store: ReminderStore,
+    event: { chatId: string; noteId: string; titulo: string; fechaEvento: string },
+    now: Date = new Date()
+): Promise<Reminder[]> {
+    const times = buildReminderTimes(event.fechaEvento, now)
+    return store.add(times.map(time => ({ ...event, remindAt: time.toISOString() })))
+}
+
+/**
+ * Cancel the pending reminders of a note; returns how many there were
+ */
+export async function cancelNoteReminders(store: ReminderStore, noteId: string): Promise<number> {
+    const pending = (await store.list()).filter(
+        reminder => reminder.noteId === noteId && reminder.status === 'pending'
+    )
+    for (const reminder of pending) {
+        await store.update(reminder.id, { status: 'cancelled' })
+    }
+    return pending.length
+}
+
+/**
+ * Pending reminders grouped by note, soonest event first
+ */
+export function groupReminderEvents(reminders: Reminder[]): ReminderEvent[] {
+    const events = new Map<string, ReminderEvent>()
+    for (const reminder of reminders) {
+        if (reminder.status !== 'pending') continue
+        let event = events.get(reminder.noteId)
+        if (!event) {
+            event = {
+                noteId: reminder.noteId,
+                titulo: reminder.titulo,
+                fechaEvento: reminder.fechaEvento,
+                reminders: []
+            }
+            events.set(reminder.noteId, event)
+        }
+        event.reminders.push(reminder)
+    }
+
+    return [...events.values()].sort((a, b) =>
+        a.reminders[0].remindAt.localeCompare(b.reminders[0].remindAt)
+    )
+}
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim()
+}
+
+/**
+ * The event a snooze or cancel refers to: a number from the last list (by
+ * `listedNoteIds` when the list is remembered) or words of its title
+ */
+export function findReminderEvent(
+    events: ReminderEvent[],
+    target: string,
+    listedNoteIds?: string[]
+): ReminderEvent | null {
+    const number = target.match(/^\s*#?(\d{1,2})\s*$/)
+    if (number) {
+        const index = parseInt(number[1], 10) - 1
+        if (listedNoteIds) {
+            const noteId = listedNoteIds[index]
+            return events.find(event => event.noteId === noteId) || null
+        }
+        return events[index] || null
+    }
+
+    const words = normalize(target)
+        .split(/\s+/)
+        .filter(word => word.length > 2)
+    if (words.length === 0) return null
+    return (
+        events.find(event => {
+            const titulo = normalize(event.titulo)
+            return words.every(word => titulo.includes(word))
+        }) || null
+    )
+}
+
+/**
+ * Read a snooze length in minutes: "10 minutos", "1 hora", "media hora",
+ * "dos horas", "mañana". Returns null when the text has none.
+ */
+export function parseSnoozeDuration(text: string): number | null {
+    const normalized = normalize(text)
+    if (/\bmedia hora\b/.test(normalized)) return 30
+    if (/\bmanana\b/.test(normalized)) return 24 * 60
+
+    const match = normalized.match(
+        /\b(\d{1,3}|un|una|dos|tres|cuatro|cinco|diez|quince|veinte|treinta)\s*(m|min|minutos?|h|horas?|dias?)\b/
+    )
+    if (!match) return null
+
+    const words: Record<string, number> = {
+        un: 1,
+        una: 1,
+        dos: 2,
+        tres: 3,
+        cuatro: 4,
+        cinco: 5,
+        diez: 10,
+        quince: 15,
+        veinte: 20,
+        treinta: 30
+    }
+    const amount = words[match[1]] ?? parseInt(match[1], 10)
+    if (match[2].startsWith('h')) return amount * 60
+    if (match[2].startsWith('d')) return amount * 24 * 60
+    return amount
+}
+
+const WEEKDAYS = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado']
+
+/**
+ * A local timestamp for prompts, e.g. "2025-05-05T14:30 (lunes)"
+ */
+export function toLocalDateTime(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`
+    return `${day}T${time} (${WEEKDAYS[date.getDay()]})`
+}
+
+export function formatEventDate(fechaEvento: string): string {
+    const event = parseEventDate(fechaEvento)
+    if (!event) return fechaEvento
+
+    const day = event.date.toLocaleDateString('es-ES', {
+        weekday: 'long',
+        day: 'numeric',
+        month: 'long'
+    })
+    if (event.allDay) return day
+    const time = event.date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
+    return `${day}, ${time}`
+}
+
+export function formatReminderTime(remindAt: string): string {
+    const date = new Date(remindAt)
+    const day = date.toLocaleDateString('es-ES', {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short'
+    })
+    const time = date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
+    return `${day} ${time}`
+}
+
+function formatTimeUntil(date: Date, now: Date): string {
+    const minutes = Math.round((date.getTime() - now.getTime()) / MINUTE)
+    if (minutes <= 1) return 'ahora'
+    if (minutes < 60) return `en ${minutes} minutos`
+    const hours = Math.round(minutes / 60)
+    if (hours < 24) return hours === 1 ? 'en 1 hora' : `en ${hours} horas`
+    const days = Math.round(hours / 24)
+    return days === 1 ? 'mañana' : `en ${days} días`
+}
+
+/**
+ * The message sent when a reminder is due
+ */
+export function formatReminderMessage(reminder: Reminder, now: Date = new Date()): string {
+    const event = parseEventDate(reminder.fechaEvento)
+    const when = event && !event.allDay ? ` (${formatTimeUntil(event.date, now)})` : ''
+    return (
+        `⏰ Recordatorio: *${reminder.titulo}*\n` +
+        `🗓️ ${formatEventDate(reminder.fechaEvento)}${when}\n\n` +
+        `Responde "posponer ${config.reminders.snoozeMinutes} minutos" o "cancela el recordatorio".`
+    )
+}
+
+export function formatReminderList(events: ReminderEvent[]): string {
+    if (events.length === 0) {
+        return '⏰ No tienes recordatorios pendientes. Guarda una nota de evento con fecha y te aviso antes.'
+    }
+
+    let response = `⏰ Tus recordatorios pendientes:\n\n`
+    events.forEach((event, index) => {
+        response += `${index + 1}. *${event.titulo}*\n`
+        response += `   🗓️ ${formatEventDate(event.fechaEvento)}\n`
+        response += `   🔔 ${event.reminders.map(reminder => formatReminderTime(reminder.remindAt)).join(', ')}\n\n`
+    })
+    response += '👉 Responde "cancela el 2" o "pospón el 1 una hora" para cambiarlos'
+    return response
+}
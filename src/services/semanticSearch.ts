@@ -0,0 +1,197 @@
+import { createHash } from 'crypto'
+
+import { EmbeddingProvider } from '../ai/embeddings.js'
+import { createLogger } from '../logger/index.js'
+import { VectorIndex } from '../store/vectorIndex.js'
+import { isInDateRange } from './dateParser.js'
+import { matchesTags, sortAndLimit, toNoteQuery } from './noteQuery.js'
+import { NoteQuery, NoteQueryResult, NoteStore } from './noteStore.js'
+
+const logger = createLogger('SemanticSearch')
+
+// Relevancia a partir de la cual una coincidencia exacta cuenta como puntuación completa
+const EXACT_SCORE_SCALE = 30
+const SEMANTIC_CANDIDATES = 20
+const EMBED_BATCH_SIZE = 50
+const MAX_EMBED_CHARS = 8000
+
+export interface SemanticSearchOptions {
+    /**
+     * Share of the final score given to cosine similarity (0 to 1)
+     */
+    semanticWeight: number
+    /**
+     * Notes less similar than this are not added on similarity alone
+     */
+    minSimilarity: number
+}
+
+function noteText(note: { titulo: string; contenido: string; etiquetas: string[] }): string {
+    const text = `${note.titulo}\n${note.etiquetas.join(', ')}\n${note.contenido}`
+    return text.slice(0, MAX_EMBED_CHARS)
+}
+
+function textHash(text: string): string {
+    return createHash('sha1').update(text).digest('hex')
+}
+
+/**
+ * Wrap a note store with semantic search. Notes are embedded when they are
+ * created or changed (and in one backfill pass for notes saved earlier), and
+ * keyword searches blend cosine similarity with the exact-match relevance.
+ * Embedding failures are logged and never break the wrapped store.
+ */
+export function createSemanticNoteStore(
+    store: NoteStore,
+    index: VectorIndex,
+    embedder: EmbeddingProvider,
+    options: SemanticSearchOptions
+): NoteStore {
+    let backfill: Promise<void> | null = null
+
+    async function indexNotes(notes: NoteQueryResult[]): Promise<void> {
+        const pending: { id: string; text: string; hash: string }[] = []
+        for (const note of notes) {
+            const text = noteText(note)
+            const hash = textHash(text)
+            if (!(await index.has(note.id, hash))) {
+                pending.push({ id: note.id, text, hash })
+            }
+        }
+
+        for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBED_BATCH_SIZE)
+            const vectors = await embedder.embed(batch.map(entry => entry.text))
+            await index.upsert(
+                batch.map((entry, position) => ({
+                    id: entry.id,
+                    vector: vectors[position],
+                    hash: entry.hash
+                }))
+            )
+        }
+    }
+
+    async function reindex(noteId: string): Promise<void> {
+        try {
+            const note = await store.getNote(noteId)
+            if (note) await indexNotes([note])
+        } catch (error) {
+            logger.error('Error embedding note', { noteId, error })
+        }
+    }
+
+    function ensureBackfilled(): Promise<void> {
+        if (!backfill) {
+            backfill = store
+                .searchNotes({})
+                .then(indexNotes)
+                .catch(error => {
+                    backfill = null
+                    logger.error('Error backfilling the vector index', error)
+                })
+        }
+        return backfill
+    }
+
+    async function semanticSearch(query: NoteQuery): Promise<NoteQueryResult[]> {
+        const exact = await store.searchNotes({ ...query, limite: undefined })
+
+        try {
+            await ensureBackfilled()
+            const [queryVector] = await embedder.embed([query.palabrasClave!])
+
+            const scored = new Map<string, { note: NoteQueryResult; score: number }>()
+            const blend = (exactScore: number, similarity: number) =>
+                (1 - options.semanticWeight) * exactScore + options.semanticWeight * similarity
+
+            for (const note of exact) {
+                const similarity = (await index.similarity(note.id, queryVector)) ?? 0
+                const exactScore = Math.min(1, (note.relevancia || 0) / EXACT_SCORE_SCALE)
+                scored.set(note.id, {
+                    note: { ...note, similitud: similarity },
+                    score: blend(exactScore, similarity)
+                })
+            }
+
+            const matches = await index.search(
+                queryVector,
+                SEMANTIC_CANDIDATES,
+                options.minSimilarity
+            )
+            for (const match of matches) {
+                if (scored.has(match.id)) continue
+                const note = await store.getNote(match.id)
+                if (!note) {
+                    await index.remove(match.id)
+                    continue
+                }
+                if (!matchesTags(note.etiquetas, query)) continue
+                if (query.fechas && !isInDateRange(note.fechaCreacion, query.fechas)) continue
+                // Solo parecida: no cuenta como coincidencia del título
+                scored.set(note.id, {
+                    note: { ...note, relevancia: 0, similitud: match.score },
+                    score: blend(0, match.score)
+                })
+            }
+
+            const ranked = [...scored.values()]
+                .sort((a, b) => b.score - a.score)
+                .map(entry => entry.note)
+            return sortAndLimit(ranked, query)
+        } catch (error) {
+            logger.error('Semantic search failed, using keyword results only', error)
+            return sortAndLimit(exact, query)
+        }
+    }
+
+    function searchNotes(query: NoteQuery): Promise<NoteQueryResult[]> {
+        return query.palabrasClave ? semanticSearch(query) : store.searchNotes(query)
+    }
+
+    return {
+        ...store,
+
+        async createNote(note) {
+            const id = await store.createNote(note)
+            if (id) await reindex(id)
+            return id
+        },
+
+        searchNotes,
+
+        queryNotes(query, etiqueta, fechas) {
+            return searchNotes(toNoteQuery(query, etiqueta, fechas))
+        },
+
+        async updateNote(noteId, changes) {
+            const success = await store.updateNote(noteId, changes)
+            if (success) await reindex(noteId)
+            return success
+        },
+
+        async updateNoteTags(noteId, newTags) {
+            const success = await store.updateNoteTags(noteId, newTags)
+            if (success) await reindex(noteId)
+            return success
+        },
+
+        async replaceTag(from, to) {
+            const changed = await store.replaceTag(from, to)
+            if (changed) {
+                for (const noteId of changed) await reindex(noteId)
+            }
+            return changed
+        },
+
+        async deleteNote(noteId) {
+            const success = await store.deleteNote(noteId)
+            if (success) {
+                await index
+                    .remove(noteId)
+                    .catch(error => logger.error('Error removing vector', error))
+            }
+            return success
+        }
+    }
+}
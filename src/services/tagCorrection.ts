@@ -0,0 +1,186 @@
+import { matchTag } from './tags.js'
+
+/**
+ * A change to the tags of one note. `reemplazar` replaces all of them; the
+ * other two are applied to the current tags. Nothing to add, remove or
+ * replace means the user is happy with the tags as they are.
+ */
+export interface TagCorrection {
+    reemplazar?: string[]
+    agregar: string[]
+    quitar: string[]
+}
+
+/**
+ * What the correction is matched against: the notebook's tags, the note's
+ * current ones and the ones suggested when it was saved
+ */
+export interface TagCorrectionContext {
+    available: string[]
+    current: string[]
+    suggested?: string[]
+}
+
+// Más palabras que esto no es una etiqueta sino otro mensaje
+const MAX_TAG_WORDS = 3
+
+const AFFIRMATION = /^(si|ok|dale|claro|vale)\b[\s,.!]*/
+const KEEP =
+    /^(no|nada|asi esta bien|asi estan bien|estan bien|esta bien|bien|todo bien|perfecto|dejalas( asi)?|dejala( asi)?)$/
+const ACCEPT_SUGGESTED =
+    /^(agregalas|anadelas|ponlas|agregala|anadela|ponla|las dos|ambas|todas|las sugeridas)$/
+const REPLACE_VERB =
+    /\b(?:cambia(?:la|le|las)?|reemplaza(?:la|le)?|sustituye(?:la|le)?|deberia(?:n)? ser|que sea(?:n)?|mejor|pon(?:le|la)? solo|deja(?:la|le)? solo)\b\s*/
+const EDIT_VERB =
+    /\b(agrega(?:le|la)?|anade(?:le|la)?|pon(?:le|la)?|suma(?:le)?|incluye|tambien|quita(?:le|la)?|elimina(?:le|la)?|borra(?:le|la)?|saca(?:le|la)?)\b/g
+const REMOVE_VERB = /^(quita|elimina|borra|saca)/
+
+/**
+ * Lowercase without accents, one character per character of the original,
+ * so that positions found in it can be used to cut the original text
+ */
+function fold(text: string): string {
+    return [...text].map(char => char.normalize('NFD')[0].toLowerCase()).join('')
+}
+
+/**
+ * The tag names of a phrase like "la etiqueta Recetas y Links útiles"
+ */
+function splitTagNames(text: string): string[] {
+    return text
+        .split(/,|;|\s+y\s+|\s+e\s+/i)
+        .map(part =>
+            part
+                .replace(/^\s*(?:y|e)\s+/i, '')
+                .replace(
+                    /^\s*(?:(?:la|las|el|los|una|otra)\s+)?(?:etiquetas?|categor[ií]as?|tags?)?\s*(?:de|a|como|por)?\s+/i,
+                    ''
+                )
+                .replace(/["'“”«»¿?¡!.]/g, '')
+                .trim()
+        )
+        .filter(Boolean)
+}
+
+/**
+ * Tag names as the notebook writes them, or as the user wrote them (with a
+ * capital letter) for new tags. Null when a name is too long to be a tag.
+ */
+export function resolveTagNames(names: string[], pool: string[]): string[] | null {
+    const resolved: string[] = []
+    for (const name of names) {
+        const known = matchTag(pool, name)
+        if (!known && name.split(/\s+/).length > MAX_TAG_WORDS) return null
+        const tag = known || name.charAt(0).toUpperCase() + name.slice(1)
+        if (!resolved.includes(tag)) resolved.push(tag)
+    }
+    return resolved
+}
+
+/**
+ * Read a reply to "¿las etiquetas están bien?": add ("agrega Ideas",
+ * "sí, también Recetas"), remove ("quita Otros"), replace ("cámbiala a
+ * Recetas", "cambia Otros por Ideas") or accept the suggested tags ("sí").
+ * Names are matched to existing tags ignoring case, accents and small typos.
+ * Returns null when the message is not about the note's tags.
+ */
+export function parseTagCorrection(
+    message: string,
+    context: TagCorrectionContext
+): TagCorrection | null {
+    const suggested = context.suggested || []
+    const pool = [...new Set([...context.current, ...suggested, ...context.available])]
+
+    let text = message.trim()
+    let folded = fold(text)
+    const affirmation = folded.match(AFFIRMATION)
+    if (affirmation) {
+        text = text.slice(affirmation[0].length)
+        folded = folded.slice(affirmation[0].length)
+    }
+    const bare = folded.replace(/[¿?¡!.,]/g, '').trim()
+
+    // "sí" a secas acepta las etiquetas sugeridas, o las deja como están si no hubo sugerencias
+    if ((!bare && affirmation) || (ACCEPT_SUGGESTED.test(bare) && suggested.length > 0)) {
+        return { agregar: [...suggested], quitar: [] }
+    }
+    if (!bare) return null
+    if (!affirmation && KEEP.test(bare)) {
+        return { agregar: [], quitar: [] }
+    }
+
+    const replace = folded.match(REPLACE_VERB)
+    if (replace) {
+        const rest = text.slice(replace.index! + replace[0].length)
+        const swap = rest.match(/^(.+?)\s+(?:por|a)\s+(.+)$/i)
+        const removed = swap ? splitTagNames(swap[1]) : []
+        // "cambia Otros por Ideas" cambia una; "cámbiala a Ideas" las reemplaza todas
+        if (swap && removed.length > 0 && removed.every(name => matchTag(context.current, name))) {
+            const agregar = resolveTagNames(splitTagNames(swap[2]), pool)
+            if (!agregar) return null
+            return {
+                agregar,
+                quitar: removed.map(name => matchTag(context.current, name)!)
+            }
+        }
+        const reemplazar = resolveTagNames(
+            splitTagNames(rest.replace(/^\s*(?:a|por)\s+/i, '')),
+            pool
+        )
+        return reemplazar && reemplazar.length > 0 ? { reemplazar, agregar: [], quitar: [] } : null
+    }
+
+    const verbs = [...folded.matchAll(EDIT_VERB)]
+    if (verbs.length > 0) {
+        const correction: TagCorrection = { agregar: [], quitar: [] }
+        for (let index = 0; index < verbs.length; index++) {
+            const verb = verbs[index]
+            const start = verb.index! + verb[0].length
+            const end = index + 1 < verbs.length ? verbs[index + 1].index! : text.length
+            const names = splitTagNames(text.slice(start, end))
+
+            if (REMOVE_VERB.test(verb[0])) {
+                // Solo se quitan etiquetas que la nota tiene
+                for (const name of names) {
+                    const tag = matchTag(context.current, name)
+                    if (tag) correction.quitar.push(tag)
+                }
+            } else {
+                const tags = resolveTagNames(names, pool)
+                if (!tags) return null
+                correction.agregar.push(...tags)
+            }
+        }
+        return correction.agregar.length > 0 || correction.quitar.length > 0 ? correction : null
+    }
+
+    // Solo nombres: "Ideas" tras una sugerencia la agrega; nombres de etiquetas existentes reemplazan
+    const names = splitTagNames(text)
+    if (names.length === 0) return null
+    const matched = names.map(name => matchTag(pool, name))
+    if (matched.some(tag => !tag)) return null
+    const tags = [...new Set(matched as string[])]
+    if (affirmation || tags.every(tag => suggested.includes(tag))) {
+        return { agregar: tags, quitar: [] }
+    }
+    return { reemplazar: tags, agregar: [], quitar: [] }
+}
+
+/**
+ * The tags of the note after the correction, in their original order
+ */
+export function applyTagCorrection(current: string[], correction: TagCorrection): string[] {
+    const base = correction.reemplazar ? [...correction.reemplazar] : [...current]
+    return [...new Set([...base, ...correction.agregar])].filter(
+        tag => !correction.quitar.includes(tag)
+    )
+}
+
+export function formatTagChangeQuestion(
+    titulo: string,
+    etiquetas: string[],
+    available: string[]
+): string {
+    const names = etiquetas.map(tag => (available.includes(tag) ? tag : `${tag} (nueva)`))
+    return `🏷️ ¿Dejo las etiquetas de "${titulo}" así: ${names.join(', ')}? Responde "sí" para guardar o "no" para cancelar.`
+}
@@ -0,0 +1,243 @@
+import { createLogger } from '../logger/index.js'
+import { NoteStore } from './noteStore.js'
+
+const logger = createLogger('Tags')
+
+export interface TagUsage {
+    etiqueta: string
+    notas: number
+}
+
+/**
+ * The outcome of renaming, merging or retiring tags
+ */
+export interface TagChange {
+    /**
+     * The tags that were replaced, as they are written in the notebook
+     */
+    etiquetas: string[]
+    /**
+     * The tag that replaced them; null when they were retired
+     */
+    destino: string | null
+    notas: number
+    /**
+     * Tags the user named that the notebook does not have
+     */
+    faltantes: string[]
+}
+
+function normalizeTag(tag: string): string {
+    return tag
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/["'“”]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+/**
+ * The tag of the notebook the user meant, ignoring case, accents and quotes
+ */
+export function findTag(available: string[], name: string): string | null {
+    const wanted = normalizeTag(name)
+    return available.find(tag => normalizeTag(tag) === wanted) || null
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            )
+        }
+        previous = current
+    }
+    return previous[b.length]
+}
+
+/**
+ * Like `findTag`, but also forgiving typos and singular or plural forms
+ * ("receta" for "Recetas"): the closest tag within one edit for short names
+ * and two for longer ones. Earlier tags win ties.
+ */
+export function matchTag(available: string[], name: string): string | null {
+    const exact = findTag(available, name)
+    if (exact) return exact
+
+    const wanted = normalizeTag(name)
+    const tolerance = wanted.length <= 4 ? 1 : 2
+    let best: { tag: string; distance: number } | null = null
+    for (const tag of available) {
+        const distance = editDistance(normalizeTag(tag), wanted)
+        if (distance <= tolerance && (!best || distance < best.distance)) {
+            best = { tag, distance }
+        }
+    }
+    return best?.tag || null
+}
+
+/**
+ * Every tag with the number of notes that use it, most used first. Tags
+ * nobody uses any more (Notion keeps them as options) count zero.
+ */
+export async function getTagUsage(store: NoteStore): Promise<TagUsage[]> {
+    const [count, available] = await Promise.all([store.getNotesCount(), store.getAvailableTags()])
+    const usage = new Map<string, number>(available.map(tag => [tag, 0]))
+    for (const [etiqueta, notas] of Object.entries(count.porEtiqueta)) {
+        usage.set(etiqueta, notas)
+    }
+    return [...usage.entries()]
+        .map(([etiqueta, notas]) => ({ etiqueta, notas }))
+        .sort((a, b) => b.notas - a.notas || a.etiqueta.localeCompare(b.etiqueta))
+}
+
+/**
+ * Work out what replacing `sources` with `destino` (or removing them, when
+ * `destino` is null) would do, without changing any note. Renaming is a
+ * merge of one tag. A destination that matches an existing tag is written
+ * the way the notebook already has it. `notas` counts the uses of the tags.
+ */
+export async function planTagChange(
+    store: NoteStore,
+    sources: string[],
+    destino: string | null
+): Promise<TagChange> {
+    const usage = await getTagUsage(store)
+    const available = usage.map(entry => entry.etiqueta)
+
+    const found: string[] = []
+    const faltantes: string[] = []
+    for (const source of sources) {
+        const tag = findTag(available, source)
+        if (!tag) {
+            faltantes.push(source)
+        } else if (!found.includes(tag)) {
+            found.push(tag)
+        }
+    }
+
+    // Comparado solo con las demás etiquetas, para que "links" pueda pasar a llamarse "Links"
+    const others = available.filter(tag => !found.includes(tag))
+    const target = destino ? findTag(others, destino) || destino.trim() : null
+    const etiquetas = found.filter(tag => tag !== target)
+    const notas = usage
+        .filter(entry => etiquetas.includes(entry.etiqueta))
+        .reduce((total, entry) => total + entry.notas, 0)
+
+    return { etiquetas, destino: target, notas, faltantes }
+}
+
+/**
+ * Plan a merge of tags into one. Without a destination the most used of them is kept.
+ */
+export async function planTagMerge(
+    store: NoteStore,
+    sources: string[],
+    destino?: string
+): Promise<TagChange> {
+    if (destino) {
+        return planTagChange(store, sources, destino)
+    }
+
+    const usage = await getTagUsage(store)
+    const kept = usage.find(entry => sources.some(source => findTag([entry.etiqueta], source)))
+    if (!kept) {
+        return { etiquetas: [], destino: null, notas: 0, faltantes: sources }
+    }
+    return planTagChange(store, sources, kept.etiqueta)
+}
+
+/**
+ * Write a planned change on every note. Returns it with the notes that
+ * actually changed, or null when the store fails.
+ */
+export async function applyTagChange(
+    store: NoteStore,
+    change: TagChange
+): Promise<TagChange | null> {
+    const changed = new Set<string>()
+    for (const tag of change.etiquetas) {
+        const ids = await store.replaceTag(tag, change.destino)
+        if (ids === false) return null
+        ids.forEach(id => changed.add(id))
+    }
+
+    logger.info('Tags replaced', {
+        etiquetas: change.etiquetas,
+        destino: change.destino,
+        notas: changed.size
+    })
+    return { ...change, notas: changed.size }
+}
+
+/**
+ * Replace `sources` with `destino` on every note, or remove them when
+ * `destino` is null. Returns null when the store fails.
+ */
+export async function replaceTags(
+    store: NoteStore,
+    sources: string[],
+    destino: string | null
+): Promise<TagChange | null> {
+    return applyTagChange(store, await planTagChange(store, sources, destino))
+}
+
+/**
+ * Merge tags into one. Without a destination the most used of them is kept.
+ */
+export async function mergeTags(
+    store: NoteStore,
+    sources: string[],
+    destino?: string
+): Promise<TagChange | null> {
+    return applyTagChange(store, await planTagMerge(store, sources, destino))
+}
+
+export function formatTagUsage(usage: TagUsage[]): string {
+    if (usage.length === 0) {
+        return '🏷️ Todavía no tienes etiquetas.'
+    }
+    const lines = usage.map(
+        entry => `• ${entry.etiqueta}: ${entry.notas} nota${entry.notas === 1 ? '' : 's'}`
+    )
+    return `🏷️ Tus etiquetas:\n\n${lines.join('\n')}`
+}
+
+export function formatTagChange(change: TagChange): string {
+    if (change.etiquetas.length === 0) {
+        return change.faltantes.length > 0
+            ? `No encontré la etiqueta ${change.faltantes.map(tag => `"${tag}"`).join(' ni ')}. Escribe "mis etiquetas" para ver cuáles tienes.`
+            : 'No hay nada que cambiar: ya es la misma etiqueta.'
+    }
+
+    const names = change.etiquetas.map(tag => `"${tag}"`).join(', ')
+    const notas = `${change.notas} nota${change.notas === 1 ? '' : 's'}`
+    let response = change.destino
+        ? `🏷️ Listo: ${names} ahora es "${change.destino}" (${notas} actualizada${change.notas === 1 ? '' : 's'}).`
+        : `🏷️ Listo: quité ${names} de ${notas}.`
+    if (change.faltantes.length > 0) {
+        response += `\nNo encontré: ${change.faltantes.map(tag => `"${tag}"`).join(', ')}.`
+    }
+    return response
+}
+
+/**
+ * Ask before a planned change touches every note that has the tags
+ */
+export function formatTagChangeConfirmation(change: TagChange): string {
+    const names = change.etiquetas.map(tag => `"${tag}"`).join(', ')
+    const notas = `${change.notas} nota${change.notas === 1 ? '' : 's'}`
+    let question = change.destino
+        ? `🏷️ Voy a cambiar ${names} por "${change.destino}" en ${notas}.`
+        : `🏷️ Voy a quitar ${names} de ${notas}.`
+    if (change.faltantes.length > 0) {
+        question += `\nNo encontré: ${change.faltantes.map(tag => `"${tag}"`).join(', ')}.`
+    }
+    return `${question}\n\n¿Lo hago? Responde "sí" para confirmar o "no" para cancelar.`
+}
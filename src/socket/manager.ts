@@ -15,3 +15,12 @@ export async function disconnectSocket() {
         await currentSocket.logout()
     }
 }
+
+/**
+ * Send a text message through the current socket. Returns false while disconnected.
+ */
+export async function sendTextMessage(jid: string, text: string): Promise<boolean> {
+    if (!currentSocket) return false
+    await currentSocket.sendMessage(jid, { text })
+    return true
+}
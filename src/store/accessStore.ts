@@ -0,0 +1,76 @@
+import { config } from '../config/index.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+
+export type AccessMode = 'open' | 'allowlist'
+
+export interface InviteCode {
+    code: string
+    createdAt: string
+    usedBy?: string
+    usedAt?: string
+}
+
+export interface AccessRules {
+    /**
+     * `open` lets anyone not blocked use the bot; `allowlist` only allowed JIDs
+     */
+    mode: AccessMode
+    allowed: string[]
+    blocked: string[]
+    invites: InviteCode[]
+}
+
+export interface AccessStore {
+    getRules(): Promise<AccessRules>
+    update(change: (rules: AccessRules) => void): Promise<AccessRules>
+}
+
+function initialRules(): AccessRules {
+    return {
+        mode: config.access.mode === 'allowlist' ? 'allowlist' : 'open',
+        allowed: [...config.access.allowlist],
+        blocked: [...config.access.blocklist],
+        invites: []
+    }
+}
+
+/**
+ * Access rules persisted as JSON. The file is seeded from the environment the
+ * first time and edited from the dashboard afterwards.
+ */
+export function createAccessStore(filePath: string): AccessStore {
+    let rules: AccessRules | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<AccessRules> {
+        if (!rules) {
+            rules = await readJsonFile<AccessRules>(filePath, initialRules())
+        }
+        return rules
+    }
+
+    return {
+        getRules: load,
+
+        async update(change) {
+            const current = await load()
+            change(current)
+            writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, current))
+            await writing
+            return current
+        }
+    }
+}
+
+let currentStore: AccessStore | null = null
+
+export function getAccessStore(): AccessStore {
+    if (!currentStore) {
+        currentStore = createAccessStore(config.access.rulesPath)
+    }
+    return currentStore
+}
+
+export function setAccessStore(store: AccessStore | null): void {
+    currentStore = store
+}
@@ -0,0 +1,310 @@
+import { config } from '../config/index.js'
+import { createLogger } from '../logger/index.js'
+import { NoteData } from '../services/noteStore.js'
+import { TagChange } from '../services/tags.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+import { openSqliteFile, SqliteFile } from './sqlite.js'
+
+const logger = createLogger('ConversationStore')
+
+export interface LastNoteContext {
+    id: string
+    titulo: string
+    etiquetas: string[]
+}
+
+/**
+ * The last list of notes shown, so the user can pick one by number or page on
+ */
+export interface ResultListContext {
+    ids: string[]
+    /**
+     * How many of `ids` have been shown so far
+     */
+    shown: number
+}
+
+/**
+ * A note held back because it repeats an existing one, until the user says
+ * whether to merge it, update the existing note or save it anyway
+ */
+export interface PendingDuplicateContext {
+    note: Omit<NoteData, 'adjuntos'>
+    suggestedTags?: string[]
+    existing: LastNoteContext
+}
+
+/**
+ * What the bot remembers about a chat between messages
+ */
+export interface ConversationState {
+    lastNote?: LastNoteContext
+    awaitingTagCorrection?: boolean
+    lastQuery?: string
+    lastResults?: ResultListContext
+    /**
+     * Note the user asked to delete, waiting for a "sí" or "no"
+     */
+    pendingDelete?: LastNoteContext
+    /**
+     * Note IDs of the last reminder list, so "cancela el 2" means what the user saw
+     */
+    lastReminders?: string[]
+    pendingDuplicate?: PendingDuplicateContext
+    /**
+     * Tags offered when the last note was saved, so "sí" or "agrégalas" adds them
+     */
+    suggestedTags?: string[]
+    /**
+     * New tags for a note, waiting for the user to confirm them
+     */
+    pendingTagChange?: LastNoteContext
+    /**
+     * Tags to rename, merge or retire on every note, waiting for a "sí" or "no"
+     */
+    pendingTagsUpdate?: TagChange
+}
+
+export interface ConversationEntry {
+    chatId: string
+    state: ConversationState
+    updatedAt: string
+    expiresAt: string
+}
+
+export interface ConversationBackend {
+    get(chatId: string): Promise<ConversationEntry | null>
+    set(entry: ConversationEntry): Promise<void>
+    delete(chatId: string): Promise<boolean>
+    list(): Promise<ConversationEntry[]>
+}
+
+export interface ConversationStore {
+    get(chatId: string): Promise<ConversationState>
+    save(chatId: string, state: ConversationState): Promise<void>
+    clear(chatId: string): Promise<boolean>
+    list(): Promise<ConversationEntry[]>
+    purgeExpired(): Promise<number>
+}
+
+export function createFileConversationBackend(filePath: string): ConversationBackend {
+    let entries: Record<string, ConversationEntry> | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<Record<string, ConversationEntry>> {
+        if (!entries) {
+            entries = await readJsonFile<Record<string, ConversationEntry>>(filePath, {})
+        }
+        return entries
+    }
+
+    function persist(): Promise<void> {
+        writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, entries))
+        return writing
+    }
+
+    return {
+        async get(chatId) {
+            return (await load())[chatId] || null
+        },
+        async set(entry) {
+            const all = await load()
+            all[entry.chatId] = entry
+            await persist()
+        },
+        async delete(chatId) {
+            const all = await load()
+            if (!all[chatId]) return false
+            delete all[chatId]
+            await persist()
+            return true
+        },
+        async list() {
+            return Object.values(await load())
+        }
+    }
+}
+
+interface ConversationRow {
+    chat_id: string
+    state: string
+    updated_at: string
+    expires_at: string
+}
+
+export function createSqliteConversationBackend(filePath: string): ConversationBackend {
+    let opening: Promise<SqliteFile> | null = null
+
+    function open(): Promise<SqliteFile> {
+        if (!opening) {
+            opening = openSqliteFile(filePath).then(file => {
+                file.db.run(`
+                    CREATE TABLE IF NOT EXISTS conversations (
+                        chat_id TEXT PRIMARY KEY,
+                        state TEXT NOT NULL,
+                        updated_at TEXT NOT NULL,
+                        expires_at TEXT NOT NULL
+                    )
+                `)
+                return file
+            })
+        }
+        return opening
+    }
+
+    function toEntry(row: ConversationRow): ConversationEntry {
+        return {
+            chatId: row.chat_id,
+            state: JSON.parse(row.state),
+            updatedAt: row.updated_at,
+            expiresAt: row.expires_at
+        }
+    }
+
+    return {
+        async get(chatId) {
+            const file = await open()
+            const [row] = file.all<ConversationRow>(
+                'SELECT * FROM conversations WHERE chat_id = ?',
+                [chatId]
+            )
+            return row ? toEntry(row) : null
+        },
+        async set(entry) {
+            const file = await open()
+            file.db.run(
+                `INSERT INTO conversations (chat_id, state, updated_at, expires_at)
+                 VALUES (?, ?, ?, ?)
+                 ON CONFLICT(chat_id) DO UPDATE SET
+                    state = excluded.state,
+                    updated_at = excluded.updated_at,
+                    expires_at = excluded.expires_at`,
+                [entry.chatId, JSON.stringify(entry.state), entry.updatedAt, entry.expiresAt]
+            )
+            await file.save()
+        },
+        async delete(chatId) {
+            const file = await open()
+            file.db.run('DELETE FROM conversations WHERE chat_id = ?', [chatId])
+            const removed = file.db.getRowsModified() > 0
+            if (removed) await file.save()
+            return removed
+        },
+        async list() {
+            const file = await open()
+            return file
+                .all<ConversationRow>('SELECT * FROM conversations ORDER BY updated_at DESC')
+                .map(toEntry)
+        }
+    }
+}
+
+function isEmptyState(state: ConversationState): boolean {
+    return Object.values(state).every(value => value === undefined || value === false)
+}
+
+/**
+ * Conversation state with TTL expiry. Expired entries read as empty and are
+ * dropped lazily on access or in bulk by `purgeExpired`.
+ */
+export function createConversationStore(
+    backend: ConversationBackend,
+    ttlMs: number
+): ConversationStore {
+    const isExpired = (entry: ConversationEntry, now = Date.now()) =>
+        new Date(entry.expiresAt).getTime() <= now
+
+    return {
+        async get(chatId) {
+            const entry = await backend.get(chatId)
+            if (!entry) return {}
+            if (isExpired(entry)) {
+                await backend.delete(chatId)
+                return {}
+            }
+            return entry.state
+        },
+
+        async save(chatId, state) {
+            if (isEmptyState(state)) {
+                await backend.delete(chatId)
+                return
+            }
+
+            const now = Date.now()
+            await backend.set({
+                chatId,
+                state,
+                updatedAt: new Date(now).toISOString(),
+                expiresAt: new Date(now + ttlMs).toISOString()
+            })
+        },
+
+        clear(chatId) {
+            return backend.delete(chatId)
+        },
+
+        async list() {
+            const now = Date.now()
+            return (await backend.list()).filter(entry => !isExpired(entry, now))
+        },
+
+        async purgeExpired() {
+            const now = Date.now()
+            const expired = (await backend.list()).filter(entry => isExpired(entry, now))
+            for (const entry of expired) {
+                await backend.delete(entry.chatId)
+            }
+            return expired.length
+        }
+    }
+}
+
+let currentStore: ConversationStore | null = null
+
+function createConfiguredBackend(): ConversationBackend {
+    const { persistence, filePath } = config.conversation
+    switch (persistence) {
+        case 'file':
+            return createFileConversationBackend(filePath || 'ikigai_data/conversations.json')
+        case 'sqlite':
+            return createSqliteConversationBackend(filePath || 'ikigai_data/conversations.sqlite')
+        default:
+            throw new Error(`Unknown conversation store "${persistence}". Use "file" or "sqlite".`)
+    }
+}
+
+/**
+ * Get the conversation store selected by `CONVERSATION_STORE`, creating it on first use
+ */
+export function getConversationStore(): ConversationStore {
+    if (!currentStore) {
+        currentStore = createConversationStore(
+            createConfiguredBackend(),
+            config.conversation.ttlMinutes * 60 * 1000
+        )
+        logger.info('Conversation store initialized', {
+            persistence: config.conversation.persistence,
+            ttlMinutes: config.conversation.ttlMinutes
+        })
+    }
+    return currentStore
+}
+
+/**
+ * Periodically drop expired conversations so the store does not grow without limit
+ */
+export function startConversationSweeper(intervalMs: number = 10 * 60 * 1000): NodeJS.Timeout {
+    const timer = setInterval(async () => {
+        try {
+            const removed = await getConversationStore().purgeExpired()
+            if (removed > 0) {
+                logger.debug('Expired conversations purged', { removed })
+            }
+        } catch (error) {
+            logger.error('Error purging expired conversations', error)
+        }
+    }, intervalMs)
+    timer.unref()
+    return timer
+}
@@ -0,0 +1,99 @@
+import { config } from '../config/index.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+
+export interface JobSchedule {
+    frequency: 'daily' | 'weekly'
+    /**
+     * Local time of day, "HH:MM"
+     */
+    time: string
+    /**
+     * Day of weekly jobs: 0 is Sunday
+     */
+    weekday?: number
+}
+
+/**
+ * A recurring task for one chat. `nextRunAt` is the next slot to run;
+ * `lastRunAt` when the last run completed, so a late run isn't covered twice.
+ */
+export interface Job {
+    id: string
+    type: string
+    chatId: string
+    schedule: JobSchedule
+    payload?: Record<string, unknown>
+    nextRunAt: string
+    lastRunAt?: string
+    createdAt: string
+}
+
+export interface JobStore {
+    list(): Promise<Job[]>
+    get(id: string): Promise<Job | null>
+    save(job: Job): Promise<void>
+    remove(id: string): Promise<boolean>
+}
+
+interface JobsFile {
+    jobs: Record<string, Job>
+}
+
+/**
+ * Scheduled jobs persisted as JSON, so runs are neither lost nor repeated
+ * when the bot restarts
+ */
+export function createJobStore(filePath: string): JobStore {
+    let data: JobsFile | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<JobsFile> {
+        if (!data) {
+            data = await readJsonFile<JobsFile>(filePath, { jobs: {} })
+        }
+        return data
+    }
+
+    function persist(): Promise<void> {
+        writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, data))
+        return writing
+    }
+
+    return {
+        async list() {
+            return Object.values((await load()).jobs).map(job => ({ ...job }))
+        },
+
+        async get(id) {
+            const job = (await load()).jobs[id]
+            return job ? { ...job } : null
+        },
+
+        async save(job) {
+            const file = await load()
+            file.jobs[job.id] = { ...job }
+            await persist()
+        },
+
+        async remove(id) {
+            const file = await load()
+            if (!file.jobs[id]) return false
+            delete file.jobs[id]
+            await persist()
+            return true
+        }
+    }
+}
+
+let currentStore: JobStore | null = null
+
+export function getJobStore(): JobStore {
+    if (!currentStore) {
+        currentStore = createJobStore(config.jobs.path)
+    }
+    return currentStore
+}
+
+export function setJobStore(store: JobStore | null): void {
+    currentStore = store
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Read a JSON file, returning `fallback` when it does not exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+    try {
+        const raw = await fs.readFile(filePath, 'utf8')
+        return JSON.parse(raw) as T
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return fallback
+        }
+        throw error
+    }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename), creating parent folders
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8')
+    await fs.rename(tempPath, filePath)
+}
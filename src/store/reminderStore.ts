@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto'
+
+import { config } from '../config/index.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+
+export type ReminderStatus = 'pending' | 'sent' | 'cancelled' | 'missed'
+
+/**
+ * One WhatsApp message to send before an event note
+ */
+export interface Reminder {
+    id: string
+    /**
+     * Chat the reminder is sent to (the user, or the group the note was saved in)
+     */
+    chatId: string
+    noteId: string
+    titulo: string
+    fechaEvento: string
+    remindAt: string
+    status: ReminderStatus
+    createdAt: string
+    sentAt?: string
+}
+
+export type NewReminder = Pick<
+    Reminder,
+    'chatId' | 'noteId' | 'titulo' | 'fechaEvento' | 'remindAt'
+>
+
+export type ReminderChanges = Partial<Pick<Reminder, 'remindAt' | 'status' | 'sentAt'>>
+
+export interface ReminderStore {
+    /**
+     * Every reminder of a chat, or of all chats when omitted, by `remindAt`
+     */
+    list(chatId?: string): Promise<Reminder[]>
+    add(reminders: NewReminder[]): Promise<Reminder[]>
+    update(id: string, changes: ReminderChanges): Promise<Reminder | null>
+    /**
+     * Pending reminders whose time has come
+     */
+    due(now: Date): Promise<Reminder[]>
+}
+
+interface RemindersFile {
+    reminders: Reminder[]
+}
+
+/**
+ * Reminders persisted as JSON, so the schedule survives restarts
+ */
+export function createReminderStore(filePath: string): ReminderStore {
+    let data: RemindersFile | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<RemindersFile> {
+        if (!data) {
+            data = await readJsonFile<RemindersFile>(filePath, { reminders: [] })
+        }
+        return data
+    }
+
+    function persist(): Promise<void> {
+        writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, data))
+        return writing
+    }
+
+    const byTime = (a: Reminder, b: Reminder) => a.remindAt.localeCompare(b.remindAt)
+
+    return {
+        async list(chatId) {
+            const { reminders } = await load()
+            return reminders
+                .filter(reminder => !chatId || reminder.chatId === chatId)
+                .sort(byTime)
+                .map(reminder => ({ ...reminder }))
+        },
+
+        async add(entries) {
+            if (entries.length === 0) return []
+            const file = await load()
+            const createdAt = new Date().toISOString()
+            const added = entries.map(entry => ({
+                ...entry,
+                id: randomUUID(),
+                status: 'pending' as const,
+                createdAt
+            }))
+            file.reminders.push(...added)
+            await persist()
+            return added.map(reminder => ({ ...reminder }))
+        },
+
+        async update(id, changes) {
+            const file = await load()
+            const reminder = file.reminders.find(candidate => candidate.id === id)
+            if (!reminder) return null
+            Object.assign(reminder, changes)
+            await persist()
+            return { ...reminder }
+        },
+
+        async due(now) {
+            const { reminders } = await load()
+            const time = now.getTime()
+            return reminders
+                .filter(
+                    reminder =>
+                        reminder.status === 'pending' &&
+                        new Date(reminder.remindAt).getTime() <= time
+                )
+                .sort(byTime)
+                .map(reminder => ({ ...reminder }))
+        }
+    }
+}
+
+let currentStore: ReminderStore | null = null
+
+export function getReminderStore(): ReminderStore {
+    if (!currentStore) {
+        currentStore = createReminderStore(config.reminders.path)
+    }
+    return currentStore
+}
+
+export function setReminderStore(store: ReminderStore | null): void {
+    currentStore = store
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js'
+
+let sqlJs: Promise<SqlJsStatic> | null = null
+
+export interface SqliteFile {
+    db: Database
+    /**
+     * Run a statement and return the rows as plain objects
+     */
+    all<T>(sql: string, params?: SqlValue[]): T[]
+    /**
+     * Write the in-memory database back to disk
+     */
+    save(): Promise<void>
+}
+
+/**
+ * Open a SQLite database file through sql.js (WebAssembly, no native build).
+ * The database is kept in memory and written back atomically on `save()`.
+ */
+export async function openSqliteFile(filePath: string): Promise<SqliteFile> {
+    if (!sqlJs) {
+        sqlJs = initSqlJs()
+    }
+    const SQL = await sqlJs
+
+    let contents: Buffer | undefined
+    try {
+        contents = await fs.readFile(filePath)
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+
+    const db = new SQL.Database(contents)
+    let writing: Promise<void> = Promise.resolve()
+
+    return {
+        db,
+
+        all<T>(sql: string, params: SqlValue[] = []): T[] {
+            const statement = db.prepare(sql)
+            try {
+                statement.bind(params)
+                const rows: T[] = []
+                while (statement.step()) {
+                    rows.push(statement.getAsObject() as T)
+                }
+                return rows
+            } finally {
+                statement.free()
+            }
+        },
+
+        save(): Promise<void> {
+            writing = writing
+                .catch(() => undefined)
+                .then(async () => {
+                    await fs.mkdir(path.dirname(filePath), { recursive: true })
+                    const tempPath = `${filePath}.tmp`
+                    await fs.writeFile(tempPath, Buffer.from(db.export()))
+                    await fs.rename(tempPath, filePath)
+                })
+            return writing
+        }
+    }
+}
@@ -0,0 +1,77 @@
+import { config } from '../config/index.js'
+import { Notebook } from '../services/noteStore.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+
+export type UserStatus = 'pending' | 'active'
+
+export interface RegisteredUser {
+    jid: string
+    status: UserStatus
+    /**
+     * Set once onboarding has finished
+     */
+    notebook?: Notebook
+    name?: string
+    registeredAt: string
+}
+
+export interface UserRegistry {
+    get(jid: string): Promise<RegisteredUser | null>
+    save(user: RegisteredUser): Promise<void>
+    remove(jid: string): Promise<boolean>
+    list(): Promise<RegisteredUser[]>
+}
+
+/**
+ * Maps each WhatsApp JID to its own notebook, persisted as a JSON file
+ */
+export function createUserRegistry(filePath: string): UserRegistry {
+    let users: Record<string, RegisteredUser> | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<Record<string, RegisteredUser>> {
+        if (!users) {
+            users = await readJsonFile<Record<string, RegisteredUser>>(filePath, {})
+        }
+        return users
+    }
+
+    function persist(): Promise<void> {
+        writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, users))
+        return writing
+    }
+
+    return {
+        async get(jid) {
+            return (await load())[jid] || null
+        },
+        async save(user) {
+            const all = await load()
+            all[user.jid] = user
+            await persist()
+        },
+        async remove(jid) {
+            const all = await load()
+            if (!all[jid]) return false
+            delete all[jid]
+            await persist()
+            return true
+        },
+        async list() {
+            return Object.values(await load())
+        }
+    }
+}
+
+let currentRegistry: UserRegistry | null = null
+
+export function getUserRegistry(): UserRegistry {
+    if (!currentRegistry) {
+        currentRegistry = createUserRegistry(config.users.registryPath)
+    }
+    return currentRegistry
+}
+
+export function setUserRegistry(registry: UserRegistry | null): void {
+    currentRegistry = registry
+}
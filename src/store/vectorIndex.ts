@@ -0,0 +1,110 @@
+import { createLogger } from '../logger/index.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+
+const logger = createLogger('VectorIndex')
+
+interface IndexedVector {
+    vector: number[]
+    /**
+     * Hash of the embedded text, to skip notes that have not changed
+     */
+    hash: string
+}
+
+interface VectorIndexFile {
+    model: string
+    vectors: Record<string, IndexedVector>
+}
+
+export interface VectorMatch {
+    id: string
+    score: number
+}
+
+export interface VectorIndex {
+    has(id: string, hash: string): Promise<boolean>
+    upsert(entries: { id: string; vector: number[]; hash: string }[]): Promise<void>
+    remove(id: string): Promise<void>
+    similarity(id: string, vector: number[]): Promise<number | null>
+    search(vector: number[], limit: number, minScore?: number): Promise<VectorMatch[]>
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0
+    let dot = 0
+    let normA = 0
+    let normB = 0
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i]
+        normA += a[i] * a[i]
+        normB += b[i] * b[i]
+    }
+    if (normA === 0 || normB === 0) return 0
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * Note vectors kept in one JSON file and searched by brute force, which is
+ * plenty for a personal notebook. Vectors from another model are dropped on load.
+ */
+export function createVectorIndex(filePath: string, model: string): VectorIndex {
+    let data: VectorIndexFile | null = null
+    let writing: Promise<void> = Promise.resolve()
+
+    async function load(): Promise<VectorIndexFile> {
+        if (!data) {
+            const file = await readJsonFile<VectorIndexFile>(filePath, { model, vectors: {} })
+            if (file.model !== model) {
+                logger.info('Embedding model changed, discarding the vector index', {
+                    previous: file.model,
+                    model
+                })
+                data = { model, vectors: {} }
+            } else {
+                data = file
+            }
+        }
+        return data
+    }
+
+    function persist(): Promise<void> {
+        writing = writing.catch(() => undefined).then(() => writeJsonFile(filePath, data))
+        return writing
+    }
+
+    return {
+        async has(id, hash) {
+            return (await load()).vectors[id]?.hash === hash
+        },
+
+        async upsert(entries) {
+            if (entries.length === 0) return
+            const file = await load()
+            for (const { id, vector, hash } of entries) {
+                file.vectors[id] = { vector, hash }
+            }
+            await persist()
+        },
+
+        async remove(id) {
+            const file = await load()
+            if (!file.vectors[id]) return
+            delete file.vectors[id]
+            await persist()
+        },
+
+        async similarity(id, vector) {
+            const entry = (await load()).vectors[id]
+            return entry ? cosineSimilarity(entry.vector, vector) : null
+        },
+
+        async search(vector, limit, minScore = 0) {
+            const file = await load()
+            return Object.entries(file.vectors)
+                .map(([id, entry]) => ({ id, score: cosineSimilarity(entry.vector, vector) }))
+                .filter(match => match.score >= minScore)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+        }
+    }
+}
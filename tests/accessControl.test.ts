@@ -0,0 +1,63 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { config } from '../src/config/index'
+import {
+    blockJid,
+    checkAccess,
+    createInviteCode,
+    normalizeJid,
+    setAccessMode
+} from '../src/services/accessControl'
+import { AccessStore, createAccessStore } from '../src/store/accessStore'
+
+const alice = '5215550001@s.whatsapp.net'
+
+describe('checkAccess', () => {
+    let dir: string
+    let store: AccessStore
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-access-'))
+        store = createAccessStore(path.join(dir, 'access.json'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('lets everyone in when open, except blocked senders', async () => {
+        expect(await checkAccess(alice, 'hola', false, store)).toEqual({ status: 'allowed' })
+
+        await blockJid(alice, store)
+        expect(await checkAccess(alice, 'hola', false, store)).toEqual({ status: 'blocked' })
+        expect(await checkAccess(alice, 'hola', true, store)).toEqual({ status: 'blocked' })
+    })
+
+    it('rejects unknown senders politely in allowlist mode', async () => {
+        await setAccessMode('allowlist', store)
+
+        expect(await checkAccess(alice, 'hola', false, store)).toEqual({
+            status: 'rejected',
+            reply: config.access.rejectionMessage
+        })
+    })
+
+    it('allowlists a sender who redeems an invite code, only once', async () => {
+        await setAccessMode('allowlist', store)
+        const invite = await createInviteCode(store)
+
+        const redeemed = await checkAccess(alice, ` ${invite.code.toLowerCase()} `, false, store)
+        expect(redeemed.status).toBe('redeemed')
+        expect(await checkAccess(alice, 'hola', false, store)).toEqual({ status: 'allowed' })
+
+        const bob = '5215550002@s.whatsapp.net'
+        expect((await checkAccess(bob, invite.code, false, store)).status).toBe('rejected')
+    })
+
+    it('normalizes phone numbers typed in the dashboard', () => {
+        expect(normalizeJid('+52 1 555 000 1')).toBe('5215550001@s.whatsapp.net')
+        expect(normalizeJid('120363000000@g.us')).toBe('120363000000@g.us')
+    })
+})
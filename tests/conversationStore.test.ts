@@ -0,0 +1,64 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+    ConversationBackend,
+    createConversationStore,
+    createFileConversationBackend,
+    createSqliteConversationBackend
+} from '../src/store/conversationStore'
+
+const backends: [string, (dir: string) => ConversationBackend][] = [
+    ['file', dir => createFileConversationBackend(path.join(dir, 'conversations.json'))],
+    ['sqlite', dir => createSqliteConversationBackend(path.join(dir, 'conversations.sqlite'))]
+]
+
+describe.each(backends)('conversation store (%s)', (_name, createBackend) => {
+    let dir: string
+    let now: number
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-conversations-'))
+        now = Date.parse('2025-06-01T10:00:00.000Z')
+        jest.spyOn(Date, 'now').mockImplementation(() => now)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('survives a restart', async () => {
+        const store = createConversationStore(createBackend(dir), 60_000)
+        await store.save('123@s.whatsapp.net', { lastQuery: 'arepas' })
+
+        const reopened = createConversationStore(createBackend(dir), 60_000)
+        expect(await reopened.get('123@s.whatsapp.net')).toEqual({ lastQuery: 'arepas' })
+    })
+
+    it('expires state after the TTL', async () => {
+        const store = createConversationStore(createBackend(dir), 60_000)
+        await store.save('a', { lastQuery: 'pasta' })
+        await store.save('b', { awaitingTagCorrection: true })
+
+        now += 61_000
+        await store.save('b', { awaitingTagCorrection: true })
+
+        expect(await store.list()).toHaveLength(1)
+        expect(await store.get('a')).toEqual({})
+        expect(await store.purgeExpired()).toBe(0)
+    })
+
+    it('clears a chat and drops empty state', async () => {
+        const store = createConversationStore(createBackend(dir), 60_000)
+        await store.save('a', { lastQuery: 'pasta' })
+        await store.save('b', { lastQuery: 'vino' })
+
+        expect(await store.clear('a')).toBe(true)
+        expect(await store.clear('a')).toBe(false)
+
+        await store.save('b', { awaitingTagCorrection: false, lastQuery: undefined })
+        expect(await store.list()).toEqual([])
+    })
+})
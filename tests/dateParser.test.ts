@@ -0,0 +1,62 @@
+import { isInDateRange, parseDateRange } from '../src/services/dateParser'
+
+// Miércoles 19 de marzo de 2025, 15:30 hora local
+const NOW = new Date(2025, 2, 19, 15, 30)
+
+function local(year: number, month: number, day: number): string {
+    return new Date(year, month - 1, day).toISOString()
+}
+
+describe('parseDateRange', () => {
+    it.each([
+        ['hoy', local(2025, 3, 19), local(2025, 3, 20), 'hoy'],
+        ['¿Qué guardé ayer?', local(2025, 3, 18), local(2025, 3, 19), 'ayer'],
+        ['anteayer', local(2025, 3, 17), local(2025, 3, 18), 'anteayer'],
+        [
+            'Muéstrame mis notas de esta semana',
+            local(2025, 3, 17),
+            local(2025, 3, 24),
+            'esta semana'
+        ],
+        ['la semana pasada', local(2025, 3, 10), local(2025, 3, 17), 'la semana pasada'],
+        ['recetas de este mes', local(2025, 3, 1), local(2025, 4, 1), 'este mes'],
+        ['el mes pasado', local(2025, 2, 1), local(2025, 3, 1), 'el mes pasado'],
+        ['en marzo', local(2025, 3, 1), local(2025, 4, 1), 'marzo de 2025'],
+        ['en octubre', local(2024, 10, 1), local(2024, 11, 1), 'octubre de 2024'],
+        ['notas de 2023', local(2023, 1, 1), local(2024, 1, 1), '2023'],
+        ['el 5 de marzo', local(2025, 3, 5), local(2025, 3, 6), 'el 5 de marzo de 2025'],
+        ['14/02/2024', local(2024, 2, 14), local(2024, 2, 15), 'el 14 de febrero de 2024'],
+        [
+            'del 3 al 10 de marzo',
+            local(2025, 3, 3),
+            local(2025, 3, 11),
+            'del 3 al 10 de marzo de 2025'
+        ],
+        ['los últimos 7 días', local(2025, 3, 13), local(2025, 3, 20), 'los últimos 7 días'],
+        ['hace dos semanas', local(2025, 3, 3), local(2025, 3, 10), 'hace dos semanas'],
+        ['el lunes', local(2025, 3, 17), local(2025, 3, 18), 'el lunes']
+    ])('parses "%s"', (text, start, end, label) => {
+        expect(parseDateRange(text, NOW)).toEqual({ start, end, label })
+    })
+
+    it('supports open ranges', () => {
+        expect(parseDateRange('desde el 1 de marzo', NOW)).toEqual({
+            start: local(2025, 3, 1),
+            label: 'desde el 1 de marzo de 2025'
+        })
+        expect(parseDateRange('antes de 2024', NOW)).toEqual({
+            end: local(2024, 1, 1),
+            label: 'antes de 2024'
+        })
+    })
+
+    it('returns null when there is no date', () => {
+        expect(parseDateRange('recetas con pollo', NOW)).toBeNull()
+    })
+
+    it('checks timestamps against a range', () => {
+        const range = parseDateRange('ayer', NOW)!
+        expect(isInDateRange(new Date(2025, 2, 18, 23, 59).toISOString(), range)).toBe(true)
+        expect(isInDateRange(new Date(2025, 2, 19, 0, 0).toISOString(), range)).toBe(false)
+    })
+})
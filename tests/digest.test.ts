@@ -0,0 +1,181 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+    buildDigest,
+    createDigestHandler,
+    DIGEST_JOB,
+    parseDigestTime,
+    subscribeDigest
+} from '../src/services/digest'
+import { createJobRunner, nextRunTime } from '../src/services/jobRunner'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { NoteStore } from '../src/services/noteStore'
+import { createJobStore } from '../src/store/jobStore'
+import { createReminderStore } from '../src/store/reminderStore'
+
+const CHAT = '5215500000000@s.whatsapp.net'
+
+describe('job schedule', () => {
+    it('finds the next daily and weekly slot', () => {
+        // Lunes 5 de mayo de 2025
+        const monday = new Date(2025, 4, 5, 9, 0)
+        expect(nextRunTime({ frequency: 'daily', time: '08:00' }, monday)).toEqual(
+            new Date(2025, 4, 6, 8, 0)
+        )
+        expect(nextRunTime({ frequency: 'daily', time: '20:30' }, monday)).toEqual(
+            new Date(2025, 4, 5, 20, 30)
+        )
+        expect(nextRunTime({ frequency: 'weekly', time: '08:00', weekday: 1 }, monday)).toEqual(
+            new Date(2025, 4, 12, 8, 0)
+        )
+        expect(nextRunTime({ frequency: 'weekly', time: '08:00', weekday: 5 }, monday)).toEqual(
+            new Date(2025, 4, 9, 8, 0)
+        )
+    })
+
+    it('reads digest times', () => {
+        expect(parseDigestTime('8')).toBe('08:00')
+        expect(parseDigestTime('a las 8:30')).toBe('08:30')
+        expect(parseDigestTime('a las 7 de la tarde')).toBe('19:00')
+        expect(parseDigestTime('9 pm')).toBe('21:00')
+        expect(parseDigestTime('temprano')).toBeNull()
+    })
+})
+
+describe('digest', () => {
+    let dir: string
+    let notes: NoteStore
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-digest-'))
+        notes = createLocalNoteStore(path.join(dir, 'notes.json'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('lists new notes by tag, upcoming events and unclassified notes', async () => {
+        await notes.createNote({ titulo: 'Arepas', contenido: 'Harina', etiquetas: ['Recetas'] })
+        await notes.createNote({
+            titulo: 'Pasta',
+            contenido: 'Tomate',
+            etiquetas: ['Recetas', 'Ideas']
+        })
+        await notes.createNote({
+            titulo: 'Algo suelto',
+            contenido: 'Sin tema',
+            etiquetas: ['Otros']
+        })
+        await notes.createNote({
+            titulo: 'Suelta del mes pasado',
+            contenido: 'Ya estuvo en otro resumen',
+            etiquetas: ['Otros'],
+            fechaCreacion: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+        })
+
+        const reminders = createReminderStore(path.join(dir, 'reminders.json'))
+        const now = new Date()
+        const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000)
+        const pad = (value: number) => String(value).padStart(2, '0')
+        const fechaEvento = `${tomorrow.getFullYear()}-${pad(tomorrow.getMonth() + 1)}-${pad(tomorrow.getDate())}T10:00`
+        await reminders.add([
+            {
+                chatId: CHAT,
+                noteId: 'event-1',
+                titulo: 'Reunión con Carla',
+                fechaEvento,
+                remindAt: now.toISOString()
+            }
+        ])
+
+        const digest = await buildDigest(
+            notes,
+            await reminders.list(CHAT),
+            'daily',
+            new Date(now.getTime() - 60 * 60 * 1000),
+            new Date(now.getTime() + 1000)
+        )
+
+        expect(digest).toContain('📰 Tu resumen diario')
+        expect(digest).toContain('📝 3 notas nuevas')
+        expect(digest).toMatch(/🏷️ Recetas \(2\)\n {3}• (Arepas|Pasta)\n {3}• (Arepas|Pasta)/)
+        expect(digest).toContain('🏷️ Ideas (1)\n   • Pasta')
+        expect(digest).toContain('🗓️ Próximos eventos:\n   • Reunión con Carla')
+        expect(digest).toContain('🔖 Notas sin clasificar (1):\n   • Algo suelto')
+        expect(digest).not.toContain('Suelta del mes pasado')
+        expect(digest).toContain('📊 Tienes 4 notas en total.')
+    })
+
+    it('sends each slot once, across restarts, and catches up after downtime', async () => {
+        const jobsPath = path.join(dir, 'jobs.json')
+        const subscribedAt = new Date()
+        const job = await subscribeDigest(
+            createJobStore(jobsPath),
+            CHAT,
+            { id: 'default' },
+            'daily',
+            '08:00',
+            subscribedAt
+        )
+        expect(job.type).toBe(DIGEST_JOB)
+        await notes.createNote({ titulo: 'Arepas', contenido: 'Harina', etiquetas: ['Recetas'] })
+
+        const sent: string[] = []
+        const handlers = {
+            [DIGEST_JOB]: createDigestHandler(
+                async (_, text) => {
+                    sent.push(text)
+                    return true
+                },
+                createReminderStore(path.join(dir, 'reminders.json')),
+                () => notes
+            )
+        }
+
+        // Tres días sin conexión: un solo resumen al volver
+        const later = new Date(new Date(job.nextRunAt).getTime() + 2 * 24 * 60 * 60 * 1000)
+        const runner = createJobRunner(createJobStore(jobsPath), handlers)
+        expect(await runner.runDue(later)).toBe(1)
+        expect(await runner.runDue(later)).toBe(0)
+
+        // Reinicio: el nuevo proceso ve el slot ya completado
+        const restarted = createJobRunner(createJobStore(jobsPath), handlers)
+        expect(await restarted.runDue(later)).toBe(0)
+        expect(sent).toHaveLength(1)
+        expect(sent[0]).toContain('Arepas')
+
+        const saved = await createJobStore(jobsPath).get(job.id)
+        expect(saved?.lastRunAt).toBe(later.toISOString())
+        expect(new Date(saved!.nextRunAt).getTime()).toBeGreaterThan(later.getTime())
+    })
+
+    it('retries a slot when the message could not be sent', async () => {
+        await notes.createNote({ titulo: 'Arepas', contenido: 'Harina', etiquetas: ['Recetas'] })
+        const jobs = createJobStore(path.join(dir, 'jobs.json'))
+        const job = await subscribeDigest(
+            jobs,
+            CHAT,
+            { id: 'default' },
+            'weekly',
+            '08:00',
+            new Date()
+        )
+
+        let connected = false
+        const runner = createJobRunner(jobs, {
+            [DIGEST_JOB]: createDigestHandler(
+                async () => connected,
+                createReminderStore(path.join(dir, 'reminders.json')),
+                () => notes
+            )
+        })
+
+        const due = new Date(job.nextRunAt)
+        expect(await runner.runDue(due)).toBe(0)
+        connected = true
+        expect(await runner.runDue(due)).toBe(1)
+    })
+})
@@ -0,0 +1,104 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+    contentSimilarity,
+    findDuplicateNote,
+    mergeNotes,
+    normalizeUrl,
+    parseDuplicateChoice
+} from '../src/services/duplicates'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { NoteStore } from '../src/services/noteStore'
+
+describe('duplicates', () => {
+    let dir: string
+    let store: NoteStore
+
+    beforeEach(async () => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-duplicates-'))
+        store = createLocalNoteStore(path.join(dir, 'notes.json'))
+        await store.createNote({
+            titulo: 'Video de arepas',
+            contenido: 'Cómo hacer arepas https://www.youtube.com/watch?v=abc123&feature=share',
+            etiquetas: ['Recetas', 'Links útiles']
+        })
+        await store.createNote({
+            titulo: 'Lista de compras',
+            contenido: 'Harina de maíz, queso blanco, aguacate, plátanos maduros y café',
+            etiquetas: ['Compras']
+        })
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('normalizes the ways a link can be written', () => {
+        expect(normalizeUrl('https://youtu.be/abc123?si=XyZ')).toBe(
+            normalizeUrl('http://m.youtube.com/watch?feature=share&v=abc123')
+        )
+        expect(normalizeUrl('https://Example.com/receta/?utm_source=wa&b=2&a=1#paso-3')).toBe(
+            'example.com/receta?a=1&b=2'
+        )
+        expect(normalizeUrl('https://example.com/receta?id=1')).not.toBe(
+            normalizeUrl('https://example.com/receta?id=2')
+        )
+    })
+
+    it('measures word overlap without links or accents', () => {
+        expect(contentSimilarity('Receta de café', 'receta de cafe https://a.com')).toBe(1)
+        expect(contentSimilarity('arepas de queso', 'ensalada verde')).toBe(0)
+        expect(contentSimilarity('https://a.com', 'algo')).toBe(0)
+    })
+
+    it('finds a note with the same link written differently', async () => {
+        const match = await findDuplicateNote(store, {
+            titulo: 'Arepas en YouTube',
+            contenido: 'https://youtu.be/abc123'
+        })
+
+        expect(match).toMatchObject({ reason: 'url', note: { titulo: 'Video de arepas' } })
+    })
+
+    it('finds a note with nearly the same content, and nothing for new content', async () => {
+        const match = await findDuplicateNote(store, {
+            titulo: 'Lista de compras',
+            contenido: 'Harina de maíz, queso blanco, aguacate, plátanos maduros y café'
+        })
+        expect(match).toMatchObject({ reason: 'content', note: { titulo: 'Lista de compras' } })
+        expect(match!.similarity).toBe(1)
+
+        expect(
+            await findDuplicateNote(store, {
+                titulo: 'Compras de la ferretería',
+                contenido: 'Tornillos, pintura blanca y una brocha'
+            })
+        ).toBeNull()
+    })
+
+    it('reads the answer to the duplicate question', () => {
+        expect(parseDuplicateChoice('1')).toBe('merge')
+        expect(parseDuplicateChoice('Fusiónala')).toBe('merge')
+        expect(parseDuplicateChoice('actualízala')).toBe('update')
+        expect(parseDuplicateChoice('la 3')).toBe('new')
+        expect(parseDuplicateChoice('guárdala de todos modos')).toBe('new')
+        expect(parseDuplicateChoice('no, guárdala como otra')).toBe('new')
+        expect(parseDuplicateChoice('No')).toBe('cancel')
+        expect(parseDuplicateChoice('¿qué notas tengo de recetas?')).toBeNull()
+    })
+
+    it('merges content and tags without repeating text', () => {
+        const existing = { contenido: 'Harina y agua', etiquetas: ['Recetas'] }
+
+        expect(mergeNotes(existing, { contenido: 'Sal al gusto', etiquetas: ['Ideas'] })).toEqual({
+            contenido: 'Harina y agua\n\nSal al gusto',
+            etiquetas: ['Recetas', 'Ideas']
+        })
+        expect(mergeNotes(existing, { contenido: 'agua', etiquetas: ['Recetas'] })).toEqual({
+            contenido: 'Harina y agua',
+            etiquetas: ['Recetas']
+        })
+    })
+})
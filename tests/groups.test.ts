@@ -0,0 +1,55 @@
+import { getGroupCommand, getGroupSettings, isGroupJid } from '../src/services/groups'
+import { config } from '../src/config/index'
+
+describe('groups', () => {
+    const botJids = ['5215550001:12@s.whatsapp.net', '99887766@lid']
+
+    it('detects group JIDs', () => {
+        expect(isGroupJid('120363000000@g.us')).toBe(true)
+        expect(isGroupJid('5215550002@s.whatsapp.net')).toBe(false)
+    })
+
+    it('activates on a mention and strips it from the text', () => {
+        expect(
+            getGroupCommand(
+                '@5215550001 guarda esta receta',
+                ['5215550001@s.whatsapp.net'],
+                botJids,
+                '!ikigai'
+            )
+        ).toBe('guarda esta receta')
+    })
+
+    it('activates on the prefix, case-insensitively', () => {
+        expect(getGroupCommand('!Ikigai ¿qué recetas tenemos?', [], botJids, '!ikigai')).toBe(
+            '¿qué recetas tenemos?'
+        )
+    })
+
+    it('ignores messages that do not address the bot', () => {
+        expect(getGroupCommand('hola a todos', [], botJids, '!ikigai')).toBeNull()
+        expect(
+            getGroupCommand('@5215550003 mira', ['5215550003@s.whatsapp.net'], botJids, '!ikigai')
+        ).toBeNull()
+    })
+
+    it('reads per-group notebooks from the allowlist', () => {
+        config.storage.backend = 'local'
+        config.groups.allowlist = ['111@g.us=notion-db-1', '222@g.us']
+
+        expect(getGroupSettings('111@g.us')).toEqual({
+            jid: '111@g.us',
+            notebook: { id: 'group-111@g.us', databaseId: 'notion-db-1' }
+        })
+        expect(getGroupSettings('222@g.us')?.notebook.databaseId).toBeUndefined()
+        expect(getGroupSettings('333@g.us')).toBeNull()
+    })
+
+    it('ignores groups without their own database when notes go to Notion', () => {
+        config.storage.backend = 'notion'
+        config.groups.allowlist = ['111@g.us=notion-db-1', '222@g.us']
+
+        expect(getGroupSettings('111@g.us')?.notebook.databaseId).toBe('notion-db-1')
+        expect(getGroupSettings('222@g.us')).toBeNull()
+    })
+})
@@ -0,0 +1,189 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { createFixtureProvider } from '../src/ai/fixtureProvider'
+import { setLLMProvider } from '../src/ai/llm'
+import { classifyIntent } from '../src/services/intentClassifier'
+import {
+    IntentParseError,
+    IntentValidationError,
+    parseIntentResponse
+} from '../src/services/intentSchema'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { NoteStore } from '../src/services/noteStore'
+
+const REPAIR_PROMPT = 'Tu respuesta no cumple el formato requerido'
+
+describe('parseIntentResponse', () => {
+    it('accepts a valid variant, also inside a code fence', () => {
+        const intent = parseIntentResponse(
+            '```json\n{"type":"query","queryType":"by_tag","parameter":"Recetas","confidence":0.8}\n```'
+        )
+        expect(intent).toEqual({
+            type: 'query',
+            queryType: 'by_tag',
+            parameter: 'Recetas',
+            confidence: 0.8
+        })
+    })
+
+    it('reports every problem of an invalid variant', () => {
+        try {
+            parseIntentResponse('{"type":"save_note","titulo":"Arepas","confidence":2}')
+            throw new Error('expected a validation error')
+        } catch (error) {
+            expect(error).toBeInstanceOf(IntentValidationError)
+            expect((error as IntentValidationError).issues).toEqual([
+                '"contenido" must be a non-empty string',
+                '"etiquetas" must be a non-empty array of strings',
+                '"confidence" must be a number between 0 and 1'
+            ])
+        }
+    })
+
+    it('requires filters on compound searches and checks their fields', () => {
+        expect(() =>
+            parseIntentResponse('{"type":"query","queryType":"search","confidence":0.9}')
+        ).toThrow(IntentValidationError)
+        expect(() =>
+            parseIntentResponse(
+                '{"type":"query","queryType":"search","filtros":{"etiquetas":["Recetas"],"orden":"alfabetico"},"confidence":0.9}'
+            )
+        ).toThrow('"filtros.orden" must be one of relevancia, recientes, antiguas')
+        expect(
+            parseIntentResponse(
+                '{"type":"query","queryType":"search","filtros":{"etiquetas":["Recetas"],"modoEtiquetas":"and","limite":3},"confidence":0.9}'
+            )
+        ).toMatchObject({ queryType: 'search', filtros: { limite: 3 } })
+    })
+
+    it('requires the question on ask intents', () => {
+        expect(() => parseIntentResponse('{"type":"ask","confidence":0.9}')).toThrow(
+            '"question" must be a non-empty string'
+        )
+        expect(
+            parseIntentResponse(
+                '{"type":"ask","question":"¿Qué lleva la arepa?","parameter":"arepa","confidence":0.9}'
+            )
+        ).toMatchObject({ type: 'ask', parameter: 'arepa' })
+    })
+
+    it('checks event dates, reminder and digest actions', () => {
+        expect(() =>
+            parseIntentResponse(
+                '{"type":"save_note","titulo":"Reunión","contenido":"El jueves","etiquetas":["Evento"],"fechaEvento":"el jueves","confidence":0.9}'
+            )
+        ).toThrow('"fechaEvento" must look like YYYY-MM-DD or YYYY-MM-DDTHH:MM')
+        expect(() =>
+            parseIntentResponse(
+                '{"type":"save_note","titulo":"Arepas","contenido":"Arepas","etiquetas":["Recetas","Ideas","Evento","Otros"],"confidence":0.9}'
+            )
+        ).toThrow('"etiquetas" must have at most 3 items')
+        expect(() =>
+            parseIntentResponse('{"type":"reminder","action":"delete","confidence":0.9}')
+        ).toThrow('"action" must be one of list, snooze, cancel')
+        expect(
+            parseIntentResponse(
+                '{"type":"reminder","action":"snooze","duracion":"10 minutos","confidence":0.9}'
+            )
+        ).toMatchObject({ action: 'snooze', duracion: '10 minutos' })
+        expect(() =>
+            parseIntentResponse(
+                '{"type":"digest","action":"subscribe","frecuencia":"monthly","confidence":0.9}'
+            )
+        ).toThrow('"frecuencia" must be "daily" or "weekly"')
+    })
+
+    it('requires the tags to change, and the new name when renaming', () => {
+        expect(() =>
+            parseIntentResponse(
+                '{"type":"tags","action":"rename","etiquetas":["links"],"confidence":0.9}'
+            )
+        ).toThrow('"destino" must be a non-empty string')
+        expect(() =>
+            parseIntentResponse('{"type":"tags","action":"merge","confidence":0.9}')
+        ).toThrow('"etiquetas" must be a non-empty array of strings')
+        expect(
+            parseIntentResponse(
+                '{"type":"tags","action":"merge","etiquetas":["Link","links","Links","Enlaces"],"destino":"Links útiles","confidence":0.9}'
+            )
+        ).toMatchObject({ etiquetas: ['Link', 'links', 'Links', 'Enlaces'] })
+        expect(parseIntentResponse('{"type":"tags","action":"list","confidence":0.9}')).toEqual({
+            type: 'tags',
+            action: 'list',
+            confidence: 0.9
+        })
+    })
+
+    it('rejects unknown types and query types, and non-JSON answers', () => {
+        expect(() => parseIntentResponse('{"type":"dance"}')).toThrow(IntentValidationError)
+        expect(() =>
+            parseIntentResponse('{"type":"query","queryType":"by_mood","confidence":0.9}')
+        ).toThrow(IntentValidationError)
+        expect(() => parseIntentResponse('Claro, aquí tienes')).toThrow(IntentParseError)
+    })
+})
+
+describe('classifyIntent', () => {
+    let dir: string
+    let store: NoteStore
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-classifier-'))
+        store = createLocalNoteStore(path.join(dir, 'notes.json'))
+    })
+
+    afterEach(() => {
+        setLLMProvider(null)
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('asks once for a repair when the first answer is malformed', async () => {
+        const provider = createFixtureProvider([
+            {
+                match: REPAIR_PROMPT,
+                response: '{"type":"query","queryType":"recent","confidence":0.9}'
+            },
+            { match: 'Mensaje:', response: '{"type":"query","queryType":"latest"}' }
+        ])
+        setLLMProvider(provider)
+
+        const intent = await classifyIntent('¿Qué guardé últimamente?', store)
+
+        expect(intent).toEqual({ type: 'query', queryType: 'recent', confidence: 0.9 })
+        expect(provider.requests).toHaveLength(2)
+        expect(provider.requests[0].jsonSchema?.name).toBe('intent_result')
+        const repair = provider.requests[1].messages
+        expect(repair[repair.length - 2]).toEqual({
+            role: 'assistant',
+            content: '{"type":"query","queryType":"latest"}'
+        })
+    })
+
+    it('gives the model the metadata of the links in the message', async () => {
+        const provider = createFixtureProvider(
+            [],
+            '{"type":"save_note","titulo":"Arepas","contenido":"https://cocina.com/arepas","etiquetas":["Recetas"],"confidence":0.9}'
+        )
+        setLLMProvider(provider)
+
+        await classifyIntent('https://cocina.com/arepas', store, [
+            { url: 'https://cocina.com/arepas', titulo: 'Arepas de la abuela', sitio: 'Cocina' }
+        ])
+
+        const prompt = provider.requests[0].messages.map(message => message.content).join('\n')
+        expect(prompt).toContain('Información de los enlaces del mensaje:')
+        expect(prompt).toContain('Título: Arepas de la abuela')
+    })
+
+    it('falls back to a conversation reply when the repair is malformed too', async () => {
+        const provider = createFixtureProvider([], 'no es JSON')
+        setLLMProvider(provider)
+
+        const intent = await classifyIntent('asdf', store)
+
+        expect(intent.type).toBe('conversation')
+        expect(provider.requests).toHaveLength(2)
+    })
+})
@@ -0,0 +1,218 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+import {
+    createHttpLinkFetcher,
+    enrichLinks,
+    extractUrls,
+    formatLinksForPrompt,
+    isPrivateAddress,
+    LinkFetcher
+} from '../src/services/linkPreview'
+
+const ARTICLE = `<!doctype html>
+<html><head>
+<title>Título del documento</title>
+<meta property="og:title" content="Cómo hacer arepas &amp; cachapas">
+<meta property="og:description" content="La receta de la abuela, paso a paso">
+<meta property="og:site_name" content="Cocina Criolla">
+</head><body>…</body></html>`
+
+const VIDEO = `<html><head>
+<link rel="alternate" type="application/json+oembed" href="/oembed?id=42">
+</head><body></body></html>`
+
+describe('linkPreview', () => {
+    let server: http.Server
+    let base: string
+    let port: number
+    const requested: string[] = []
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requested.push(req.url || '')
+            switch (req.url) {
+                case '/articulo':
+                    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+                    res.end(ARTICLE)
+                    break
+                case '/video':
+                    res.writeHead(200, { 'Content-Type': 'text/html' })
+                    res.end(VIDEO)
+                    break
+                case '/oembed?id=42':
+                    res.writeHead(200, { 'Content-Type': 'application/json' })
+                    res.end(
+                        JSON.stringify({
+                            title: 'Tutorial de budare',
+                            author_name: 'Chef Ana',
+                            provider_name: 'VideoTube'
+                        })
+                    )
+                    break
+                case '/enorme':
+                    // Los metadatos llegan después del límite de bytes
+                    res.writeHead(200, { 'Content-Type': 'text/html' })
+                    res.write(`<html><head><!-- ${'x'.repeat(64 * 1024)} -->`)
+                    res.end('<meta property="og:title" content="Demasiado tarde"></head></html>')
+                    break
+                case '/redirige':
+                    res.writeHead(302, { Location: `${base}/articulo` })
+                    res.end()
+                    break
+                case '/video-interno':
+                    res.writeHead(200, { 'Content-Type': 'text/html' })
+                    res.end(VIDEO.replace('/oembed?id=42', `${base}/oembed?id=42`))
+                    break
+                case '/lento':
+                    // Nunca responde: el fetcher tiene que abandonar por timeout
+                    break
+                default:
+                    res.writeHead(404)
+                    res.end()
+            }
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        port = (server.address() as AddressInfo).port
+        base = `http://127.0.0.1:${port}`
+    })
+
+    afterAll(async () => {
+        server.closeAllConnections()
+        await new Promise(resolve => server.close(resolve))
+    })
+
+    const fetcher = () =>
+        createHttpLinkFetcher({ timeoutMs: 300, maxBytes: 4096, allowPrivateHosts: true })
+
+    it('extracts URLs without trailing punctuation or duplicates', () => {
+        expect(
+            extractUrls(
+                'Mira https://a.com/x?y=1, y (https://b.org/receta). Otra vez: https://a.com/x?y=1'
+            )
+        ).toEqual(['https://a.com/x?y=1', 'https://b.org/receta'])
+        expect(extractUrls('sin enlaces')).toEqual([])
+    })
+
+    it('reads OpenGraph metadata and decodes entities', async () => {
+        expect(await fetcher().fetch(`${base}/articulo`)).toEqual({
+            url: `${base}/articulo`,
+            titulo: 'Cómo hacer arepas & cachapas',
+            descripcion: 'La receta de la abuela, paso a paso',
+            sitio: 'Cocina Criolla'
+        })
+    })
+
+    it('follows the oEmbed endpoint a page advertises', async () => {
+        expect(await fetcher().fetch(`${base}/video`)).toEqual({
+            url: `${base}/video`,
+            titulo: 'Tutorial de budare',
+            sitio: 'VideoTube',
+            descripcion: 'De Chef Ana'
+        })
+    })
+
+    it('stops reading at the size limit and gives up on slow pages', async () => {
+        const enorme = await fetcher().fetch(`${base}/enorme`)
+        expect(enorme?.titulo).toBeUndefined()
+
+        const started = Date.now()
+        expect(await fetcher().fetch(`${base}/lento`)).toBeNull()
+        expect(Date.now() - started).toBeLessThan(2000)
+
+        expect(await fetcher().fetch(`${base}/no-existe`)).toBeNull()
+    })
+
+    it('refuses private addresses unless allowed', async () => {
+        const strict = createHttpLinkFetcher({ timeoutMs: 300, maxBytes: 4096 })
+        expect(await strict.fetch(`${base}/articulo`)).toBeNull()
+        expect(await strict.fetch('file:///etc/passwd')).toBeNull()
+    })
+
+    it('checks every redirect and oEmbed endpoint against private addresses', async () => {
+        // Solo "localhost" está permitido; las URLs de base apuntan a 127.0.0.1
+        const local = base.replace('127.0.0.1', 'localhost')
+        const onlyLocalhost = createHttpLinkFetcher({
+            timeoutMs: 300,
+            maxBytes: 4096,
+            allowPrivateHosts: ['localhost']
+        })
+
+        expect((await onlyLocalhost.fetch(`${local}/articulo`))?.titulo).toBe(
+            'Cómo hacer arepas & cachapas'
+        )
+        expect(await fetcher().fetch(`${base}/redirige`)).toMatchObject({
+            titulo: 'Cómo hacer arepas & cachapas'
+        })
+        expect(await onlyLocalhost.fetch(`${local}/redirige`)).toBeNull()
+        expect(await onlyLocalhost.fetch(`${local}/video-interno`)).toEqual({
+            url: `${local}/video-interno`,
+            titulo: undefined,
+            descripcion: undefined,
+            sitio: 'localhost'
+        })
+    })
+
+    it('recognizes private addresses in every IPv4 and IPv6 form', () => {
+        for (const address of [
+            '127.0.0.1',
+            '10.1.2.3',
+            '192.0.0.8',
+            '::1',
+            '::ffff:127.0.0.1',
+            '::ffff:7f00:1',
+            '::7f00:1',
+            '::ffff:a9fe:a9fe',
+            'fec0::1',
+            'fd12::1',
+            '64:ff9b::7f00:1',
+            '2002:7f00:1::1'
+        ]) {
+            expect([address, isPrivateAddress(address)]).toEqual([address, true])
+        }
+        for (const address of ['93.184.216.34', '2606:2800:220:1::1', '::ffff:5db8:d822']) {
+            expect([address, isPrivateAddress(address)]).toEqual([address, false])
+        }
+    })
+
+    it('refuses IPv4-mapped IPv6 literals', async () => {
+        requested.length = 0
+        const strict = createHttpLinkFetcher({ timeoutMs: 300, maxBytes: 4096 })
+
+        expect(await strict.fetch(`http://[::ffff:127.0.0.1]:${port}/articulo`)).toBeNull()
+        expect(await strict.fetch(`http://[::ffff:7f00:1]:${port}/articulo`)).toBeNull()
+        expect(requested).toEqual([])
+    })
+
+    it('connects to the address it checked, so DNS rebinding gets nowhere', async () => {
+        requested.length = 0
+        // La primera respuesta es pública; las siguientes apuntan al servidor local
+        const resolve = jest
+            .fn()
+            .mockResolvedValueOnce([{ address: '192.0.2.1', family: 4 }])
+            .mockResolvedValue([{ address: '127.0.0.1', family: 4 }])
+        const strict = createHttpLinkFetcher({ timeoutMs: 300, maxBytes: 4096, resolve })
+
+        expect(await strict.fetch(`http://rebind.test:${port}/articulo`)).toBeNull()
+        expect(resolve).toHaveBeenCalledTimes(1)
+        expect(await strict.fetch(`http://rebind.test:${port}/articulo`)).toBeNull()
+        expect(requested).toEqual([])
+    })
+
+    it('enriches a message with the links that could be read', async () => {
+        const fake: LinkFetcher = {
+            name: 'fake',
+            fetch: async url => (url.includes('bueno') ? { url, titulo: 'Buen artículo' } : null)
+        }
+        const links = await enrichLinks(
+            'https://ejemplo.com/bueno https://ejemplo.com/roto https://ejemplo.com/bueno2',
+            fake,
+            2
+        )
+
+        expect(links).toEqual([{ url: 'https://ejemplo.com/bueno', titulo: 'Buen artículo' }])
+        expect(formatLinksForPrompt(links)).toBe(
+            '- URL: https://ejemplo.com/bueno\n  Título: Buen artículo'
+        )
+    })
+})
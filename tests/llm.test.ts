@@ -0,0 +1,58 @@
+import { createFixtureProvider } from '../src/ai/fixtureProvider'
+import { generateResponse, getTaskSettings, setLLMProvider } from '../src/ai/llm'
+import { responseFormatFor } from '../src/ai/openai'
+
+describe('llm', () => {
+    afterEach(() => {
+        setLLMProvider(null)
+    })
+
+    it('fixture provider answers from the first matching fixture', async () => {
+        const provider = createFixtureProvider(
+            [
+                { match: '/cu[aá]ntas notas/i', response: '{"intent":"query_notes"}' },
+                { match: 'receta', response: '{"intent":"save_note"}' }
+            ],
+            'sin respuesta'
+        )
+        const ask = (content: string) =>
+            provider.complete({ model: 'test', messages: [{ role: 'user', content }] })
+
+        expect(await ask('¿Cuántas notas tengo?')).toBe('{"intent":"query_notes"}')
+        expect(await ask('Guarda esta receta de arepas')).toBe('{"intent":"save_note"}')
+        expect(await ask('hola')).toBe('sin respuesta')
+    })
+
+    it('generateResponse uses the settings of the requested task', async () => {
+        const provider = createFixtureProvider([{ match: 'hola', response: 'respuesta' }])
+        setLLMProvider(provider)
+
+        expect(await generateResponse('hola', 'classification')).toBe('respuesta')
+        await generateResponse('hola', 'conversation')
+
+        const [classification, conversation] = provider.requests
+        expect(classification.model).toBe(getTaskSettings('classification').model)
+        expect(classification.temperature).toBe(0)
+        expect(conversation.temperature).toBe(getTaskSettings('conversation').temperature)
+        expect(classification.messages[classification.messages.length - 1]).toEqual({
+            role: 'user',
+            content: 'hola'
+        })
+    })
+
+    it('asks for a JSON schema only from models that support it', () => {
+        const schema = { name: 'intent_result', schema: { type: 'object' } }
+
+        expect(responseFormatFor('gpt-4o-mini', schema)).toEqual({
+            type: 'json_schema',
+            json_schema: schema
+        })
+        expect(responseFormatFor('llama3.1', schema)?.type).toBe('json_schema')
+        expect(responseFormatFor('gpt-3.5-turbo', schema)).toEqual({ type: 'json_object' })
+        expect(responseFormatFor('gpt-4-turbo', schema)).toEqual({ type: 'json_object' })
+        expect(responseFormatFor('gpt-4', schema)).toBeUndefined()
+        expect(responseFormatFor('gpt-3.5-turbo-0613', schema)).toBeUndefined()
+        expect(responseFormatFor('gpt-4o-mini')).toBeUndefined()
+        expect(getTaskSettings('classification').model).toBe('gpt-4o-mini')
+    })
+})
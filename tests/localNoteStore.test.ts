@@ -0,0 +1,129 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { parseDateRange } from '../src/services/dateParser'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { NoteQuery } from '../src/services/noteStore'
+
+describe('createLocalNoteStore', () => {
+    let dir: string
+    let filePath: string
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-notes-'))
+        filePath = path.join(dir, 'notes.json')
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('persists notes to disk and reads them back in a new instance', async () => {
+        const store = createLocalNoteStore(filePath)
+        const id = await store.createNote({
+            titulo: 'Receta de arepas',
+            contenido: 'Harina de maíz, agua y sal',
+            etiquetas: ['Recetas']
+        })
+        expect(id).toEqual(expect.any(String))
+
+        const reopened = createLocalNoteStore(filePath)
+        const notes = await reopened.queryNotes()
+        expect(notes).toHaveLength(1)
+        expect(notes[0]).toMatchObject({ id, titulo: 'Receta de arepas', etiquetas: ['Recetas'] })
+    })
+
+    it('filters by tag and ranks keyword matches', async () => {
+        const store = createLocalNoteStore(filePath)
+        await store.createNote({ titulo: 'Pasta', contenido: 'Con tomate', etiquetas: ['Recetas'] })
+        await store.createNote({ titulo: 'Idea', contenido: 'App de notas', etiquetas: ['Ideas'] })
+
+        expect((await store.queryNotes(undefined, 'Ideas')).map(note => note.titulo)).toEqual([
+            'Idea'
+        ])
+
+        const matches = await store.queryNotes('tomate')
+        expect(matches).toHaveLength(1)
+        expect(matches[0].relevancia).toBeGreaterThan(0)
+    })
+
+    it('filters by creation date together with tags', async () => {
+        const store = createLocalNoteStore(filePath)
+        await store.createNote({ titulo: 'Arepas', contenido: 'x', etiquetas: ['Recetas'] })
+        await store.createNote({ titulo: 'Idea', contenido: 'y', etiquetas: ['Ideas'] })
+
+        const today = parseDateRange('hoy')!
+        const yesterday = parseDateRange('ayer')!
+
+        expect((await store.queryNotes(undefined, 'Recetas', today)).map(n => n.titulo)).toEqual([
+            'Arepas'
+        ])
+        expect(await store.queryNotes(undefined, undefined, yesterday)).toEqual([])
+    })
+
+    it('runs compound searches with AND/OR tags, order and limit', async () => {
+        const store = createLocalNoteStore(filePath)
+        await store.createNote({
+            titulo: 'Pollo al horno',
+            contenido: 'pollo',
+            etiquetas: ['Recetas']
+        })
+        await store.createNote({
+            titulo: 'Cena con pollo',
+            contenido: 'pollo',
+            etiquetas: ['Recetas', 'Evento']
+        })
+        await store.createNote({ titulo: 'Fiesta', contenido: 'música', etiquetas: ['Evento'] })
+
+        const titles = async (query: NoteQuery) =>
+            (await store.searchNotes(query)).map(note => note.titulo)
+
+        expect(await titles({ etiquetas: ['Recetas', 'Evento'], modoEtiquetas: 'and' })).toEqual([
+            'Cena con pollo'
+        ])
+        expect(await titles({ etiquetas: ['Recetas', 'Evento'], orden: 'antiguas' })).toEqual([
+            'Pollo al horno',
+            'Cena con pollo',
+            'Fiesta'
+        ])
+        expect(
+            await titles({ etiquetas: ['Recetas'], palabrasClave: 'pollo', limite: 1 })
+        ).toHaveLength(1)
+    })
+
+    it('updates tags and reports counts and available tags', async () => {
+        const store = createLocalNoteStore(filePath)
+        const id = await store.createNote({ titulo: 'Link', contenido: 'x', etiquetas: ['Otros'] })
+
+        expect(await store.updateNoteTags(id as string, ['Links útiles', 'Ideas'])).toBe(true)
+        expect(await store.updateNoteTags('missing', ['Otros'])).toBe(false)
+
+        expect(await store.getNotesCount()).toEqual({
+            total: 1,
+            porEtiqueta: { 'Links útiles': 1, Ideas: 1 }
+        })
+        expect(await store.getAvailableTags()).toEqual(['Ideas', 'Links útiles'])
+    })
+
+    it('edits, reads back and deletes a note with its attachments', async () => {
+        const store = createLocalNoteStore(filePath)
+        const id = (await store.createNote({
+            titulo: 'Arepaz',
+            contenido: 'Harina',
+            etiquetas: ['Recetas'],
+            adjuntos: [
+                { nombreArchivo: 'foto.jpg', mimetype: 'image/jpeg', data: Buffer.from('x') }
+            ]
+        })) as string
+
+        expect(await store.updateNote(id, { titulo: 'Arepas' })).toBe(true)
+        const note = await store.getNote(id)
+        expect(note).toMatchObject({ titulo: 'Arepas', contenido: 'Harina' })
+
+        expect(await store.deleteNote(id)).toBe(true)
+        expect(await store.getNote(id)).toBeNull()
+        expect(existsSync(note!.adjuntos![0].ruta)).toBe(false)
+        expect(await store.deleteNote(id)).toBe(false)
+    })
+})
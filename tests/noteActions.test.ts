@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { createStubEmbeddingProvider, EmbeddingProvider } from '../src/ai/embeddings'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { parseConfirmation, resolveTargetNote } from '../src/services/noteActions'
+import { NoteStore } from '../src/services/noteStore'
+import { createSemanticNoteStore } from '../src/services/semanticSearch'
+import { createVectorIndex } from '../src/store/vectorIndex'
+
+describe('noteActions', () => {
+    let dir: string
+    let store: NoteStore
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-actions-'))
+        store = createLocalNoteStore(path.join(dir, 'notes.json'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('resolves the target by title, falling back to the conversation context', async () => {
+        const arepas = (await store.createNote({
+            titulo: 'Receta de arepas',
+            contenido: 'Harina de maíz',
+            etiquetas: ['Recetas']
+        })) as string
+        const reunion = (await store.createNote({
+            titulo: 'Reunión del lunes',
+            contenido: 'Revisar presupuesto',
+            etiquetas: ['Evento']
+        })) as string
+        const lastNote = { id: reunion, titulo: 'Reunión del lunes', etiquetas: ['Evento'] }
+
+        expect((await resolveTargetNote(store, 'arepas', lastNote))?.id).toBe(arepas)
+        expect((await resolveTargetNote(store, undefined, lastNote))?.id).toBe(reunion)
+        expect(await resolveTargetNote(store, 'pizza', lastNote)).toBeNull()
+        expect(await resolveTargetNote(store, undefined, undefined)).toBeNull()
+    })
+
+    it('does not take a note that is only semantically similar as the target', async () => {
+        const embedder = createStubEmbeddingProvider()
+        const semantic = createSemanticNoteStore(
+            store,
+            createVectorIndex(path.join(dir, 'vectors.json'), embedder.model),
+            embedder,
+            { semanticWeight: 0.5, minSimilarity: -1 }
+        )
+        await semantic.createNote({
+            titulo: 'Receta de arepas',
+            contenido: 'Harina de maíz',
+            etiquetas: ['Recetas']
+        })
+
+        const [best] = await semantic.queryNotes('reunion del lunes')
+        expect(best).toMatchObject({ titulo: 'Receta de arepas', relevancia: 0 })
+        expect(await resolveTargetNote(semantic, 'reunion del lunes', undefined)).toBeNull()
+        expect((await resolveTargetNote(semantic, 'arepas', undefined))?.titulo).toBe(
+            'Receta de arepas'
+        )
+    })
+
+    it('finds the exact title match even when a similar note ranks above it', async () => {
+        // La consulta y la nota de gastos comparten tema; la del título exacto, menos
+        const topics: EmbeddingProvider = {
+            name: 'topics',
+            model: 'topics-v1',
+            async embed(texts) {
+                return texts.map(text => {
+                    const lower = text.toLowerCase()
+                    return [
+                        ['presupuesto', 'dinero', 'gastos'].filter(word => lower.includes(word))
+                            .length,
+                        ['arepas', 'invitados'].filter(word => lower.includes(word)).length
+                    ]
+                })
+            }
+        }
+        const semantic = createSemanticNoteStore(
+            store,
+            createVectorIndex(path.join(dir, 'vectors.json'), topics.model),
+            topics,
+            { semanticWeight: 0.9, minSimilarity: 0.5 }
+        )
+        const boda = await semantic.createNote({
+            titulo: 'Presupuesto de la boda',
+            contenido: 'Arepas para los invitados',
+            etiquetas: ['Evento']
+        })
+        await semantic.createNote({
+            titulo: 'Gastos del mes',
+            contenido: 'Dinero del mercado',
+            etiquetas: ['Otros']
+        })
+
+        const results = await semantic.queryNotes('presupuesto')
+        expect(results.map(note => note.titulo)).toEqual([
+            'Gastos del mes',
+            'Presupuesto de la boda'
+        ])
+        expect((await resolveTargetNote(semantic, 'presupuesto', undefined))?.id).toBe(boda)
+    })
+
+    it('reads yes/no answers and ignores anything else', () => {
+        expect(parseConfirmation('Sí')).toBe('yes')
+        expect(parseConfirmation('si, bórrala')).toBe('yes')
+        expect(parseConfirmation('No!')).toBe('no')
+        expect(parseConfirmation('mejor no')).toBe('no')
+        expect(parseConfirmation('guarda esta idea')).toBeNull()
+        expect(parseConfirmation('nota nueva')).toBeNull()
+    })
+})
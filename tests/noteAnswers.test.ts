@@ -0,0 +1,80 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { createFixtureProvider } from '../src/ai/fixtureProvider'
+import { setLLMProvider } from '../src/ai/llm'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import {
+    answerFromNotes,
+    findNotesForQuestion,
+    formatAnswer,
+    formatNoAnswer
+} from '../src/services/noteAnswers'
+import { NoteStore } from '../src/services/noteStore'
+
+describe('noteAnswers', () => {
+    let dir: string
+    let store: NoteStore
+
+    beforeEach(async () => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-answers-'))
+        store = createLocalNoteStore(path.join(dir, 'notes.json'))
+        await store.createNote({
+            titulo: 'Arepas venezolanas',
+            contenido: 'Harina de maíz precocida, agua tibia y sal. Amasar y asar en budare.',
+            etiquetas: ['Recetas']
+        })
+        await store.createNote({
+            titulo: 'Reunión con Carla',
+            contenido: 'El jueves a las 10 en la oficina',
+            etiquetas: ['Evento']
+        })
+    })
+
+    afterEach(() => {
+        setLLMProvider(null)
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('retrieves the notes related to a question', async () => {
+        const notes = await findNotesForQuestion(
+            store,
+            '¿Qué ingredientes lleva mi receta de arepas?',
+            'arepas'
+        )
+
+        expect(notes.map(note => note.titulo)).toEqual(['Arepas venezolanas'])
+    })
+
+    it('answers from the notes and cites the titles it used', async () => {
+        const provider = createFixtureProvider([
+            {
+                match: 'PREGUNTA:',
+                response:
+                    'Según "Arepas venezolanas", lleva harina de maíz precocida, agua tibia y sal.'
+            }
+        ])
+        setLLMProvider(provider)
+
+        const notes = await store.searchNotes({})
+        const answer = await answerFromNotes('¿Qué ingredientes lleva la arepa?', notes)
+
+        expect(answer?.sources.map(note => note.titulo)).toEqual(['Arepas venezolanas'])
+        const prompt = provider.requests[0].messages[1].content as string
+        expect(prompt).toContain('Título: Reunión con Carla')
+        expect(prompt).toContain('PREGUNTA: ¿Qué ingredientes lleva la arepa?')
+
+        const reply = formatAnswer(answer!)
+        expect(reply).toContain('📚 Fuentes:\n1. Arepas venezolanas')
+    })
+
+    it('does not answer when the notes do not support it', async () => {
+        setLLMProvider(createFixtureProvider([], 'SIN_RESPUESTA'))
+
+        const notes = await store.searchNotes({})
+        expect(await answerFromNotes('¿Cuál es la capital de Francia?', notes)).toBeNull()
+        expect(await answerFromNotes('¿Algo?', [])).toBeNull()
+        expect(formatNoAnswer('¿Algo?', false)).toContain('No encontré notas')
+    })
+})
@@ -0,0 +1,40 @@
+import { formatNoteDetail, parseResultSelection } from '../src/services/noteDetails'
+
+describe('noteDetails', () => {
+    it('reads numbers, ordinals and paging requests', () => {
+        expect(parseResultSelection('2')).toEqual({ type: 'item', number: 2 })
+        expect(parseResultSelection('La segunda')).toEqual({ type: 'item', number: 2 })
+        expect(parseResultSelection('ver la nota 7')).toEqual({ type: 'item', number: 7 })
+        expect(parseResultSelection('muéstrame la tercera nota')).toEqual({
+            type: 'item',
+            number: 3
+        })
+        expect(parseResultSelection('Ver más')).toEqual({ type: 'more' })
+        expect(parseResultSelection('las siguientes')).toEqual({ type: 'more' })
+    })
+
+    it('leaves other messages alone', () => {
+        expect(parseResultSelection('0')).toBeNull()
+        expect(parseResultSelection('2 huevos y harina')).toBeNull()
+        expect(parseResultSelection('¿qué recetas tengo?')).toBeNull()
+    })
+
+    it('shows the full content, every tag, the date and the links', () => {
+        const contenido = `${'Paso a paso. '.repeat(20)}Video: https://youtu.be/abc123`
+        const detail = formatNoteDetail({
+            id: '1',
+            titulo: 'Arepas',
+            contenido,
+            etiquetas: ['Recetas', 'Links útiles', 'Ideas'],
+            fechaCreacion: '2025-03-14T12:00:00.000Z',
+            url: 'https://www.notion.so/Arepas-1',
+            adjuntos: [{ nombreArchivo: 'foto.jpg', mimetype: 'image/jpeg', ruta: '/tmp/foto.jpg' }]
+        })
+
+        expect(detail).toContain(contenido)
+        expect(detail).toContain('🏷️ Recetas, Links útiles, Ideas')
+        expect(detail).toContain('14 de marzo de 2025')
+        expect(detail).toContain('🔗 https://youtu.be/abc123\n🔗 https://www.notion.so/Arepas-1')
+        expect(detail).toContain('📎 foto.jpg')
+    })
+})
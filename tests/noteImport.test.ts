@@ -0,0 +1,227 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { config } from '../src/config/index'
+import { IntentResult } from '../src/services/intentClassifier'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import {
+    importNotes,
+    importProgressPath,
+    parseMarkdownNote,
+    parseWhatsAppExport,
+    readImportEntries
+} from '../src/services/noteImport'
+import { NoteStore } from '../src/services/noteStore'
+
+const androidExport = [
+    '12/03/21, 14:32 - Los mensajes y las llamadas están cifrados de extremo a extremo.',
+    '12/03/21, 14:32 - Ana: Receta de arepas: harina, agua y sal',
+    'Amasar 5 minutos',
+    '13/03/21, 9:05 p. m. - Ana: <Multimedia omitido>',
+    '14/03/21, 10:00 - Luis: Comprar pilas',
+    '15/03/21, 8:15 - Ana: Idea: app para regar plantas'
+].join('\n')
+
+const iosExport = [
+    '[3/12/21, 2:32:05 PM] Ana: Libro recomendado: Cien años de soledad',
+    '‎[3/12/21, 2:33:00 PM] Ana: ‎image omitted',
+    '[3/13/21, 9:00:00 AM] Ana: Llamar al dentista'
+].join('\n')
+
+function classifyAs(etiquetas: string[]) {
+    return jest.fn(async (texto: string): Promise<IntentResult> => ({
+        type: 'save_note',
+        titulo: texto.split('\n')[0],
+        contenido: texto.toUpperCase(),
+        etiquetas,
+        confidence: 0.9
+    }))
+}
+
+describe('WhatsApp and Markdown parsing', () => {
+    it('reads Android exports with multi-line messages, skipping system messages and media', () => {
+        const entries = parseWhatsAppExport(androidExport, 'chat.txt')
+
+        expect(entries.map(entry => entry.texto)).toEqual([
+            'Receta de arepas: harina, agua y sal\nAmasar 5 minutos',
+            'Comprar pilas',
+            'Idea: app para regar plantas'
+        ])
+        expect(entries[0]).toMatchObject({ origen: 'chat.txt:2', autor: 'Ana' })
+        expect(entries[0].fecha).toBe(new Date(2021, 2, 12, 14, 32).toISOString())
+        expect(parseWhatsAppExport(androidExport, 'chat.txt', 'ana')).toHaveLength(2)
+    })
+
+    it('reads iPhone exports with month-first dates and 12-hour times', () => {
+        const entries = parseWhatsAppExport(iosExport)
+
+        expect(entries.map(entry => entry.texto)).toEqual([
+            'Libro recomendado: Cien años de soledad',
+            'Llamar al dentista'
+        ])
+        expect(entries[0].fecha).toBe(new Date(2021, 2, 12, 14, 32).toISOString())
+        expect(entries[1].fecha).toBe(new Date(2021, 2, 13, 9, 0).toISOString())
+    })
+
+    it('reads the title, tags and date of the front matter', () => {
+        const entry = parseMarkdownNote(
+            [
+                '---',
+                'title: "Arepas de la abuela"',
+                'tags: [recetas, "Desayunos"]',
+                'date: 2020-05-01',
+                '---',
+                'Harina, agua y sal.'
+            ].join('\n'),
+            'arepas.md'
+        )
+        expect(entry).toEqual({
+            origen: 'arepas.md',
+            texto: 'Harina, agua y sal.',
+            titulo: 'Arepas de la abuela',
+            etiquetas: ['recetas', 'Desayunos'],
+            fecha: '2020-05-01T00:00:00.000Z'
+        })
+
+        expect(
+            parseMarkdownNote(
+                '---\netiquetas:\n  - ideas\n  - "#apps"\n---\n# Regar plantas\nUna app',
+                'x.md'
+            )
+        ).toMatchObject({ titulo: 'Regar plantas', etiquetas: ['ideas', 'apps'] })
+        expect(parseMarkdownNote('---\ntags: [vacía]\n---\n', 'vacia.md')).toBeNull()
+    })
+})
+
+describe('importNotes', () => {
+    let dir: string
+    let store: NoteStore
+    let progressPath: string
+
+    beforeEach(async () => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-import-'))
+        store = createLocalNoteStore(path.join(dir, 'notes.json'))
+        progressPath = path.join(dir, 'progress.json')
+        await store.createNote({
+            titulo: 'Comprar pilas',
+            contenido: 'Comprar pilas',
+            etiquetas: ['Compras']
+        })
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('shows what it would import on a dry run without writing anything', async () => {
+        const classify = classifyAs(['Ideas'])
+        const results: string[] = []
+
+        const summary = await importNotes(parseWhatsAppExport(androidExport), {
+            store,
+            dryRun: true,
+            progressPath,
+            classify,
+            onResult: result => results.push(result.status)
+        })
+
+        expect(summary).toEqual({
+            total: 3,
+            creadas: 2,
+            duplicadas: 1,
+            yaImportadas: 0,
+            fallidas: 0
+        })
+        expect(results).toEqual(['created', 'duplicate', 'created'])
+        expect((await store.getNotesCount()).total).toBe(1)
+        expect(() => readFileSync(progressPath)).toThrow()
+    })
+
+    it('keeps the original text and date, and resumes where it stopped', async () => {
+        const entries = parseWhatsAppExport(androidExport)
+        const failing = classifyAs(['Ideas']).mockRejectedValueOnce(new Error('timeout'))
+
+        const first = await importNotes(entries, {
+            store,
+            progressPath,
+            batchSize: 2,
+            classify: failing
+        })
+        expect(first).toMatchObject({ creadas: 1, duplicadas: 1, fallidas: 1 })
+
+        const notes = await store.queryNotes('plantas')
+        expect(notes).toHaveLength(1)
+        expect(notes[0]).toMatchObject({
+            titulo: 'Idea: app para regar plantas',
+            contenido: 'Idea: app para regar plantas',
+            etiquetas: ['Ideas'],
+            fechaCreacion: entries[2].fecha
+        })
+
+        const preview = await importNotes(entries, {
+            store,
+            progressPath,
+            dryRun: true,
+            classify: classifyAs(['Recetas'])
+        })
+        expect(preview).toMatchObject({ creadas: 1, yaImportadas: 2, fallidas: 0 })
+        expect((await store.getNotesCount()).total).toBe(2)
+
+        const classify = classifyAs(['Recetas'])
+        const second = await importNotes(entries, { store, progressPath, batchSize: 2, classify })
+        expect(second).toMatchObject({ creadas: 1, yaImportadas: 2, fallidas: 0 })
+        expect(classify).toHaveBeenCalledTimes(1)
+        expect((await store.getNotesCount()).total).toBe(3)
+    })
+
+    it('imports a folder of Markdown notes with their own tags', async () => {
+        const folder = path.join(dir, 'notas')
+        mkdirSync(path.join(folder, 'cocina'), { recursive: true })
+        writeFileSync(
+            path.join(folder, 'cocina', 'arepas.md'),
+            '---\ntitle: Arepas\ntags: [receta]\n---\nHarina de maíz y agua tibia'
+        )
+        writeFileSync(path.join(folder, 'leeme.txt'), 'no es markdown')
+        await store.createNote({
+            titulo: 'Pan',
+            contenido: 'Harina y levadura',
+            etiquetas: ['Recetas']
+        })
+
+        const entries = await readImportEntries(folder)
+        expect(entries.map(entry => entry.origen)).toEqual([path.join('cocina', 'arepas.md')])
+
+        await importNotes(entries, { store, progressPath, classify: classifyAs(['Ideas']) })
+        expect((await store.queryNotes('Arepas'))[0]).toMatchObject({
+            titulo: 'Arepas',
+            etiquetas: ['Recetas']
+        })
+    })
+
+    it('keeps the progress of each notebook apart', async () => {
+        const originalPath = config.imports.progressPath
+        config.imports.progressPath = path.join(dir, 'import-progress.json')
+        const entries = parseWhatsAppExport(androidExport)
+        const notebook = { id: 'user-5215550001@s.whatsapp.net' }
+        const other = createLocalNoteStore(path.join(dir, 'other.json'))
+
+        try {
+            expect(importProgressPath()).toBe(path.join(dir, 'import-progress.json'))
+            expect(importProgressPath(notebook)).toBe(
+                path.join(dir, 'import-progress-user-5215550001_s.whatsapp.net.json')
+            )
+
+            await importNotes(entries, { store, classify: classifyAs(['Ideas']) })
+            const summary = await importNotes(entries, {
+                store: other,
+                notebook,
+                classify: classifyAs(['Ideas'])
+            })
+            expect(summary).toMatchObject({ creadas: 3, yaImportadas: 0 })
+            expect(readFileSync(importProgressPath(notebook), 'utf8')).toContain('importadas')
+        } finally {
+            config.imports.progressPath = originalPath
+        }
+    })
+})
@@ -0,0 +1,66 @@
+import { buildNoteQuery, describeNoteQuery } from '../src/services/noteQuery'
+
+describe('buildNoteQuery', () => {
+    it('keeps simple queries as they are', () => {
+        expect(
+            buildNoteQuery(
+                { type: 'query', queryType: 'by_tag', parameter: 'Recetas', confidence: 1 },
+                ''
+            )
+        ).toEqual({
+            query: expect.objectContaining({ etiquetas: ['Recetas'], modoEtiquetas: 'and' }),
+            queryType: 'by_tag',
+            descripcion: 'Recetas'
+        })
+        expect(
+            buildNoteQuery({ type: 'query', queryType: 'recent', confidence: 1 }, '')?.query.limite
+        ).toBe(10)
+    })
+
+    it('builds a compound search with tags, keywords, dates, order and limit', () => {
+        const built = buildNoteQuery(
+            {
+                type: 'query',
+                queryType: 'search',
+                filtros: {
+                    etiquetas: ['Recetas', 'Ideas'],
+                    modoEtiquetas: 'or',
+                    palabrasClave: 'pollo',
+                    fechas: 'este mes',
+                    orden: 'antiguas',
+                    limite: 3
+                },
+                confidence: 0.9
+            },
+            'recetas o ideas con pollo de este mes'
+        )!
+
+        expect(built.queryType).toBe('search')
+        expect(built.query).toMatchObject({
+            etiquetas: ['Recetas', 'Ideas'],
+            modoEtiquetas: 'or',
+            palabrasClave: 'pollo',
+            orden: 'antiguas',
+            limite: 3
+        })
+        expect(built.query.fechas?.label).toBe('este mes')
+        expect(built.descripcion).toBe('en "Recetas" o "Ideas" con "pollo" de este mes')
+    })
+
+    it('falls back to the message for the date and fails when there is none', () => {
+        const intent = { type: 'query' as const, queryType: 'by_date' as const, confidence: 1 }
+        expect(
+            buildNoteQuery({ ...intent, parameter: 'eso' }, '¿qué guardé ayer?')?.descripcion
+        ).toBe('ayer')
+        expect(buildNoteQuery({ ...intent, parameter: 'eso' }, 'lo de siempre')).toBeNull()
+    })
+
+    it('describes open date ranges without an extra "de"', () => {
+        expect(
+            describeNoteQuery({
+                palabrasClave: 'pollo',
+                fechas: { start: 'x', label: 'desde ayer' }
+            })
+        ).toBe('con "pollo" desde ayer')
+    })
+})
@@ -0,0 +1,386 @@
+const query = jest.fn()
+const update = jest.fn()
+const create = jest.fn()
+const retrieve = jest.fn()
+const listBlocks = jest.fn()
+const appendBlocks = jest.fn()
+const deleteBlock = jest.fn()
+const retrieveDatabase = jest.fn()
+
+jest.mock('@notionhq/client', () => ({
+    Client: jest.fn().mockImplementation(() => ({
+        databases: { query, retrieve: retrieveDatabase },
+        pages: { update, create, retrieve },
+        blocks: { children: { list: listBlocks, append: appendBlocks }, delete: deleteBlock }
+    }))
+}))
+
+function page(id: string, titulo: string, etiquetas: string[] = []) {
+    return {
+        id,
+        properties: {
+            Title: { title: [{ text: { content: titulo } }] },
+            Content: { rich_text: [{ text: { content: '' } }] },
+            Tags: { multi_select: etiquetas.map(name => ({ name })) },
+            'Created Date': { date: { start: '2025-01-01T00:00:00.000Z' } }
+        }
+    }
+}
+
+function loadNotion(maxResults = '1000') {
+    process.env.NOTION_API_KEY = 'secret'
+    process.env.NOTION_DATABASE_ID = 'db'
+    process.env.NOTION_MAX_RESULTS = maxResults
+    let notion: typeof import('../src/services/notion')
+    jest.isolateModules(() => {
+        notion = require('../src/services/notion')
+    })
+    return notion!
+}
+
+describe('Notion pagination', () => {
+    beforeEach(() => {
+        query.mockReset()
+    })
+
+    it('follows next_cursor when counting notes', async () => {
+        query
+            .mockResolvedValueOnce({
+                results: [page('1', 'A', ['Ideas']), page('2', 'B', ['Ideas'])],
+                has_more: true,
+                next_cursor: 'c1'
+            })
+            .mockResolvedValueOnce({
+                results: [page('3', 'C', ['Recetas'])],
+                has_more: false,
+                next_cursor: null
+            })
+
+        const { getNotesCount } = loadNotion()
+        expect(await getNotesCount()).toEqual({
+            total: 3,
+            porEtiqueta: { Ideas: 2, Recetas: 1 }
+        })
+        expect(query).toHaveBeenLastCalledWith(expect.objectContaining({ start_cursor: 'c1' }))
+    })
+
+    it('stops at the configured cap', async () => {
+        query.mockResolvedValue({
+            results: [page('1', 'A'), page('2', 'B')],
+            has_more: true,
+            next_cursor: 'more'
+        })
+
+        const { queryNotionNotes } = loadNotion('2')
+        expect(await queryNotionNotes()).toHaveLength(2)
+        expect(query).toHaveBeenCalledTimes(1)
+        expect(query).toHaveBeenCalledWith(expect.objectContaining({ page_size: 2 }))
+    })
+
+    it('sends keyword filters to Notion', async () => {
+        query.mockResolvedValue({
+            results: [page('1', 'Receta de arepas')],
+            has_more: false,
+            next_cursor: null
+        })
+
+        const { queryNotionNotes } = loadNotion()
+        const results = await queryNotionNotes('arepas', 'Recetas')
+
+        expect(results.map(note => note.id)).toEqual(['1'])
+        expect(query).toHaveBeenCalledTimes(1)
+        expect(query.mock.calls[0][0].filter).toEqual({
+            and: [
+                { property: 'Tags', multi_select: { contains: 'Recetas' } },
+                {
+                    or: [
+                        { property: 'Title', title: { contains: 'arepas' } },
+                        { property: 'Content', rich_text: { contains: 'arepas' } },
+                        { property: 'Content', rich_text: { ends_with: '…' } }
+                    ]
+                }
+            ]
+        })
+    })
+
+    it('combines tag and date filters in one flat "and"', async () => {
+        query.mockResolvedValue({ results: [], has_more: false, next_cursor: null })
+
+        const { queryNotionNotes } = loadNotion()
+        await queryNotionNotes(undefined, 'Recetas', 'db', {
+            start: '2025-03-01T00:00:00.000Z',
+            end: '2025-04-01T00:00:00.000Z',
+            label: 'marzo de 2025'
+        })
+
+        expect(query.mock.calls[0][0].filter).toEqual({
+            and: [
+                { property: 'Tags', multi_select: { contains: 'Recetas' } },
+                { property: 'Created Date', date: { on_or_after: '2025-03-01T00:00:00.000Z' } },
+                { property: 'Created Date', date: { before: '2025-04-01T00:00:00.000Z' } }
+            ]
+        })
+    })
+})
+
+describe('Notion compound search', () => {
+    beforeEach(() => {
+        query.mockReset()
+    })
+
+    it('nests OR tags next to the keyword filter and asks only for the limit', async () => {
+        query.mockResolvedValue({
+            results: [page('1', 'Pollo al horno', ['Recetas'])],
+            has_more: false,
+            next_cursor: null
+        })
+
+        const { searchNotionNotes } = loadNotion()
+        const results = await searchNotionNotes(
+            { etiquetas: ['Recetas', 'Ideas'], palabrasClave: 'pollo' },
+            'db'
+        )
+
+        expect(results.map(note => note.id)).toEqual(['1'])
+        expect(query.mock.calls[0][0].filter).toEqual({
+            and: [
+                {
+                    or: [
+                        { property: 'Tags', multi_select: { contains: 'Recetas' } },
+                        { property: 'Tags', multi_select: { contains: 'Ideas' } }
+                    ]
+                },
+                {
+                    or: [
+                        { property: 'Title', title: { contains: 'pollo' } },
+                        { property: 'Content', rich_text: { contains: 'pollo' } },
+                        { property: 'Content', rich_text: { ends_with: '…' } }
+                    ]
+                }
+            ]
+        })
+
+        query.mockClear()
+        await searchNotionNotes({ orden: 'antiguas', limite: 3 }, 'db')
+        expect(query).toHaveBeenCalledTimes(1)
+        expect(query.mock.calls[0][0]).toMatchObject({
+            page_size: 3,
+            sorts: [{ property: 'Created Date', direction: 'ascending' }]
+        })
+    })
+})
+
+describe('Notion fuzzy search', () => {
+    beforeEach(() => {
+        query.mockReset()
+        listBlocks.mockReset()
+    })
+
+    it('looks for partial matches in one page of recent notes only', async () => {
+        query
+            .mockResolvedValueOnce({ results: [], has_more: false, next_cursor: null })
+            .mockResolvedValue({
+                results: [page('1', 'Arepas rellenas'), page('2', 'Lista de compras')],
+                has_more: true,
+                next_cursor: 'more'
+            })
+
+        const { searchNotionNotes } = loadNotion()
+        const results = await searchNotionNotes({ palabrasClave: 'arepa' }, 'db')
+
+        expect(results.map(note => note.id)).toEqual(['1'])
+        expect(query).toHaveBeenCalledTimes(2)
+        expect(query.mock.calls[1][0]).toMatchObject({ page_size: 100 })
+        expect(query.mock.calls[1][0]).not.toHaveProperty('start_cursor')
+        expect(listBlocks).not.toHaveBeenCalled()
+    })
+})
+
+describe('Notion note changes', () => {
+    beforeEach(() => {
+        update.mockReset().mockResolvedValue({})
+        listBlocks
+            .mockReset()
+            .mockResolvedValue({ results: [], has_more: false, next_cursor: null })
+        appendBlocks.mockReset().mockResolvedValue({})
+        deleteBlock.mockReset().mockResolvedValue({})
+        retrieve.mockReset()
+    })
+
+    it('archives the page instead of deleting it', async () => {
+        retrieve.mockResolvedValue({ ...page('page-1', 'Nota'), parent: { database_id: 'db' } })
+        const { createNotionNoteStore } = loadNotion()
+        expect(await createNotionNoteStore('db').deleteNote('page-1')).toBe(true)
+        expect(update).toHaveBeenCalledWith({ page_id: 'page-1', archived: true })
+    })
+
+    it('only reaches pages of its own database', async () => {
+        const ajena = { ...page('page-2', 'Nota ajena'), parent: { database_id: 'otra-db' } }
+        retrieve.mockResolvedValue(ajena)
+
+        const store = loadNotion().createNotionNoteStore('0123abcd-0000-0000-0000-000000000000')
+        expect(await store.getNote('page-2')).toBeNull()
+        expect(await store.updateNote('page-2', { titulo: 'Mía' })).toBe(false)
+        expect(await store.updateNoteTags('page-2', ['Ideas'])).toBe(false)
+        expect(await store.deleteNote('page-2')).toBe(false)
+        expect(update).not.toHaveBeenCalled()
+
+        retrieve.mockResolvedValue({
+            ...ajena,
+            parent: { type: 'database_id', database_id: '0123ABCD000000000000000000000000' }
+        })
+        expect((await store.getNote('page-2'))?.titulo).toBe('Nota ajena')
+        expect(await store.deleteNote('page-2')).toBe(true)
+    })
+
+    it('only sends the properties that changed', async () => {
+        const { updateNotionNote } = loadNotion()
+        expect(await updateNotionNote('page-1', { contenido: 'Nuevo' })).toBe(true)
+        expect(update).toHaveBeenCalledWith({
+            page_id: 'page-1',
+            properties: { Content: { rich_text: [{ text: { content: 'Nuevo' } }] } }
+        })
+    })
+    it('replaces the text blocks of the body and keeps the attachments', async () => {
+        listBlocks.mockResolvedValue({
+            results: [
+                { id: 'b1', type: 'paragraph' },
+                { id: 'b2', type: 'image' }
+            ],
+            has_more: false,
+            next_cursor: null
+        })
+
+        const { updateNotionNote } = loadNotion()
+        expect(await updateNotionNote('page-1', { contenido: 'Paso\n'.repeat(100) })).toBe(true)
+
+        expect(deleteBlock).toHaveBeenCalledTimes(1)
+        expect(deleteBlock).toHaveBeenCalledWith({ block_id: 'b1' })
+        expect(appendBlocks.mock.calls[0][0].children).toHaveLength(1)
+        expect(update.mock.calls[0][0].properties.Content.rich_text[0].text.content).toMatch(/…$/)
+    })
+})
+
+describe('Notion group authors', () => {
+    const columns = {
+        Title: { type: 'title' },
+        Content: { type: 'rich_text' },
+        Tags: { type: 'multi_select' },
+        'Created Date': { type: 'date' }
+    }
+    const nota = { titulo: 'Idea', contenido: 'Idea', etiquetas: [], autor: '5215550001' }
+
+    beforeEach(() => {
+        create.mockReset().mockResolvedValue({ id: 'page-1' })
+        appendBlocks.mockReset().mockResolvedValue({})
+        retrieveDatabase.mockReset()
+    })
+
+    it('writes the author only in databases that have the column', async () => {
+        retrieveDatabase.mockImplementation(async ({ database_id }) => ({
+            properties:
+                database_id === 'con-autor'
+                    ? { ...columns, Author: { type: 'rich_text' } }
+                    : columns
+        }))
+
+        const { createNotionNote } = loadNotion()
+        await createNotionNote(nota, 'sin-autor')
+        await createNotionNote(nota, 'sin-autor')
+        await createNotionNote(nota, 'con-autor')
+
+        expect(create.mock.calls[0][0].properties).not.toHaveProperty('Author')
+        expect(create.mock.calls[1][0].properties).not.toHaveProperty('Author')
+        expect(create.mock.calls[2][0].properties.Author).toEqual({
+            rich_text: [{ text: { content: '5215550001' } }]
+        })
+        expect(retrieveDatabase).toHaveBeenCalledTimes(2)
+    })
+})
+
+describe('Notion note bodies', () => {
+    const long = `Ingredientes:\n${Array.from({ length: 150 }, (_, index) => `- ingrediente ${index}`).join('\n')}`
+
+    beforeEach(() => {
+        create.mockReset().mockResolvedValue({ id: 'page-1' })
+        appendBlocks.mockReset().mockResolvedValue({})
+        listBlocks.mockReset()
+        query.mockReset()
+    })
+
+    it('writes long content as page blocks and a summary in the property', async () => {
+        const { createNotionNote } = loadNotion()
+        expect(
+            await createNotionNote({
+                titulo: 'Receta',
+                contenido: long,
+                etiquetas: ['Recetas'],
+                enlaces: [{ url: 'https://example.com/receta', titulo: 'Receta' }]
+            })
+        ).toBe('page-1')
+
+        const request = create.mock.calls[0][0]
+        const summary = request.properties.Content.rich_text[0].text.content
+        expect(summary.length).toBeLessThanOrEqual(280)
+        expect(summary).toMatch(/^Ingredientes: - ingrediente 0 .*…$/)
+        expect(request.children).toHaveLength(100)
+        expect(appendBlocks).toHaveBeenCalledTimes(1)
+        const rest = appendBlocks.mock.calls[0][0]
+        expect(rest.block_id).toBe('page-1')
+        expect(rest.children).toHaveLength(52)
+        expect(rest.children[51]).toMatchObject({ bookmark: { url: 'https://example.com/receta' } })
+    })
+
+    it('reads the body of summarized notes when searching', async () => {
+        const summarized = page('1', 'Receta larga')
+        summarized.properties.Content.rich_text = [{ text: { content: 'Ingredientes: harina…' } }]
+        query.mockResolvedValue({ results: [summarized], has_more: false, next_cursor: null })
+        listBlocks.mockResolvedValue({
+            results: [
+                {
+                    type: 'paragraph',
+                    paragraph: { rich_text: [{ plain_text: 'Ingredientes: harina' }] }
+                },
+                {
+                    type: 'bulleted_list_item',
+                    bulleted_list_item: { rich_text: [{ plain_text: 'canela' }] }
+                }
+            ],
+            has_more: false,
+            next_cursor: null
+        })
+
+        const { searchNotionNotes } = loadNotion()
+        const results = await searchNotionNotes({ palabrasClave: 'canela' }, 'db')
+
+        expect(results.map(note => note.contenido)).toEqual(['Ingredientes: harina\n- canela'])
+        expect(listBlocks).toHaveBeenCalledWith(expect.objectContaining({ block_id: '1' }))
+    })
+    it('reads the whole body for the detail view once per edit', async () => {
+        const summarized = {
+            ...page('2', 'Receta larga'),
+            last_edited_time: '2025-01-02T00:00:00.000Z'
+        }
+        summarized.properties.Content.rich_text = [{ text: { content: 'Paso uno…' } }]
+        retrieve.mockReset().mockResolvedValue(summarized)
+        listBlocks.mockResolvedValue({
+            results: [
+                {
+                    type: 'numbered_list_item',
+                    numbered_list_item: { rich_text: [{ plain_text: 'Paso uno' }] }
+                },
+                {
+                    type: 'numbered_list_item',
+                    numbered_list_item: { rich_text: [{ plain_text: 'Paso dos' }] }
+                }
+            ],
+            has_more: false,
+            next_cursor: null
+        })
+
+        const { getNotionNote } = loadNotion()
+        expect((await getNotionNote('2'))!.contenido).toBe('1. Paso uno\n2. Paso dos')
+        expect((await getNotionNote('2'))!.contenido).toBe('1. Paso uno\n2. Paso dos')
+        expect(listBlocks).toHaveBeenCalledTimes(1)
+    })
+})
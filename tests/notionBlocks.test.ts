@@ -0,0 +1,114 @@
+import {
+    blocksToContent,
+    contentToBlocks,
+    isSummary,
+    NOTION_TEXT_LIMIT,
+    summarizeContent,
+    toRichText
+} from '../src/services/notionBlocks'
+
+const recipe = [
+    'Arepas de la abuela para el desayuno del domingo.',
+    'Salen unas ocho.',
+    '',
+    'Ingredientes:',
+    '- 2 tazas de harina de maíz',
+    '• 1 cucharadita de sal',
+    '',
+    'Preparación:',
+    '1. Mezclar la harina con agua tibia',
+    '2) Amasar y formar las arepas',
+    '',
+    'https://www.youtube.com/watch?v=abc123'
+].join('\n')
+
+// Los bloques como los devuelve Notion al leer la página
+function asRead(blocks: any[]) {
+    return blocks.map(block => ({
+        ...block,
+        [block.type]: {
+            ...block[block.type],
+            rich_text: block[block.type].rich_text?.map((part: any) => ({
+                ...part,
+                plain_text: part.text.content
+            }))
+        }
+    }))
+}
+
+describe('Notion blocks', () => {
+    it('keeps short content as it is and summarizes long content at a word', () => {
+        expect(summarizeContent('Comprar pan')).toBe('Comprar pan')
+        expect(isSummary('Comprar pan')).toBe(false)
+
+        const summary = summarizeContent('palabra '.repeat(100), 40)
+        expect(summary).toBe('palabra palabra palabra palabra…')
+        expect(isSummary(summary)).toBe(true)
+    })
+
+    it('turns lines into paragraphs, list items and bookmarks', () => {
+        expect(contentToBlocks(recipe).map(block => block.type)).toEqual([
+            'paragraph',
+            'paragraph',
+            'bulleted_list_item',
+            'bulleted_list_item',
+            'paragraph',
+            'numbered_list_item',
+            'numbered_list_item',
+            'bookmark'
+        ])
+        expect(contentToBlocks(recipe)[0]).toEqual({
+            type: 'paragraph',
+            paragraph: {
+                rich_text: [
+                    {
+                        text: {
+                            content:
+                                'Arepas de la abuela para el desayuno del domingo.\nSalen unas ocho.'
+                        }
+                    }
+                ]
+            }
+        })
+    })
+
+    it('splits long text in pieces Notion accepts and links the URLs', () => {
+        const parts = toRichText(
+            `${'a'.repeat(NOTION_TEXT_LIMIT + 10)} mira https://example.com/receta.`
+        )
+
+        expect(parts.map(part => part.text.content.length)).toEqual([NOTION_TEXT_LIMIT, 16, 26, 1])
+        expect(parts[2].text).toEqual({
+            content: 'https://example.com/receta',
+            link: { url: 'https://example.com/receta' }
+        })
+    })
+
+    it('reads the content back from the page blocks', () => {
+        const blocks = asRead(contentToBlocks(recipe))
+        const attachment = {
+            type: 'image',
+            image: { type: 'file', file: { url: 'https://files/x.png' } }
+        }
+        const linkPreview = {
+            type: 'bookmark',
+            bookmark: { url: 'https://www.youtube.com/watch?v=abc123' }
+        }
+
+        expect(blocksToContent([...blocks, attachment, linkPreview])).toBe(
+            [
+                'Arepas de la abuela para el desayuno del domingo.\nSalen unas ocho.',
+                '',
+                'Ingredientes:',
+                '- 2 tazas de harina de maíz',
+                '- 1 cucharadita de sal',
+                '',
+                'Preparación:',
+                '1. Mezclar la harina con agua tibia',
+                '2. Amasar y formar las arepas',
+                '',
+                'https://www.youtube.com/watch?v=abc123'
+            ].join('\n')
+        )
+    })
+})
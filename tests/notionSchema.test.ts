@@ -0,0 +1,68 @@
+import {
+    formatSchemaProblem,
+    NotionSchema,
+    schemaProperties,
+    validateNotionSchema
+} from '../src/services/notionSchema'
+
+const schema: NotionSchema = {
+    title: 'Title',
+    content: 'Content',
+    tags: 'Tags',
+    createdDate: 'Created Date',
+    author: 'Author',
+    eventDate: ''
+}
+
+describe('Notion schema', () => {
+    it('accepts a database with every column and skips unmapped ones', () => {
+        expect(
+            validateNotionSchema(
+                {
+                    Title: { type: 'title' },
+                    Content: { type: 'rich_text' },
+                    Tags: { type: 'multi_select' },
+                    'Created Date': { type: 'date' },
+                    Author: { type: 'rich_text' }
+                },
+                schema
+            )
+        ).toEqual([])
+    })
+
+    it('reports missing columns and wrong types, with a likely replacement', () => {
+        const problems = validateNotionSchema(
+            {
+                Name: { type: 'title' },
+                Content: { type: 'rich_text' },
+                Tags: { type: 'select' },
+                Fecha: { type: 'date' }
+            },
+            schema
+        )
+
+        expect(problems.map(formatSchemaProblem)).toEqual([
+            'Falta la propiedad "Title" (título). ¿Es "Name"? Usa NOTION_TITLE_PROPERTY=Name',
+            '"Tags" es de tipo select; debe ser selección múltiple',
+            'Falta la propiedad "Created Date" (fecha). ¿Es "Fecha"? Usa NOTION_CREATED_DATE_PROPERTY=Fecha',
+            'Falta la propiedad "Author" (texto)'
+        ])
+        expect(problems.map(problem => problem.requerida)).toEqual([true, true, true, false])
+    })
+
+    it('creates only the columns that are missing and can be added', () => {
+        const problems = validateNotionSchema(
+            { Name: { type: 'title' }, Tags: { type: 'select' } },
+            schema
+        )
+
+        expect(schemaProperties(problems, schema)).toEqual({
+            Content: { rich_text: {} },
+            'Created Date': { date: {} },
+            Author: { rich_text: {} }
+        })
+        expect(Object.keys(schemaProperties(undefined, { ...schema, eventDate: 'Fecha' }))).toEqual(
+            ['Title', 'Content', 'Tags', 'Created Date', 'Author', 'Fecha']
+        )
+    })
+})
@@ -0,0 +1,175 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { config } from '../src/config/index'
+import { resolveUserNotebook } from '../src/services/onboarding'
+import {
+    canAccessNotionDatabase,
+    checkNotionSchema,
+    createNotionNotebook
+} from '../src/services/notion'
+import { createUserRegistry, UserRegistry } from '../src/store/userRegistry'
+
+jest.mock('../src/services/notion', () => ({
+    createNotionNotebook: jest.fn(),
+    canAccessNotionDatabase: jest.fn(),
+    checkNotionSchema: jest.fn().mockResolvedValue([])
+}))
+
+const owner = '5215550000@s.whatsapp.net'
+const alice = '5215550001@s.whatsapp.net'
+
+describe('resolveUserNotebook', () => {
+    let dir: string
+    let registry: UserRegistry
+    const originalUsers = { ...config.users }
+    const originalBackend = config.storage.backend
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-users-'))
+        registry = createUserRegistry(path.join(dir, 'users.json'))
+        config.users.ownerJids = [owner]
+    })
+
+    afterEach(() => {
+        Object.assign(config.users, originalUsers)
+        config.storage.backend = originalBackend
+        jest.resetAllMocks()
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('keeps owners on the default notebook', async () => {
+        config.users.ownerJids = [alice]
+        expect(await resolveUserNotebook(alice, 'hola', undefined, registry)).toEqual({
+            status: 'ready',
+            notebook: { id: 'default' }
+        })
+    })
+
+    it('takes the first sender as the owner when OWNER_JIDS is not set', async () => {
+        config.storage.backend = 'notion'
+        config.users.ownerJids = []
+
+        expect(await resolveUserNotebook(owner, 'hola', undefined, registry)).toEqual({
+            status: 'ready',
+            notebook: { id: 'default' }
+        })
+        expect(await resolveUserNotebook(owner, 'otra nota', undefined, registry)).toEqual({
+            status: 'ready',
+            notebook: { id: 'default' }
+        })
+
+        const second = await resolveUserNotebook(alice, 'hola', 'Alice', registry)
+        expect(second.status).toBe('reply')
+        expect((await registry.get(alice))?.status).toBe('pending')
+    })
+
+    it('gives each new sender their own local namespace', async () => {
+        config.storage.backend = 'local'
+
+        const first = await resolveUserNotebook(alice, 'hola', 'Alice', registry)
+        expect(first).toMatchObject({ status: 'ready', notebook: { id: `user-${alice}` } })
+        expect(first.status === 'ready' && first.welcome).toBeTruthy()
+
+        const second = await resolveUserNotebook(alice, 'otra nota', 'Alice', registry)
+        expect(second).toEqual({ status: 'ready', notebook: { id: `user-${alice}` } })
+    })
+
+    it('creates a Notion database under the configured parent page', async () => {
+        config.storage.backend = 'notion'
+        config.users.notionParentPageId = 'parent-page'
+        jest.mocked(createNotionNotebook).mockResolvedValue('new-db')
+
+        const result = await resolveUserNotebook(alice, 'hola', 'Alice', registry)
+
+        expect(createNotionNotebook).toHaveBeenCalledWith('parent-page', 'Ikigai · Alice')
+        expect(result).toMatchObject({ status: 'ready', notebook: { databaseId: 'new-db' } })
+    })
+
+    it('asks for a database and connects it once shared', async () => {
+        config.storage.backend = 'notion'
+        config.users.notionParentPageId = undefined
+        jest.mocked(canAccessNotionDatabase).mockResolvedValue(true)
+
+        const ask = await resolveUserNotebook(alice, 'hola', 'Alice', registry)
+        expect(ask.status).toBe('reply')
+        expect((await registry.get(alice))?.status).toBe('pending')
+
+        await resolveUserNotebook(
+            alice,
+            'https://www.notion.so/workspace/0123456789abcdef0123456789abcdef?v=1',
+            'Alice',
+            registry
+        )
+        expect(canAccessNotionDatabase).toHaveBeenCalledWith('0123456789abcdef0123456789abcdef')
+        expect(await registry.get(alice)).toMatchObject({
+            status: 'active',
+            notebook: { databaseId: '0123456789abcdef0123456789abcdef' }
+        })
+    })
+    it('lists the columns a shared database is missing', async () => {
+        config.storage.backend = 'notion'
+        config.users.notionParentPageId = undefined
+        jest.mocked(canAccessNotionDatabase).mockResolvedValue(true)
+        jest.mocked(checkNotionSchema).mockResolvedValueOnce([
+            {
+                propiedad: 'Tags',
+                esperado: 'multi_select',
+                encontrado: null,
+                requerida: true,
+                variable: 'NOTION_TAGS_PROPERTY',
+                sugerencia: 'Etiquetas'
+            }
+        ])
+
+        await resolveUserNotebook(alice, 'hola', 'Alice', registry)
+        const result = await resolveUserNotebook(
+            alice,
+            '0123456789abcdef0123456789abcdef',
+            'Alice',
+            registry
+        )
+
+        expect(result).toEqual({
+            status: 'reply',
+            text: '❌ Esa base de datos no tiene las columnas que necesito:\n\n• Falta la propiedad "Tags" (selección múltiple)\n\nCorrígela y envíame el link de nuevo.'
+        })
+        expect((await registry.get(alice))?.status).toBe('pending')
+    })
+
+    it('refuses databases that already hold the notes of someone else', async () => {
+        config.storage.backend = 'notion'
+        config.users.notionParentPageId = undefined
+        const originalDatabase = config.notion.databaseId
+        const originalGroups = config.groups.allowlist
+        config.notion.databaseId = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'
+        config.groups.allowlist = ['111@g.us=cccccccccccccccccccccccccccccccc']
+        jest.mocked(canAccessNotionDatabase).mockResolvedValue(true)
+        await registry.save({
+            jid: '5215550002@s.whatsapp.net',
+            status: 'active',
+            notebook: { id: 'user-bob', databaseId: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' },
+            registeredAt: '2025-01-01T00:00:00.000Z'
+        })
+
+        try {
+            await resolveUserNotebook(alice, 'hola', 'Alice', registry)
+            for (const databaseId of [
+                'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+                'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+                'CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC'
+            ]) {
+                expect(await resolveUserNotebook(alice, databaseId, 'Alice', registry)).toEqual({
+                    status: 'reply',
+                    text: '❌ Esa base de datos ya está en uso. Crea una base de datos nueva para tus notas y envíame su link.'
+                })
+            }
+            expect(canAccessNotionDatabase).not.toHaveBeenCalled()
+            expect((await registry.get(alice))?.status).toBe('pending')
+        } finally {
+            config.notion.databaseId = originalDatabase
+            config.groups.allowlist = originalGroups
+        }
+    })
+})
@@ -0,0 +1,134 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { createReminderScheduler } from '../src/services/reminderScheduler'
+import {
+    buildReminderTimes,
+    cancelNoteReminders,
+    findReminderEvent,
+    groupReminderEvents,
+    parseEventDate,
+    parseSnoozeDuration,
+    scheduleEventReminders
+} from '../src/services/reminders'
+import { createReminderStore } from '../src/store/reminderStore'
+
+// Lunes 5 de mayo de 2025, 12:00 hora local
+const NOW = new Date(2025, 4, 5, 12, 0)
+
+describe('reminder schedule', () => {
+    it('parses event dates as local time', () => {
+        expect(parseEventDate('2025-05-08T10:00')).toEqual({
+            date: new Date(2025, 4, 8, 10, 0),
+            allDay: false
+        })
+        expect(parseEventDate('2025-05-08', 9)).toEqual({
+            date: new Date(2025, 4, 8, 9, 0),
+            allDay: true
+        })
+        expect(parseEventDate('2025-02-30')).toBeNull()
+        expect(parseEventDate('el jueves')).toBeNull()
+    })
+
+    it('reminds at each offset still in the future', () => {
+        expect(buildReminderTimes('2025-05-08T10:00', NOW, [1440, 60])).toEqual([
+            new Date(2025, 4, 7, 10, 0),
+            new Date(2025, 4, 8, 9, 0)
+        ])
+        // Evento en 30 minutos: ningún desfase cabe, se avisa a la hora del evento
+        expect(buildReminderTimes('2025-05-05T12:30', NOW, [1440, 60])).toEqual([
+            new Date(2025, 4, 5, 12, 30)
+        ])
+        expect(buildReminderTimes('2025-05-01T10:00', NOW, [60])).toEqual([])
+    })
+
+    it('reads snooze durations', () => {
+        expect(parseSnoozeDuration('posponer 10 minutos')).toBe(10)
+        expect(parseSnoozeDuration('pospón el 2 una hora')).toBe(60)
+        expect(parseSnoozeDuration('media hora')).toBe(30)
+        expect(parseSnoozeDuration('recuérdame mañana')).toBe(24 * 60)
+        expect(parseSnoozeDuration('después')).toBeNull()
+    })
+})
+
+describe('reminder store and scheduler', () => {
+    let dir: string
+    let filePath: string
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-reminders-'))
+        filePath = path.join(dir, 'reminders.json')
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    const event = {
+        chatId: '5215500000000@s.whatsapp.net',
+        noteId: 'note-1',
+        titulo: 'Reunión con Carla',
+        fechaEvento: '2025-05-08T10:00'
+    }
+
+    it('keeps the schedule across restarts and sends due reminders once', async () => {
+        await scheduleEventReminders(createReminderStore(filePath), event, NOW)
+
+        // Un proceso nuevo lee el mismo archivo
+        const store = createReminderStore(filePath)
+        const sent: { chatId: string; text: string }[] = []
+        const scheduler = createReminderScheduler(store, async (chatId, text) => {
+            sent.push({ chatId, text })
+            return true
+        })
+
+        expect(await scheduler.runDue(NOW)).toBe(0)
+        expect(await scheduler.runDue(new Date(2025, 4, 7, 10, 1))).toBe(1)
+        expect(await scheduler.runDue(new Date(2025, 4, 7, 10, 2))).toBe(0)
+
+        expect(sent).toHaveLength(1)
+        expect(sent[0].chatId).toBe(event.chatId)
+        expect(sent[0].text).toContain('⏰ Recordatorio: *Reunión con Carla*')
+        expect(groupReminderEvents(await store.list())[0].reminders).toHaveLength(1)
+    })
+
+    it('retries while disconnected and skips reminders superseded during downtime', async () => {
+        const store = createReminderStore(filePath)
+        await scheduleEventReminders(store, event, NOW)
+
+        const offline = createReminderScheduler(store, async () => false)
+        expect(await offline.runDue(new Date(2025, 4, 8, 9, 30))).toBe(0)
+
+        const texts: string[] = []
+        const online = createReminderScheduler(store, async (_, text) => {
+            texts.push(text)
+            return true
+        })
+        expect(await online.runDue(new Date(2025, 4, 8, 9, 30))).toBe(1)
+        expect(texts[0]).toContain('en 30 minutos')
+
+        const statuses = (await store.list()).map(reminder => reminder.status)
+        expect(statuses).toEqual(['missed', 'sent'])
+    })
+
+    it('finds events by list number or title and cancels them', async () => {
+        const store = createReminderStore(filePath)
+        await scheduleEventReminders(store, event, NOW)
+        await scheduleEventReminders(
+            store,
+            { ...event, noteId: 'note-2', titulo: 'Cumpleaños de Ana', fechaEvento: '2025-05-06' },
+            NOW
+        )
+
+        const events = groupReminderEvents(await store.list(event.chatId))
+        expect(events.map(item => item.titulo)).toEqual(['Cumpleaños de Ana', 'Reunión con Carla'])
+        expect(findReminderEvent(events, '2')?.noteId).toBe('note-1')
+        expect(findReminderEvent(events, '1', ['note-1', 'note-2'])?.noteId).toBe('note-1')
+        expect(findReminderEvent(events, 'cumpleanos')?.noteId).toBe('note-2')
+        expect(findReminderEvent(events, 'dentista')).toBeNull()
+
+        expect(await cancelNoteReminders(store, 'note-1')).toBe(2)
+        expect(groupReminderEvents(await store.list()).map(item => item.noteId)).toEqual(['note-2'])
+    })
+})
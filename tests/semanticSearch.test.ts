@@ -0,0 +1,132 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+    createStubEmbeddingProvider,
+    EmbeddingProvider,
+    isSemanticSearchEnabled
+} from '../src/ai/embeddings'
+import { config } from '../src/config/index'
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { NoteStore } from '../src/services/noteStore'
+import { createSemanticNoteStore } from '../src/services/semanticSearch'
+import { cosineSimilarity, createVectorIndex } from '../src/store/vectorIndex'
+
+// Dos "temas" fijos para que las similitudes del test sean exactas
+const TOPICS = [
+    ['pollo', 'arepa', 'harina', 'almuerzo', 'cena'],
+    ['musica', 'fiesta', 'concierto']
+]
+
+const topicEmbedder: EmbeddingProvider = {
+    name: 'topics',
+    model: 'topics-v1',
+    async embed(texts) {
+        return texts.map(text => {
+            const lower = text.toLowerCase()
+            return TOPICS.map(words => words.filter(word => lower.includes(word)).length)
+        })
+    }
+}
+
+describe('semantic search', () => {
+    let dir: string
+    let store: NoteStore
+    let indexPath: string
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-semantic-'))
+        indexPath = path.join(dir, 'vectors.json')
+        store = createSemanticNoteStore(
+            createLocalNoteStore(path.join(dir, 'notes.json')),
+            createVectorIndex(indexPath, topicEmbedder.model),
+            topicEmbedder,
+            { semanticWeight: 0.5, minSimilarity: 0.5 }
+        )
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('embeds notes on create and finds them without a keyword match', async () => {
+        const arepas = await store.createNote({
+            titulo: 'Arepas',
+            contenido: 'Harina de maíz',
+            etiquetas: ['Recetas']
+        })
+        await store.createNote({
+            titulo: 'Fiesta',
+            contenido: 'Música en vivo',
+            etiquetas: ['Evento']
+        })
+
+        const index = JSON.parse(readFileSync(indexPath, 'utf8'))
+        expect(index.model).toBe('topics-v1')
+        expect(Object.keys(index.vectors)).toContain(arepas)
+
+        const results = await store.queryNotes('almuerzo')
+        expect(results.map(note => note.titulo)).toEqual(['Arepas'])
+        expect(results[0].similitud).toBeCloseTo(1)
+    })
+
+    it('ranks exact matches above notes that are only similar', async () => {
+        await store.createNote({
+            titulo: 'Cena de arepas',
+            contenido: 'Harina',
+            etiquetas: ['Recetas']
+        })
+        await store.createNote({
+            titulo: 'Pollo al horno',
+            contenido: 'Pollo',
+            etiquetas: ['Recetas']
+        })
+
+        const results = await store.queryNotes('pollo')
+        expect(results.map(note => note.titulo)).toEqual(['Pollo al horno', 'Cena de arepas'])
+    })
+
+    it('re-embeds edited notes and forgets deleted ones', async () => {
+        const id = (await store.createNote({
+            titulo: 'Plan',
+            contenido: 'Ir al concierto',
+            etiquetas: ['Evento']
+        })) as string
+        expect(await store.queryNotes('almuerzo')).toEqual([])
+
+        await store.updateNote(id, { contenido: 'Almuerzo con pollo' })
+        expect((await store.queryNotes('almuerzo')).map(note => note.id)).toEqual([id])
+
+        await store.deleteNote(id)
+        expect(await store.queryNotes('almuerzo')).toEqual([])
+        expect(JSON.parse(readFileSync(indexPath, 'utf8')).vectors[id]).toBeUndefined()
+    })
+
+    it('stub embeddings are deterministic and group word variants', async () => {
+        const stub = createStubEmbeddingProvider()
+        const [receta, recetas, concierto] = await stub.embed([
+            'receta de arepas',
+            'recetas de arepas',
+            'concierto'
+        ])
+
+        expect(await stub.embed(['receta de arepas'])).toEqual([receta])
+        expect(cosineSimilarity(receta, recetas)).toBeGreaterThan(0.5)
+        expect(cosineSimilarity(receta, concierto)).toBeLessThan(0.2)
+    })
+
+    it('stays off until a provider is chosen, even with an OpenAI key', () => {
+        const original = { ...config.embeddings }
+        try {
+            config.embeddings.apiKey = 'sk-test'
+            expect(config.embeddings.provider).toBe('none')
+            expect(isSemanticSearchEnabled()).toBe(false)
+
+            config.embeddings.provider = 'openai'
+            expect(isSemanticSearchEnabled()).toBe(true)
+        } finally {
+            Object.assign(config.embeddings, original)
+        }
+    })
+})
@@ -0,0 +1,80 @@
+import {
+    applyTagCorrection,
+    formatTagChangeQuestion,
+    parseTagCorrection,
+    TagCorrectionContext
+} from '../src/services/tagCorrection'
+import { matchTag } from '../src/services/tags'
+
+const context: TagCorrectionContext = {
+    available: ['Recetas', 'Links útiles', 'Ideas', 'Evento', 'Otros'],
+    current: ['Otros'],
+    suggested: ['Ideas']
+}
+
+function correct(message: string, overrides: Partial<TagCorrectionContext> = {}) {
+    const ctx = { ...context, ...overrides }
+    const correction = parseTagCorrection(message, ctx)
+    return correction && applyTagCorrection(ctx.current, correction)
+}
+
+describe('tag correction', () => {
+    it('matches tags ignoring case, accents, plurals and typos', () => {
+        expect(matchTag(context.available, 'links utiles')).toBe('Links útiles')
+        expect(matchTag(context.available, 'receta')).toBe('Recetas')
+        expect(matchTag(context.available, 'Eventos')).toBe('Evento')
+        expect(matchTag(context.available, 'Viajes')).toBeNull()
+    })
+
+    it('accepts the suggested tags with a plain yes', () => {
+        expect(correct('Sí')).toEqual(['Otros', 'Ideas'])
+        expect(correct('agrégalas')).toEqual(['Otros', 'Ideas'])
+        expect(correct('sí', { suggested: [] })).toEqual(['Otros'])
+        expect(correct('no')).toEqual(['Otros'])
+        expect(correct('así está bien')).toEqual(['Otros'])
+    })
+
+    it('adds tags, also after a yes', () => {
+        expect(correct('sí, agrega receta')).toEqual(['Otros', 'Recetas'])
+        expect(correct('Agrégale "links útiles" y evento')).toEqual([
+            'Otros',
+            'Links útiles',
+            'Evento'
+        ])
+        expect(correct('también Viajes')).toEqual(['Otros', 'Viajes'])
+    })
+
+    it('removes only tags the note has, and combines with adding', () => {
+        expect(correct('quita otros y agrega Ideas')).toEqual(['Ideas'])
+        expect(correct('quítale Recetas', { current: ['Recetas', 'Ideas'] })).toEqual(['Ideas'])
+        expect(correct('quita Evento')).toBeNull()
+    })
+
+    it('replaces all tags or swaps one for another', () => {
+        expect(correct('cámbiala a Recetas y Eventos')).toEqual(['Recetas', 'Evento'])
+        expect(correct('cambia la etiqueta a recetas')).toEqual(['Recetas'])
+        expect(correct('debería ser Ideas')).toEqual(['Ideas'])
+        expect(correct('cambia Otros por Recetas', { current: ['Otros', 'Ideas'] })).toEqual([
+            'Ideas',
+            'Recetas'
+        ])
+    })
+
+    it('reads bare tag names as an answer', () => {
+        expect(correct('Ideas')).toEqual(['Otros', 'Ideas'])
+        expect(correct('recetas, evento')).toEqual(['Recetas', 'Evento'])
+    })
+
+    it('leaves other messages alone, even when they mention a tag', () => {
+        expect(correct('¿qué notas tengo con la etiqueta Recetas?')).toBeNull()
+        expect(correct('cambia el título a Arepas de la abuela')).toBeNull()
+        expect(correct('agrega a la lista de compras leche y pan integral fresco')).toBeNull()
+        expect(correct('etiqueta')).toBeNull()
+    })
+
+    it('marks new tags in the confirmation question', () => {
+        expect(formatTagChangeQuestion('Arepas', ['Recetas', 'Viajes'], context.available)).toBe(
+            '🏷️ ¿Dejo las etiquetas de "Arepas" así: Recetas, Viajes (nueva)? Responde "sí" para guardar o "no" para cancelar.'
+        )
+    })
+})
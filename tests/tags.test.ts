@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { createLocalNoteStore } from '../src/services/localNoteStore'
+import { NoteStore } from '../src/services/noteStore'
+import {
+    applyTagChange,
+    findTag,
+    formatTagChange,
+    formatTagChangeConfirmation,
+    getTagUsage,
+    mergeTags,
+    planTagMerge,
+    replaceTags
+} from '../src/services/tags'
+
+describe('tags', () => {
+    let dir: string
+    let store: NoteStore
+
+    beforeEach(async () => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'ikigai-tags-'))
+        store = createLocalNoteStore(path.join(dir, 'notes.json'))
+        await store.createNote({
+            titulo: 'Tutorial de TypeScript',
+            contenido: 'https://example.com/ts',
+            etiquetas: ['Links útiles', 'Ideas']
+        })
+        await store.createNote({
+            titulo: 'Artículo de cocina',
+            contenido: 'https://example.com/cocina',
+            etiquetas: ['links', 'Recetas']
+        })
+        await store.createNote({
+            titulo: 'Podcast',
+            contenido: 'https://example.com/podcast',
+            etiquetas: ['Link', 'Links útiles']
+        })
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('counts the notes of every tag, most used first', async () => {
+        expect(await getTagUsage(store)).toEqual([
+            { etiqueta: 'Links útiles', notas: 2 },
+            { etiqueta: 'Ideas', notas: 1 },
+            { etiqueta: 'Link', notas: 1 },
+            { etiqueta: 'links', notas: 1 },
+            { etiqueta: 'Recetas', notas: 1 }
+        ])
+    })
+
+    it('finds tags ignoring case, accents and quotes', () => {
+        expect(findTag(['Links útiles', 'Ideas'], '"links utiles"')).toBe('Links útiles')
+        expect(findTag(['Links útiles'], 'links')).toBeNull()
+    })
+
+    it('renames a tag on every note, also just its case', async () => {
+        const change = await replaceTags(store, ['recetas'], 'Cocina')
+        expect(change).toEqual({
+            etiquetas: ['Recetas'],
+            destino: 'Cocina',
+            notas: 1,
+            faltantes: []
+        })
+
+        const cased = await replaceTags(store, ['links'], 'Links')
+        expect(cased).toMatchObject({ etiquetas: ['links'], destino: 'Links', notas: 1 })
+        expect((await store.getAvailableTags()).sort()).toEqual(
+            ['Cocina', 'Ideas', 'Link', 'Links', 'Links útiles'].sort()
+        )
+    })
+
+    it('merges tags into the most used one without repeating it on a note', async () => {
+        const change = await mergeTags(store, ['Link', 'links', 'links útiles'])
+
+        expect(change).toMatchObject({ etiquetas: ['Link', 'links'], destino: 'Links útiles' })
+        expect(change!.notas).toBe(2)
+        const podcast = (await store.queryNotes('Podcast'))[0]
+        expect(podcast.etiquetas).toEqual(['Links útiles'])
+        expect(await getTagUsage(store)).toContainEqual({ etiqueta: 'Links útiles', notas: 3 })
+    })
+
+    it('retires a tag and reports the ones it does not know', async () => {
+        const change = await replaceTags(store, ['Ideas', 'Viajes'], null)
+
+        expect(change).toEqual({
+            etiquetas: ['Ideas'],
+            destino: null,
+            notas: 1,
+            faltantes: ['Viajes']
+        })
+        expect(formatTagChange(change!)).toBe(
+            '🏷️ Listo: quité "Ideas" de 1 nota.\nNo encontré: "Viajes".'
+        )
+        expect(await store.getAvailableTags()).not.toContain('Ideas')
+    })
+
+    it('plans a change without touching the notes until it is applied', async () => {
+        const plan = await planTagMerge(store, ['Link', 'links'], 'Enlaces')
+
+        expect(plan).toEqual({
+            etiquetas: ['Link', 'links'],
+            destino: 'Enlaces',
+            notas: 2,
+            faltantes: []
+        })
+        expect(formatTagChangeConfirmation(plan)).toBe(
+            '🏷️ Voy a cambiar "Link", "links" por "Enlaces" en 2 notas.\n\n¿Lo hago? Responde "sí" para confirmar o "no" para cancelar.'
+        )
+        expect(await store.getAvailableTags()).toContain('Link')
+
+        expect(await applyTagChange(store, plan)).toMatchObject({ destino: 'Enlaces', notas: 2 })
+        expect(await getTagUsage(store)).toContainEqual({ etiqueta: 'Enlaces', notas: 2 })
+    })
+})
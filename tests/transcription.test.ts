@@ -0,0 +1,25 @@
+import { createStubTranscriber, getTranscriber, setTranscriber } from '../src/ai/transcription'
+
+describe('transcription', () => {
+    afterEach(() => {
+        setTranscriber(null)
+    })
+
+    it('stub transcriber returns scripted transcripts in order', async () => {
+        const transcriber = createStubTranscriber(
+            'Guarda la receta de arepas',
+            '¿Cuántas notas tengo?'
+        )
+        const audio = Buffer.from('fake-ogg')
+
+        expect(await transcriber.transcribe(audio, 'audio/ogg')).toBe('Guarda la receta de arepas')
+        expect(await transcriber.transcribe(audio, 'audio/ogg')).toBe('¿Cuántas notas tengo?')
+        expect(await transcriber.transcribe(audio, 'audio/ogg')).toBe('¿Cuántas notas tengo?')
+    })
+
+    it('getTranscriber returns the transcriber installed with setTranscriber', () => {
+        const stub = createStubTranscriber('hola')
+        setTranscriber(stub)
+        expect(getTranscriber()).toBe(stub)
+    })
+})